@@ -10,6 +10,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
 import { CartProvider } from "./contexts/CartContext";
 import { WishlistProvider } from "./contexts/WishlistContext";
+import { CurrencyProvider } from "./contexts/CurrencyContext";
 import { Layout } from "./components/Layout";
 import Index from "./pages/Index";
 import Products from "./pages/Products";
@@ -97,89 +98,91 @@ const App = () => {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <AuthProvider>
-          <WishlistProvider>
-            <CartProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Layout>
-                  <Routes>
-                    <Route path="/" element={<Index />} />
-                    <Route path="/products" element={<Products />} />
-                    <Route
-                      path="/products-with-images"
-                      element={<ProductsWithImages />}
-                    />
-                    <Route
-                      path="/collections/:slug"
-                      element={<CollectionView />}
-                    />
-                    <Route path="/login" element={<Login />} />
-                    <Route path="/register" element={<Register />} />
-                    <Route path="/costume/:id" element={<CostumeDetail />} />
-                    <Route path="/cart" element={<Cart />} />
-                    <Route path="/checkout" element={<Checkout />} />
-                    <Route
-                      path="/checkout/success"
-                      element={<CheckoutSuccess />}
-                    />
-                    {/* Support legacy or mis-cased URLs */}
-                    <Route
-                      path="/CheckoutSuccess"
-                      element={<Navigate to="/checkout/success" replace />}
-                    />
-                    <Route path="/dashboard" element={<Dashboard />} />
-                    <Route path="/orders" element={<MyOrders />} />
-                    <Route path="/notifications" element={<Notifications />} />
-                    <Route path="/wishlist" element={<Wishlist />} />
-                    <Route path="/settings" element={<Settings />} />
-                    <Route
-                      path="/about"
-                      element={<PlaceholderPage title="About Us" />}
-                    />
-                    <Route
-                      path="/contact"
-                      element={<PlaceholderPage title="Contact" />}
-                    />
-                    <Route
-                      path="/faq"
-                      element={<PlaceholderPage title="FAQ" />}
-                    />
-                    <Route
-                      path="/size-guide"
-                      element={<PlaceholderPage title="Size Guide" />}
-                    />
-                    <Route
-                      path="/care-instructions"
-                      element={<PlaceholderPage title="Care Instructions" />}
-                    />
-                    <Route
-                      path="/rental-terms"
-                      element={<PlaceholderPage title="Rental Terms" />}
-                    />
-                    <Route
-                      path="/privacy"
-                      element={<PlaceholderPage title="Privacy Policy" />}
-                    />
-                    <Route
-                      path="/returns"
-                      element={<PlaceholderPage title="Returns & Refunds" />}
-                    />
-                    <Route
-                      path="/network-diagnostics"
-                      element={
-                        <div className="container mx-auto p-8">
-                          <NetworkDiagnostics />
-                        </div>
-                      }
-                    />
-                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </Layout>
-              </BrowserRouter>
-            </CartProvider>
-          </WishlistProvider>
+          <CurrencyProvider>
+            <WishlistProvider>
+              <CartProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <Layout>
+                    <Routes>
+                      <Route path="/" element={<Index />} />
+                      <Route path="/products" element={<Products />} />
+                      <Route
+                        path="/products-with-images"
+                        element={<ProductsWithImages />}
+                      />
+                      <Route
+                        path="/collections/:slug"
+                        element={<CollectionView />}
+                      />
+                      <Route path="/login" element={<Login />} />
+                      <Route path="/register" element={<Register />} />
+                      <Route path="/costume/:id" element={<CostumeDetail />} />
+                      <Route path="/cart" element={<Cart />} />
+                      <Route path="/checkout" element={<Checkout />} />
+                      <Route
+                        path="/checkout/success"
+                        element={<CheckoutSuccess />}
+                      />
+                      {/* Support legacy or mis-cased URLs */}
+                      <Route
+                        path="/CheckoutSuccess"
+                        element={<Navigate to="/checkout/success" replace />}
+                      />
+                      <Route path="/dashboard" element={<Dashboard />} />
+                      <Route path="/orders" element={<MyOrders />} />
+                      <Route path="/notifications" element={<Notifications />} />
+                      <Route path="/wishlist" element={<Wishlist />} />
+                      <Route path="/settings" element={<Settings />} />
+                      <Route
+                        path="/about"
+                        element={<PlaceholderPage title="About Us" />}
+                      />
+                      <Route
+                        path="/contact"
+                        element={<PlaceholderPage title="Contact" />}
+                      />
+                      <Route
+                        path="/faq"
+                        element={<PlaceholderPage title="FAQ" />}
+                      />
+                      <Route
+                        path="/size-guide"
+                        element={<PlaceholderPage title="Size Guide" />}
+                      />
+                      <Route
+                        path="/care-instructions"
+                        element={<PlaceholderPage title="Care Instructions" />}
+                      />
+                      <Route
+                        path="/rental-terms"
+                        element={<PlaceholderPage title="Rental Terms" />}
+                      />
+                      <Route
+                        path="/privacy"
+                        element={<PlaceholderPage title="Privacy Policy" />}
+                      />
+                      <Route
+                        path="/returns"
+                        element={<PlaceholderPage title="Returns & Refunds" />}
+                      />
+                      <Route
+                        path="/network-diagnostics"
+                        element={
+                          <div className="container mx-auto p-8">
+                            <NetworkDiagnostics />
+                          </div>
+                        }
+                      />
+                      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </Layout>
+                </BrowserRouter>
+              </CartProvider>
+            </WishlistProvider>
+          </CurrencyProvider>
         </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
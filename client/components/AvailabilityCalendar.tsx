@@ -11,6 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { PAYMENT_POLICY } from "@shared/payment-policy";
 
 interface AvailabilityResult {
   available: boolean;
@@ -30,6 +31,13 @@ interface AvailabilityCalendarProps {
   initialEndDate?: string;
 }
 
+interface DateSuggestion {
+  start_date: string;
+  end_date: string;
+  rental_days: number;
+  available_quantity: number;
+}
+
 interface DayAvailability {
   date: string;
   available: boolean;
@@ -61,8 +69,9 @@ export default function AvailabilityCalendar({
   const [bookedRanges, setBookedRanges] = useState<
     Array<{ from: string; to: string }>
   >([]);
+  const [suggestions, setSuggestions] = useState<DateSuggestion[]>([]);
 
-  const MINIMUM_RENTAL_DAYS = 12;
+  const MINIMUM_RENTAL_DAYS = PAYMENT_POLICY.minimumRentalDays;
   const MAXIMUM_RENTAL_DAYS = 39;
 
   // Format date to YYYY-MM-DD
@@ -90,206 +99,78 @@ export default function AvailabilityCalendar({
     return Math.floor(timeDiff / (1000 * 3600 * 24)) + 1;
   };
 
-  // Fetch availability for the current month using combined endpoint (handles company-level ICS filtering)
+  // Fetch per-day availability and booked ranges for the current month from the availability service
   const fetchAvailability = async (month: Date) => {
     setLoading(true);
     try {
       const startOfMonth = new Date(month.getFullYear(), month.getMonth(), 1);
       const endOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0);
-      const from = formatDate(startOfMonth);
-      const to = formatDate(endOfMonth);
-
-      try {
-        // First try the combined endpoint which merges ICS + API and filters company-level ICS to the product
-        try {
-          const qs = new URLSearchParams({ productId: productId, from, to });
-          const resp = await (await import('@/lib/safeFetch')).safeFetch(`/api/availability/combined?${qs.toString()}`, {
-            method: 'GET',
-            credentials: 'same-origin',
-            cache: 'no-store',
-            timeoutMs: 10000,
-          });
-          if (resp && resp.ok) {
-            const json = await resp.json().catch(() => null);
-            const datesMap = json && json.dates;
-            if (datesMap && typeof datesMap === 'object') {
-              const mapped: Record<string, DayAvailability> = {};
-              for (const [d, info] of Object.entries(datesMap)) {
-                const dateKey = d.split('T')[0];
-                if (info && typeof info === 'object') {
-                  mapped[dateKey] = { date: dateKey, available: Boolean((info as any).available) } as DayAvailability;
-                } else {
-                  mapped[dateKey] = { date: dateKey, available: false } as DayAvailability;
-                }
-              }
-
-              // derive ranges
-              const dates = Object.keys(mapped).sort();
-              const ranges: Array<{ from: string; to: string }> = [];
-              let rangeStart: string | null = null;
-              let prevDate: Date | null = null;
-              for (const d of dates) {
-                const isAvailable = mapped[d]?.available ?? true;
-                const curr = new Date(d + 'T00:00:00');
-                if (!isAvailable) {
-                  if (!rangeStart) {
-                    rangeStart = d;
-                    prevDate = curr;
-                  } else if (prevDate) {
-                    const next = new Date(prevDate);
-                    next.setDate(prevDate.getDate() + 1);
-                    if (curr.getTime() === next.getTime()) {
-                      prevDate = curr;
-                    } else {
-                      ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-                      rangeStart = d;
-                      prevDate = curr;
-                    }
-                  }
-                } else {
-                  if (rangeStart && prevDate) {
-                    ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-                    rangeStart = null;
-                    prevDate = null;
-                  }
-                }
-              }
-              if (rangeStart && prevDate) ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-
-              setBookedRanges(ranges);
-              setAvailability(mapped);
-              setLoading(false);
-              return;
-            }
-          }
-        } catch (combinedErr) {
-          console.warn('Combined availability endpoint failed, falling back to calendar endpoint:', combinedErr);
-        }
-
-        // Fallback to legacy calendar endpoint (POST /api/availability/calendar)
-        const maxAttempts = 2;
-        let attempt = 0;
-        let data: any = null;
-        const postPayload = {
-          product_id: productId,
-          start_date: from,
-          end_date: to,
-        };
-
-        while (attempt < maxAttempts) {
-          try {
-            attempt++;
-            const resp = await (await import('@/lib/safeFetch')).safeFetch('/api/availability/calendar', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(postPayload),
-              credentials: 'same-origin',
-              cache: 'no-store',
-              timeoutMs: 8000,
-            });
-
-            if (!resp || !resp.ok) throw new Error(`Server responded ${resp && resp.status}`);
-            data = await resp.json().catch(() => null);
-            break;
-          } catch (e) {
-            console.warn('[availability] POST attempt failed:', e);
-            if (attempt < maxAttempts) await new Promise((r) => setTimeout(r, 200 * attempt));
-          }
-        }
-
-        if (!data) {
-          // Fallback to GET query endpoint
-          try {
-            const qs = new URLSearchParams({ productId: productId, from, to });
-            const resp = await (await import('@/lib/safeFetch')).safeFetch(`/api/availability/calendar?${qs.toString()}`, {
-              method: 'GET',
-              credentials: 'same-origin',
-              cache: 'no-store',
-              timeoutMs: 8000,
-            });
-            if (!resp || !resp.ok) throw new Error(`GET fallback responded ${resp && resp.status}`);
-            const json = await resp.json().catch(() => null);
-            const days = json?.data?.days || [];
-            const availArray = days.map((d: any) => ({ date: d.date, available: Number(d.available_quantity || 0) > 0 }));
-            data = { data: { availability: availArray } };
-          } catch (getErr) {
-            console.error('Availability (ICS) fetch failed:', getErr);
-            toast({ title: 'Availability error', description: 'Failed to load calendar availability.', variant: 'destructive' });
-            setAvailability({});
-            setBookedRanges([]);
-            setLoading(false);
-            return;
-          }
-        }
-
-        // Map response into availability map
-        const availArray: Array<any> = data?.data?.availability || [];
-        const mapped: Record<string, DayAvailability> = {};
-
-        for (const item of availArray) {
-          const dateKey = (item.date || item.day || '').split('T')[0];
-          const available = Boolean(item.available);
-          mapped[dateKey] = { date: dateKey, available } as DayAvailability;
-        }
-
-        // Derive contiguous booked ranges from the availability map (unavailable days)
-        const deriveBookedRanges = (availMap: Record<string, DayAvailability>) => {
-          const dates = Object.keys(availMap).sort();
-          const ranges: Array<{ from: string; to: string }> = [];
-          let rangeStart: string | null = null;
-          let prevDate: Date | null = null;
-
-          for (const d of dates) {
-            const isAvailable = availMap[d]?.available ?? true;
-            const curr = new Date(d + 'T00:00:00');
-            if (!isAvailable) {
-              if (!rangeStart) {
-                rangeStart = d;
-                prevDate = curr;
-              } else if (prevDate) {
-                const next = new Date(prevDate);
-                next.setDate(prevDate.getDate() + 1);
-                if (curr.getTime() === next.getTime()) {
-                  prevDate = curr;
-                } else {
-                  ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-                  rangeStart = d;
-                  prevDate = curr;
-                }
-              }
-            } else {
-              if (rangeStart && prevDate) {
-                ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-                rangeStart = null;
-                prevDate = null;
-              }
-            }
-          }
-
-          if (rangeStart && prevDate) {
-            ranges.push({ from: rangeStart, to: prevDate.toISOString().split('T')[0] });
-          }
+      const qs = new URLSearchParams({ from: formatDate(startOfMonth), to: formatDate(endOfMonth) });
+
+      const { safeFetch } = await import('@/lib/safeFetch');
+      const resp = await safeFetch(`/api/availability/${encodeURIComponent(productId)}?${qs.toString()}`, {
+        method: 'GET',
+        credentials: 'same-origin',
+        cache: 'no-store',
+        timeoutMs: 10000,
+      });
+      const json = resp ? await resp.json().catch(() => null) : null;
+      if (!resp || !resp.ok || !json?.success) {
+        throw new Error(json?.error || `Server responded ${resp && resp.status}`);
+      }
 
-          return ranges;
+      const mapped: Record<string, DayAvailability> = {};
+      for (const day of json.data.days as Array<{ date: string; available: boolean; available_quantity: number }>) {
+        mapped[day.date] = {
+          date: day.date,
+          available: day.available,
+          quantity_available: day.available_quantity,
         };
-
-        const ranges = deriveBookedRanges(mapped);
-        setBookedRanges(ranges);
-        setAvailability(mapped);
-      } catch (err) {
-        console.error('Availability (ICS) fetch failed:', err);
-        toast({ title: 'Availability error', description: 'Failed to load calendar availability.', variant: 'destructive' });
-        setAvailability({});
       }
+
+      setBookedRanges(json.data.unavailable_ranges || []);
+      setAvailability(mapped);
     } catch (error) {
       console.error('Error fetching availability:', error);
       setAvailability({});
+      setBookedRanges([]);
       toast({ title: 'Availability error', description: 'Failed to load calendar availability.', variant: 'destructive' });
     } finally {
       setLoading(false);
     }
   };
 
+  // Ask the availability service for the nearest windows that are free
+  const fetchSuggestions = async (startDate: string, endDate: string) => {
+    try {
+      const { safeFetch } = await import('@/lib/safeFetch');
+      const resp = await safeFetch('/api/availability/suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product_id: productId, start_date: startDate, end_date: endDate, quantity: 1 }),
+        credentials: 'same-origin',
+        cache: 'no-store',
+        timeoutMs: 10000,
+      });
+      const json = resp ? await resp.json().catch(() => null) : null;
+      setSuggestions(json?.success ? json.data.suggestions : []);
+    } catch (error) {
+      console.error('Error fetching date suggestions:', error);
+      setSuggestions([]);
+    }
+  };
+
+  const applySuggestion = (suggestion: DateSuggestion) => {
+    setSelectedStartDate(suggestion.start_date);
+    setSelectedEndDate(suggestion.end_date);
+    setIsSelectingEndDate(false);
+    setSuggestions([]);
+    setCurrentMonth(parseDate(suggestion.start_date));
+    onDateSelect(suggestion.start_date, suggestion.end_date, suggestion.rental_days, {
+      available: true,
+    });
+  };
+
   // Load availability when month changes
   useEffect(() => {
     fetchAvailability(currentMonth);
@@ -320,6 +201,7 @@ export default function AvailabilityCalendar({
 
     if (!selectedStartDate || isSelectingEndDate) {
       // Selecting start date
+      setSuggestions([]);
       setSelectedStartDate(date);
       setIsSelectingEndDate(true);
 
@@ -334,7 +216,7 @@ export default function AvailabilityCalendar({
       if (isRangeAvailable) {
         try {
           const safe = await import('@/lib/safeFetch');
-          const resp = await safe.safeFetch("/api/availability", {
+          const resp = await safe.safeFetch("/api/availability/validate", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -361,6 +243,7 @@ export default function AvailabilityCalendar({
             );
           } else {
             setSelectedEndDate(null);
+            fetchSuggestions(date, autoEndDateStr);
             toast({
               title: "Dates unavailable",
               description:
@@ -382,6 +265,7 @@ export default function AvailabilityCalendar({
         }
       } else {
         setSelectedEndDate(null);
+        fetchSuggestions(date, autoEndDateStr);
         toast({
           title: "Dates unavailable",
           description: `The ${MINIMUM_RENTAL_DAYS}-day period starting from this date is not fully available. Please select an end date manually.`,
@@ -417,6 +301,7 @@ export default function AvailabilityCalendar({
       const isRangeAvailable = checkRangeAvailability(selectedStartDate, date);
 
       if (!isRangeAvailable) {
+        fetchSuggestions(selectedStartDate, date);
         toast({
           title: "Period unavailable",
           description: "Some dates in the selected period are not available.",
@@ -428,7 +313,7 @@ export default function AvailabilityCalendar({
       // Verify live availability via server
       try {
         const safe = await import('@/lib/safeFetch');
-        const resp = await safe.safeFetch("/api/availability", {
+        const resp = await safe.safeFetch("/api/availability/validate", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -445,6 +330,7 @@ export default function AvailabilityCalendar({
         const available = result && result.success ? result.data.available : false;
 
         if (!available) {
+          fetchSuggestions(selectedStartDate, date);
           toast({
             title: "Period unavailable",
             description:
@@ -481,8 +367,8 @@ export default function AvailabilityCalendar({
 
     while (current <= end) {
       const dateStr = formatDate(current);
-      // Require explicit availability true for each date; unknown or false -> not available
-      if (!availability[dateStr] || !availability[dateStr].available) {
+      // Only the current month is loaded; days outside it are confirmed by the server validation
+      if (availability[dateStr] && !availability[dateStr].available) {
         return false;
       }
       current.setDate(current.getDate() + 1);
@@ -493,6 +379,7 @@ export default function AvailabilityCalendar({
 
   // Clear selection
   const clearSelection = () => {
+    setSuggestions([]);
     setSelectedStartDate(null);
     setSelectedEndDate(null);
     setIsSelectingEndDate(false);
@@ -673,13 +560,31 @@ export default function AvailabilityCalendar({
           </div>
         )}
 
-        {/* ICS Calendar Booked Ranges (derived from fetched availability) */}
-        <div className="p-3 bg-gray-50 rounded-lg text-sm">
-          <div className="font-medium mb-2">ICS Calendar Booked Periods</div>
-          <div className="text-xs text-muted-foreground mb-2">
-            Source:
-            https://dance-costumes-for-hire-90e5.booqable.com/integrations/calendar/e313abf2b30213a486a238d0986a64df/orders.ics
+        {/* Nearest available alternatives when the chosen dates are not free */}
+        {suggestions.length > 0 && (
+          <div className="p-3 bg-amber-50 rounded-lg text-sm space-y-2">
+            <div className="font-medium text-amber-800">Nearest available dates</div>
+            {suggestions.map((suggestion) => (
+              <Button
+                key={suggestion.start_date}
+                variant="outline"
+                size="sm"
+                className="w-full justify-between"
+                onClick={() => applySuggestion(suggestion)}
+              >
+                <span>
+                  {parseDate(suggestion.start_date).toLocaleDateString()} -{" "}
+                  {parseDate(suggestion.end_date).toLocaleDateString()}
+                </span>
+                <Badge variant="secondary">{suggestion.rental_days} days</Badge>
+              </Button>
+            ))}
           </div>
+        )}
+
+        {/* Booked ranges for this month (from the availability service) */}
+        <div className="p-3 bg-gray-50 rounded-lg text-sm">
+          <div className="font-medium mb-2">Booked Periods</div>
           {bookedRanges.length === 0 ? (
             <div className="text-sm text-green-600">
               No bookings for this month
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { AlertTriangle, CalendarCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AvailabilityConflict } from "@shared/api";
+import { PAYMENT_POLICY } from "@shared/payment-policy";
+import { rentalDaysBetween } from "@shared/rental-pricing";
+
+interface AvailabilityConflictEditorProps {
+  conflict: AvailabilityConflict;
+  onChangeDates: (startDate: string, endDate: string, rentalDays: number) => void;
+}
+
+const formatShortDate = (date: string) =>
+  new Date(date + "T00:00:00").toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+
+// Shown against a checkout line that was booked by someone else: explains the clash and lets
+// the customer pick one of the suggested windows or enter new dates in place.
+export default function AvailabilityConflictEditor({ conflict, onChangeDates }: AvailabilityConflictEditorProps) {
+  const [startDate, setStartDate] = useState(conflict.start_date);
+  const [endDate, setEndDate] = useState(conflict.end_date);
+
+  const rentalDays = startDate && endDate ? rentalDaysBetween(startDate, endDate) : 0;
+  const unchanged = startDate === conflict.start_date && endDate === conflict.end_date;
+  const tooShort = rentalDays < PAYMENT_POLICY.minimumRentalDays;
+
+  const clash = conflict.available_quantity > 0
+    ? `Only ${conflict.available_quantity} available on ${conflict.conflicting_dates.length === 1 ? "one of your dates" : "some of your dates"}`
+    : `Booked on ${conflict.conflicting_dates.length} of your dates`;
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs">
+      <div className="flex items-start space-x-1 text-red-700">
+        <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+        <span>
+          {clash} (from {formatShortDate(conflict.conflicting_dates[0])}). Choose other dates to continue.
+        </span>
+      </div>
+
+      {conflict.suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {conflict.suggestions.map((suggestion) => (
+            <Button
+              key={suggestion.start_date}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onChangeDates(suggestion.start_date, suggestion.end_date, suggestion.rental_days)}
+            >
+              <CalendarCheck className="h-3 w-3 mr-1" />
+              {formatShortDate(suggestion.start_date)} – {formatShortDate(suggestion.end_date)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor={`conflict-start-${conflict.line_index}`} className="text-xs">Start</Label>
+          <Input
+            id={`conflict-start-${conflict.line_index}`}
+            type="date"
+            className="h-8 text-xs"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`conflict-end-${conflict.line_index}`} className="text-xs">End</Label>
+          <Input
+            id={`conflict-end-${conflict.line_index}`}
+            type="date"
+            className="h-8 text-xs"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+      {tooShort && !unchanged && (
+        <p className="text-red-700">Minimum rental period is {PAYMENT_POLICY.minimumRentalDays} days</p>
+      )}
+      <Button
+        type="button"
+        size="sm"
+        className="h-7 w-full text-xs"
+        disabled={unchanged || tooShort}
+        onClick={() => onChangeDates(startDate, endDate, rentalDays)}
+      >
+        Update dates
+      </Button>
+    </div>
+  );
+}
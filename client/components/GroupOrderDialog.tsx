@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSizeAvailability } from "@/hooks/use-size-availability";
+import { useCart } from "@/contexts/CartContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { fetchRentalQuote } from "@/lib/rental-quotes";
+import type { PricedLine } from "@shared/api";
+import {
+  applyVolumeDiscount,
+  getNextVolumeDiscountTier,
+  getSizeBreakdownTotal,
+  getSizeLines,
+  getVolumeDiscountTier,
+  SizeBreakdown,
+  VOLUME_DISCOUNT_TIERS,
+} from "@shared/group-orders";
+import { rentalDaysBetween } from "@shared/rental-pricing";
+
+interface GroupOrderDialogProps {
+  product: {
+    id: string;
+    name: string;
+    price_per_day: number;
+    images: string[];
+    category: string;
+    sizes: string[];
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  startDate: string;
+  endDate: string;
+  onDatesChange: (startDate: string, endDate: string) => void;
+}
+
+// Group orders (schools, dance troupes): a size breakdown for one costume and one set of dates,
+// checked against each size's free stock. Each size becomes its own cart line; the volume
+// discount shown here is the one checkout applies to the costume's total units.
+export default function GroupOrderDialog({ product, open, onOpenChange, startDate, endDate, onDatesChange }: GroupOrderDialogProps) {
+  const { toast } = useToast();
+  const { addItem } = useCart();
+  const { formatPrice } = useCurrency();
+  const [breakdown, setBreakdown] = useState<SizeBreakdown>({});
+  const [quote, setQuote] = useState<PricedLine | null>(null);
+  const { availability, loading } = useSizeAvailability(product.id, startDate, endDate, open);
+
+  const datesValid = !!startDate && !!endDate && endDate >= startDate;
+  const totalUnits = getSizeBreakdownTotal(breakdown);
+  const tier = getVolumeDiscountTier(totalUnits);
+  const nextTier = getNextVolumeDiscountTier(totalUnits);
+  const availableFor = (size: string) => availability?.sizes.find((stock) => stock.size === size)?.available_quantity ?? 0;
+  const overStock = availability
+    ? getSizeLines(breakdown).some((line) => line.quantity > availableFor(line.size)) || totalUnits > availability.available_quantity
+    : false;
+
+  // The price of one costume for these dates; the group discount comes off it per unit
+  useEffect(() => {
+    if (!open || !datesValid) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRentalQuote({ product_id: product.id, start_date: startDate, end_date: endDate }).then((result) => {
+      if (!cancelled) setQuote(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, datesValid, product.id, startDate, endDate]);
+
+  const unitPrice = quote ? applyVolumeDiscount(quote.unit_price, tier?.percent ?? 0) : null;
+
+  const setSizeQuantity = (size: string, value: string) => {
+    const quantity = Math.max(0, parseInt(value) || 0);
+    setBreakdown((current) => ({ ...current, [size]: quantity }));
+  };
+
+  const addToCart = () => {
+    const lines = getSizeLines(breakdown);
+    for (const line of lines) {
+      addItem({
+        product_id: product.id,
+        size: line.size,
+        name: product.name,
+        price_per_day: product.price_per_day,
+        image: product.images[0],
+        category: product.category,
+        quantity: line.quantity,
+        start_date: startDate,
+        end_date: endDate,
+        rental_days: rentalDaysBetween(startDate, endDate),
+        ...(quote && { rental_price: quote.unit_price }),
+      });
+    }
+
+    toast({
+      title: "Group order added to cart",
+      description: `${totalUnits} × ${product.name} (${lines.map((line) => `${line.quantity}×${line.size}`).join(", ")}) for ${startDate} to ${endDate}.`,
+    });
+    setBreakdown({});
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Group order
+          </DialogTitle>
+          <DialogDescription>
+            Choose how many of each size you need. Orders of {VOLUME_DISCOUNT_TIERS[0].min_quantity} or more
+            get a group discount.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="group-from">From</Label>
+            <Input id="group-from" type="date" value={startDate} onChange={(e) => onDatesChange(e.target.value, endDate)} />
+          </div>
+          <div>
+            <Label htmlFor="group-to">To</Label>
+            <Input id="group-to" type="date" value={endDate} onChange={(e) => onDatesChange(startDate, e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span>Sizes</span>
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+          {product.sizes.map((size) => {
+            const quantity = breakdown[size] || 0;
+            const available = availableFor(size);
+            return (
+              <div key={size} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`group-size-${size}`} className="w-16">{size}</Label>
+                <span className={`flex-1 text-xs ${availability && quantity > available ? "text-red-600" : "text-muted-foreground"}`}>
+                  {availability ? `${available} available` : datesValid ? "Checking stock..." : "Choose dates"}
+                </span>
+                <Input
+                  id={`group-size-${size}`}
+                  type="number"
+                  min="0"
+                  max={availability ? available : undefined}
+                  value={quantity}
+                  onChange={(e) => setSizeQuantity(size, e.target.value)}
+                  className="w-20 text-center"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span>Costumes</span>
+            <span>{totalUnits}</span>
+          </div>
+          {tier ? (
+            <div className="flex justify-between text-green-700">
+              <span>Group discount</span>
+              <span>{tier.percent}% off</span>
+            </div>
+          ) : null}
+          {nextTier && (
+            <div className="text-xs text-muted-foreground">
+              Add {nextTier.min_quantity - totalUnits} more for {nextTier.percent}% off.
+            </div>
+          )}
+          {unitPrice !== null && totalUnits > 0 && (
+            <div className="flex justify-between font-semibold">
+              <span>{totalUnits} × {formatPrice(unitPrice)}</span>
+              <span>{formatPrice(unitPrice * totalUnits)}</span>
+            </div>
+          )}
+          {availability && totalUnits > availability.available_quantity && (
+            <div className="text-xs text-red-600">
+              Only {availability.available_quantity} available in total for these dates.
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={addToCart} disabled={!datesValid || !availability || totalUnits === 0 || overStock}>
+            Add {totalUnits > 0 ? totalUnits : ""} to Cart
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,8 +6,11 @@ import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { CURRENCIES, CurrencyCode, SUPPORTED_CURRENCIES } from '@shared/currency';
 import { firebaseAvailable } from '../lib/firebase';
 import { NotificationDropdown } from './NotificationDropdown';
 
@@ -19,6 +22,7 @@ export function Layout({ children }: LayoutProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { state: cartState } = useCart();
   const { currentUser, userProfile, logout } = useAuth();
+  const { currency, setCurrency } = useCurrency();
   const location = useLocation();
 
   const isActive = (path: string) => location.pathname === path;
@@ -65,6 +69,20 @@ export function Layout({ children }: LayoutProps) {
 
             {/* Right Side Icons */}
             <div className="flex items-center space-x-4">
+              {/* Currency prices are shown and charged in */}
+              <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+                <SelectTrigger className="h-8 w-[84px] text-xs" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(code => (
+                    <SelectItem key={code} value={code}>
+                      {CURRENCIES[code].symbol} {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
               {/* Notifications */}
               <NotificationDropdown />
 
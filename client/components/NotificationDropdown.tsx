@@ -7,6 +7,7 @@ import {
   Heart,
   AlertCircle,
   Trash2,
+  RotateCcw,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
@@ -24,7 +25,7 @@ import { db, firebaseAvailable } from "@/lib/firebase";
 
 interface NotificationDoc {
   id: string;
-  type: "order" | "wishlist" | "system";
+  type: "order" | "wishlist" | "refund" | "system";
   title: string;
   message: string;
   orderId?: string;
@@ -38,6 +39,8 @@ const getNotificationIcon = (type: NotificationDoc["type"]) => {
       return <Package className="h-4 w-4 text-luxury-purple-600" />;
     case "wishlist":
       return <Heart className="h-4 w-4 text-luxury-emerald-600" />;
+    case "refund":
+      return <RotateCcw className="h-4 w-4 text-luxury-gold-600" />;
     case "system":
     default:
       return <AlertCircle className="h-4 w-4 text-blue-600" />;
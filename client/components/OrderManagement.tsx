@@ -12,6 +12,8 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Separator } from './ui/separator';
 import { toast } from './ui/use-toast';
 import { useAuth } from '../contexts/AuthContext';
+import { calculateRefundAmount, describeOrderPolicy, getOrderPermissions, getRefundRate } from '@shared/payment-policy';
+import { CurrencyCode, formatConverted } from '@shared/currency';
 
 interface OrderItem {
   id: string;
@@ -30,6 +32,8 @@ interface Order {
   start_date: string;
   end_date: string;
   total_amount: number;
+  currency: CurrencyCode;
+  exchange_rate: number;
   items: OrderItem[];
   delivery_address?: {
     line1: string;
@@ -61,21 +65,14 @@ export function OrderManagement({ order, onOrderUpdate }: OrderManagementProps)
   const [modifiedItems, setModifiedItems] = useState(order.items);
   const [specialInstructions, setSpecialInstructions] = useState(order.special_instructions || '');
 
-  // Business rules
-  const orderDate = order.created_at ? new Date(order.created_at) : new Date();
-  const rentalStart = order.start_date ? new Date(order.start_date) : new Date();
-  const now = new Date();
-  const daysUntilRental = order.start_date ? Math.ceil((rentalStart.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)) : 0;
-  const canModify = daysUntilRental > 28; // 4 week rule
-  const canCancel = daysUntilRental > 28 && order.status !== 'cancelled';
-  const canReschedule = daysUntilRental > 14 && order.status === 'confirmed';
+  // Business rules (shared with the server via the payment policy)
+  const { canModify, canCancel, canReschedule, daysUntilRental } = getOrderPermissions(
+    order.start_date || new Date().toISOString(),
+    order.status
+  );
 
-  const calculateRefund = () => {
-    if (daysUntilRental > 28) return order.total_amount;
-    if (daysUntilRental > 14) return order.total_amount * 0.8; // 20% fee
-    if (daysUntilRental > 7) return order.total_amount * 0.5; // 50% fee
-    return 0; // No refund within 7 days
-  };
+  const calculateRefund = () => calculateRefundAmount(order.total_amount, daysUntilRental);
+  const money = (amount: number) => formatConverted(amount, order.currency, order.exchange_rate);
 
   const handleModifyOrder = async () => {
     if (!currentUser) return;
@@ -130,24 +127,28 @@ export function OrderManagement({ order, onOrderUpdate }: OrderManagementProps)
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          reason: cancelReason,
-          refund_amount: calculateRefund()
+          reason: cancelReason
         })
       });
 
-      if (!response.ok) throw new Error('Failed to cancel order');
-      
-      const cancelledOrder = await response.json();
+      const cancelledOrder = await response.json().catch(() => null);
+      if (!response.ok || !cancelledOrder?.success) {
+        throw new Error(cancelledOrder?.error || 'Failed to cancel order');
+      }
+
       onOrderUpdate(cancelledOrder.data);
       setIsCancelling(false);
+      const refunded = Number(cancelledOrder.data.refund_amount) || 0;
       toast({
         title: "Order Cancelled",
-        description: `Your order has been cancelled. Refund of £${calculateRefund().toFixed(2)} will be processed within 3-5 business days.`
+        description: refunded > 0
+          ? `Your order has been cancelled. A refund of ${money(refunded)} has been issued to your original payment method.`
+          : "Your order has been cancelled."
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to cancel order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to cancel order. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -217,15 +218,7 @@ export function OrderManagement({ order, onOrderUpdate }: OrderManagementProps)
         <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            {daysUntilRental > 28 ? (
-              "You can modify, reschedule, or cancel this order with full refund."
-            ) : daysUntilRental > 14 ? (
-              "You can reschedule this order. Cancellation incurs a 20% fee."
-            ) : daysUntilRental > 7 ? (
-              "Cancellation available with 50% refund. No modifications allowed."
-            ) : (
-              "No modifications or cancellations allowed within 7 days of rental."
-            )}
+            {describeOrderPolicy(daysUntilRental)}
           </AlertDescription>
         </Alert>
 
@@ -284,7 +277,7 @@ export function OrderManagement({ order, onOrderUpdate }: OrderManagementProps)
                             )}
                             <div>
                               <p className="font-medium">{item.product_name}</p>
-                              <p className="text-sm text-muted-foreground">£{item.price}/day</p>
+                              <p className="text-sm text-muted-foreground">{money(item.price)}/day</p>
                             </div>
                           </div>
                           <div className="flex items-center space-x-2">
@@ -414,7 +407,7 @@ export function OrderManagement({ order, onOrderUpdate }: OrderManagementProps)
                   <Alert>
                     <DollarSign className="h-4 w-4" />
                     <AlertDescription>
-                      Refund amount: £{calculateRefund().toFixed(2)} ({Math.round((calculateRefund() / order.total_amount) * 100)}% of original payment)
+                      Refund: up to {money(calculateRefund())} ({Math.round(getRefundRate(daysUntilRental) * 100)}% of the order total, never more than you have paid)
                     </AlertDescription>
                   </Alert>
                   
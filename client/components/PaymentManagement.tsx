@@ -9,6 +9,9 @@ import { Progress } from './ui/progress';
 import { Separator } from './ui/separator';
 import { toast } from './ui/use-toast';
 import { useAuth } from '../contexts/AuthContext';
+import { PAYMENT_POLICY } from '@shared/payment-policy';
+import type { SavedPaymentMethod } from '@shared/api';
+import { CurrencyCode, formatConverted } from '@shared/currency';
 
 interface PaymentSchedule {
   deposit_amount: number;
@@ -41,6 +44,52 @@ interface OutstandingBalance {
   days_overdue?: number;
 }
 
+interface LedgerEntry {
+  payment_intent_id: string;
+  type: 'deposit' | 'final';
+  amount: number;
+  refunded: number;
+  status: string;
+  paid_at: string | null;
+}
+
+interface PaymentLedger {
+  // Amounts are GBP; the customer pays in charge_currency at the order's exchange_rate
+  charge_currency: CurrencyCode;
+  exchange_rate: number;
+  total_amount: number;
+  amount_paid: number;
+  amount_refunded: number;
+  net_paid: number;
+  outstanding: number;
+  final_due_date: string;
+  overdue: boolean;
+  days_overdue: number;
+  entries: LedgerEntry[];
+}
+
+interface SecurityDeposit {
+  amount: number;
+  status: 'scheduled' | 'authorised' | 'action_required' | 'released' | 'captured' | 'partially_captured';
+  authorised_at: string | null;
+  captured_amount: number;
+  damage_notes: string | null;
+  inspected_at: string | null;
+}
+
+const SECURITY_DEPOSIT_LABELS: Record<SecurityDeposit['status'], string> = {
+  scheduled: `Held ${PAYMENT_POLICY.securityDepositHoldDaysBeforeRental} days before rental`,
+  authorised: 'Held on your card',
+  action_required: 'Needs your approval',
+  released: 'Released',
+  captured: 'Charged for damage',
+  partially_captured: 'Partly charged for damage',
+};
+
+// After returning from Stripe the webhook may take a moment to record the payment
+const LEDGER_POLL_INTERVAL_MS = 5000;
+const LEDGER_POLL_ATTEMPTS = 12;
+
 interface PaymentManagementProps {
   orderId: string;
   orderTotal: number;
@@ -53,14 +102,61 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
   const [paymentSchedule, setPaymentSchedule] = useState<PaymentSchedule | null>(null);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [outstandingBalance, setOutstandingBalance] = useState<OutstandingBalance | null>(null);
+  const [ledger, setLedger] = useState<PaymentLedger | null>(null);
+  const [securityDeposit, setSecurityDeposit] = useState<SecurityDeposit | null>(null);
   const [loading, setLoading] = useState(true);
   const [paymentLoading, setPaymentLoading] = useState(false);
+  // Card the balance can be charged to without leaving the page
+  const [savedCard, setSavedCard] = useState<SavedPaymentMethod | null>(null);
+  // Order amounts in the currency the order is paid in
+  const money = (amount: number) => formatConverted(amount, ledger?.charge_currency ?? 'GBP', ledger?.exchange_rate ?? 1);
 
   useEffect(() => {
     fetchPaymentDetails();
   }, [orderId]);
 
-  const fetchPaymentDetails = async () => {
+  useEffect(() => {
+    const loadSavedCard = async () => {
+      if (!currentUser) return;
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/user/payment-methods', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data = await response.json();
+        if (response.ok && data.success) {
+          const cards: SavedPaymentMethod[] = data.data;
+          setSavedCard(cards.find(card => card.is_default) ?? cards[0] ?? null);
+        }
+      } catch (e) {
+        console.error('Failed to load saved cards', e);
+      }
+    };
+    loadSavedCard();
+  }, [currentUser]);
+
+  // Keep the ledger live: refresh when the tab regains focus, and poll briefly after a Stripe payment
+  useEffect(() => {
+    const onFocus = () => fetchPaymentDetails({ silent: true });
+    window.addEventListener('focus', onFocus);
+
+    const params = new URLSearchParams(window.location.search);
+    let attempts = 0;
+    const poll = params.get('payment') === 'success' && params.get('order') === orderId
+      ? window.setInterval(() => {
+          attempts++;
+          fetchPaymentDetails({ silent: true });
+          if (attempts >= LEDGER_POLL_ATTEMPTS) window.clearInterval(poll);
+        }, LEDGER_POLL_INTERVAL_MS)
+      : undefined;
+
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      if (poll) window.clearInterval(poll);
+    };
+  }, [orderId, currentUser]);
+
+  const fetchPaymentDetails = async ({ silent = false }: { silent?: boolean } = {}) => {
     if (!currentUser) return;
 
     if (!orderId) {
@@ -74,7 +170,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
     }
 
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const token = await currentUser.getIdToken();
 
       const url = `${window.location.origin}/api/orders/${orderId}/payments`;
@@ -150,11 +246,14 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
         setPaymentSchedule(data.data?.schedule || null);
         setInvoices(data.data?.invoices || []);
         setOutstandingBalance(data.data?.outstanding_balance || null);
+        setLedger(data.data?.ledger || null);
+        setSecurityDeposit(data.data?.security_deposit || null);
       } else {
         throw new Error(data.error || 'API returned unsuccessful response');
       }
     } catch (error) {
       console.error('Error fetching payment details:', error);
+      if (silent) return;
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to load payment details",
@@ -165,7 +264,9 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
     }
   };
 
-  const processPayment = async (type: 'deposit' | 'final', amount: number) => {
+  // The server charges exactly what is outstanding for the payment type.
+  // With a saved card it charges the card directly, or sends back Checkout when 3D Secure is needed.
+  const processPayment = async (type: 'deposit' | 'final', card?: SavedPaymentMethod) => {
     if (!currentUser) return;
 
     try {
@@ -190,7 +291,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
           credentials: 'same-origin',
           body: JSON.stringify({
             payment_type: type,
-            amount: amount
+            ...(card && { use_saved_card: true, payment_method_id: card.id })
           })
         } as any);
       } catch (networkErr) {
@@ -204,14 +305,21 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
         let raw = '';
         try { raw = await response.text(); } catch (e) { /* ignore */ }
         console.error('Payment creation failed:', response.status, raw);
-        const serverMsg = raw || response.statusText || 'Failed to create payment';
+        let serverMsg = raw || response.statusText || 'Failed to create payment';
+        try { serverMsg = JSON.parse(raw).error || serverMsg; } catch (e) { /* not JSON */ }
         toast({ title: 'Payment Error', description: serverMsg, variant: 'destructive' });
         return;
       }
 
       const data = await response.json();
 
-      if (data.success && data.data.checkout_url) {
+      if (data.success && data.data.status === 'paid') {
+        toast({ title: 'Payment received', description: `${money(data.data.amount)} was charged to your saved card.` });
+        fetchPaymentDetails({ silent: true });
+      } else if (data.success && data.data.checkout_url) {
+        if (data.data.status === 'requires_action') {
+          toast({ title: 'Authentication required', description: 'Your bank needs you to confirm this payment.' });
+        }
         // Redirect to Stripe Checkout
         window.location.href = data.data.checkout_url;
       } else {
@@ -230,6 +338,35 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
     }
   };
 
+  // Authorise the security deposit hold in Stripe Checkout when it couldn't be placed automatically
+  const authoriseSecurityDeposit = async () => {
+    if (!currentUser) return;
+
+    try {
+      setPaymentLoading(true);
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/orders/${orderId}/security-deposit/authorise`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to start security deposit authorisation');
+      }
+      window.location.href = data.data.checkout_url;
+    } catch (error) {
+      console.error('Error authorising security deposit:', error);
+      toast({
+        title: "Security Deposit",
+        description: error instanceof Error ? error.message : 'Failed to start security deposit authorisation',
+        variant: "destructive"
+      });
+    } finally {
+      setPaymentLoading(false);
+    }
+  };
+
   const downloadInvoice = async (invoiceId: string) => {
     if (!currentUser) return;
 
@@ -248,7 +385,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `invoice-${invoiceId}.pdf`;
+      a.download = `${invoiceId}.pdf`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -263,6 +400,9 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
   };
 
   const getPaymentProgress = () => {
+    if (ledger && ledger.total_amount > 0) {
+      return Math.min(100, (ledger.net_paid / ledger.total_amount) * 100);
+    }
     if (!paymentSchedule) return 0;
     
     let paidAmount = 0;
@@ -320,7 +460,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">Payment Progress</span>
               <span className="text-sm text-muted-foreground">
-                £{((paymentSchedule.total_amount * getPaymentProgress()) / 100).toFixed(2)} / £{paymentSchedule.total_amount.toFixed(2)}
+                {money(((paymentSchedule.total_amount * getPaymentProgress()) / 100))} / {money(paymentSchedule.total_amount)}
               </span>
             </div>
             <Progress value={getPaymentProgress()} className="h-2" />
@@ -334,7 +474,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
             <AlertDescription>
               <div className="flex items-center justify-between">
                 <div>
-                  Outstanding {outstandingBalance.type} payment: £{outstandingBalance.amount.toFixed(2)}
+                  Outstanding {outstandingBalance.type} payment: {money(outstandingBalance.amount)}
                   {outstandingBalance.days_overdue ? (
                     <span className="text-red-600 ml-2">({outstandingBalance.days_overdue} days overdue)</span>
                   ) : (
@@ -343,7 +483,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
                 </div>
                 <Button
                   size="sm"
-                  onClick={() => processPayment(outstandingBalance.type, outstandingBalance.amount)}
+                  onClick={() => processPayment(outstandingBalance.type)}
                   disabled={paymentLoading}
                   className="ml-4"
                 >
@@ -377,7 +517,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
               </div>
               <div className="flex items-center gap-3">
                 <div className="text-right">
-                  <div className="font-medium">£{paymentSchedule.deposit_amount.toFixed(2)}</div>
+                  <div className="font-medium">{money(paymentSchedule.deposit_amount)}</div>
                   <div className="text-sm text-muted-foreground">
                     {Math.round((paymentSchedule.deposit_amount / paymentSchedule.total_amount) * 100)}% of total
                   </div>
@@ -385,7 +525,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
                 {!paymentSchedule.deposit_paid && (
                   <Button
                     size="sm"
-                    onClick={() => processPayment('deposit', paymentSchedule.deposit_amount)}
+                    onClick={() => processPayment('deposit')}
                     disabled={paymentLoading}
                   >
                     Pay Deposit
@@ -418,15 +558,26 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
               </div>
               <div className="flex items-center gap-3">
                 <div className="text-right">
-                  <div className="font-medium">£{paymentSchedule.final_amount.toFixed(2)}</div>
+                  <div className="font-medium">{money(paymentSchedule.final_amount)}</div>
                   <div className="text-sm text-muted-foreground">
                     {Math.round((paymentSchedule.final_amount / paymentSchedule.total_amount) * 100)}% of total
                   </div>
                 </div>
+                {!paymentSchedule.final_paid && paymentSchedule.deposit_paid && savedCard && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => processPayment('final', savedCard)}
+                    disabled={paymentLoading}
+                  >
+                    <CreditCard className="h-4 w-4 mr-1" />
+                    Pay with •••• {savedCard.card.last4}
+                  </Button>
+                )}
                 {!paymentSchedule.final_paid && paymentSchedule.deposit_paid && (
                   <Button
                     size="sm"
-                    onClick={() => processPayment('final', paymentSchedule.final_amount)}
+                    onClick={() => processPayment('final')}
                     disabled={paymentLoading}
                   >
                     Pay Final
@@ -446,12 +597,106 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
           </div>
         )}
 
+        {/* Payment Ledger */}
+        {ledger && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Payment Ledger</h4>
+                {ledger.overdue && (
+                  <Badge variant="destructive">Balance overdue</Badge>
+                )}
+              </div>
+              {ledger.entries.length > 0 ? (
+                <div className="space-y-2">
+                  {ledger.entries.map((entry) => (
+                    <div key={entry.payment_intent_id} className="flex items-center justify-between text-sm">
+                      <div>
+                        <span className="font-medium">{entry.type === 'deposit' ? 'Deposit' : 'Balance'}</span>
+                        {entry.paid_at && (
+                          <span className="ml-2 text-muted-foreground">{new Date(entry.paid_at).toLocaleDateString()}</span>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <span>{money(entry.amount)}</span>
+                        {entry.refunded > 0 && (
+                          <span className="ml-2 text-muted-foreground">(−{money(entry.refunded)} refunded)</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+              )}
+              <div className="border-t pt-2 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Order total</span>
+                  <span>{money(ledger.total_amount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Paid</span>
+                  <span className="text-green-600">{money(ledger.net_paid)}</span>
+                </div>
+                {ledger.amount_refunded > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Refunded</span>
+                    <span>{money(ledger.amount_refunded)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium">
+                  <span>Outstanding</span>
+                  <span className={ledger.overdue ? 'text-red-600' : ''}>{money(ledger.outstanding)}</span>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Security Deposit */}
+        {securityDeposit && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <div className="font-medium">Refundable Security Deposit</div>
+                <div className="text-sm text-muted-foreground">
+                  {SECURITY_DEPOSIT_LABELS[securityDeposit.status]}
+                  {securityDeposit.captured_amount > 0 && ` (${money(securityDeposit.captured_amount)})`}
+                </div>
+                {securityDeposit.damage_notes && (
+                  <div className="text-sm text-muted-foreground mt-1">Inspection notes: {securityDeposit.damage_notes}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="font-medium">{money(securityDeposit.amount)}</div>
+                {securityDeposit.status === 'action_required' && (
+                  <Button size="sm" onClick={authoriseSecurityDeposit} disabled={paymentLoading}>
+                    Authorise Hold
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
         {/* Invoices & Receipts */}
         {invoices.length > 0 && (
           <>
             <Separator />
             <div className="space-y-4">
-              <h4 className="font-medium">Invoices & Receipts</h4>
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Invoices & Receipts</h4>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadInvoice(`receipt_${orderId}`)}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Receipt
+                </Button>
+              </div>
               <div className="space-y-2">
                 {invoices.map((invoice) => (
                   <div key={invoice.id} className="flex items-center justify-between p-3 border rounded-lg">
@@ -469,7 +714,7 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
                     </div>
                     <div className="flex items-center gap-3">
                       <div className="text-right">
-                        <div className="font-medium">£{invoice.amount.toFixed(2)}</div>
+                        <div className="font-medium">{money(invoice.amount)}</div>
                         {getPaymentStatusBadge(invoice.status)}
                       </div>
                       <Button
@@ -491,8 +736,8 @@ export function PaymentManagement({ orderId, orderTotal, orderStatus, rentalStar
         <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
           <h5 className="font-medium mb-1">Payment Terms:</h5>
           <ul className="space-y-1">
-            <li>• Deposit (30%) required within 24 hours of booking confirmation</li>
-            <li>• Final payment (70%) due 7 days before rental start date</li>
+            <li>• Deposit ({Math.round(PAYMENT_POLICY.depositRate * 100)}%) required within {PAYMENT_POLICY.depositDueHours} hours of booking confirmation</li>
+            <li>• Final payment ({100 - Math.round(PAYMENT_POLICY.depositRate * 100)}%) due {PAYMENT_POLICY.balanceDueDaysBeforeRental} days before rental start date</li>
             <li>• Late payment fees may apply for overdue payments</li>
             <li>• All payments are processed securely through Stripe</li>
           </ul>
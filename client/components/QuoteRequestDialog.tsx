@@ -0,0 +1,212 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/contexts/CartContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import {
+  DEFAULT_DELIVERY_METHOD,
+  DEFAULT_RETURN_METHOD,
+  DELIVERY_COUNTRIES,
+  DELIVERY_METHODS,
+  DeliveryMethodId,
+  getDeliveryMethod,
+  getReturnMethod,
+  RETURN_METHODS,
+  ReturnMethodId,
+} from "@shared/delivery";
+import { QUOTE_POLICY } from "@shared/quotes";
+
+interface QuoteRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// "Request a quote" from the cart, for organisations that need a formal quote before raising a
+// purchase order. The quote is emailed as a PDF and accepted later from My Orders.
+export default function QuoteRequestDialog({ open, onOpenChange }: QuoteRequestDialogProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { state: cartState } = useCart();
+  const { currentUser } = useAuth();
+  const { currency } = useCurrency();
+  const [submitting, setSubmitting] = useState(false);
+  const [customer, setCustomer] = useState({
+    name: currentUser?.displayName || "",
+    email: currentUser?.email || "",
+    phone: "",
+  });
+  const [reference, setReference] = useState("");
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethodId>(DEFAULT_DELIVERY_METHOD);
+  const [returnMethod, setReturnMethod] = useState<ReturnMethodId>(DEFAULT_RETURN_METHOD);
+  const [address, setAddress] = useState({ line1: "", line2: "", city: "", postal_code: "", country: "GB" });
+  const [notes, setNotes] = useState("");
+
+  const needsAddress = !!(getDeliveryMethod(deliveryMethod)?.requiresAddress || getReturnMethod(returnMethod)?.requiresAddress);
+  const canSubmit = !!customer.name && !!customer.email
+    && (!needsAddress || (!!address.line1 && !!address.city && !!address.postal_code));
+
+  const submit = async () => {
+    if (!currentUser) return;
+    setSubmitting(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch("/api/quotes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          items: cartState.items.map((item) => ({
+            product_id: item.product_id,
+            ...(item.size && { size: item.size }),
+            quantity: item.quantity,
+            start_date: item.start_date,
+            end_date: item.end_date,
+          })),
+          customer,
+          reference,
+          currency,
+          delivery_method: deliveryMethod,
+          return_method: returnMethod,
+          ...(needsAddress && { delivery_address: address }),
+          special_instructions: notes,
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result?.error || "Failed to request a quote");
+      }
+
+      toast({
+        title: `Quote ${result.data.quote.quote_number} created`,
+        description: result.data.emailed
+          ? `We've emailed it to ${customer.email}. You can accept it from My Orders.`
+          : "You can download and accept it from My Orders.",
+      });
+      onOpenChange(false);
+      navigate(`/orders?order=${result.data.order_id}`);
+    } catch (error) {
+      toast({
+        title: "Quote not created",
+        description: error instanceof Error ? error.message : "Failed to request a quote",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileText className="h-5 w-5 mr-2" />
+            Request a quote
+          </DialogTitle>
+          <DialogDescription>
+            We'll email you a PDF quote for the items in your cart. Prices are held for {QUOTE_POLICY.validityDays} days;
+            nothing is reserved until you accept the quote and pay the deposit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="quote-name">Name *</Label>
+              <Input id="quote-name" value={customer.name} onChange={(e) => setCustomer((prev) => ({ ...prev, name: e.target.value }))} />
+            </div>
+            <div>
+              <Label htmlFor="quote-email">Email *</Label>
+              <Input id="quote-email" type="email" value={customer.email} onChange={(e) => setCustomer((prev) => ({ ...prev, email: e.target.value }))} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="quote-phone">Phone</Label>
+              <Input id="quote-phone" value={customer.phone} onChange={(e) => setCustomer((prev) => ({ ...prev, phone: e.target.value }))} />
+            </div>
+            <div>
+              <Label htmlFor="quote-reference">Your reference</Label>
+              <Input id="quote-reference" value={reference} maxLength={100} placeholder="e.g. PO number" onChange={(e) => setReference(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="quote-delivery">Delivery</Label>
+              <Select value={deliveryMethod} onValueChange={(value) => setDeliveryMethod(value as DeliveryMethodId)}>
+                <SelectTrigger id="quote-delivery">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIVERY_METHODS.map((method) => (
+                    <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="quote-return">Return</Label>
+              <Select value={returnMethod} onValueChange={(value) => setReturnMethod(value as ReturnMethodId)}>
+                <SelectTrigger id="quote-return">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETURN_METHODS.map((method) => (
+                    <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {needsAddress && (
+            <div className="space-y-3">
+              <Input placeholder="Address line 1 *" value={address.line1} onChange={(e) => setAddress((prev) => ({ ...prev, line1: e.target.value }))} />
+              <Input placeholder="Address line 2" value={address.line2} onChange={(e) => setAddress((prev) => ({ ...prev, line2: e.target.value }))} />
+              <div className="grid grid-cols-3 gap-3">
+                <Input placeholder="City *" value={address.city} onChange={(e) => setAddress((prev) => ({ ...prev, city: e.target.value }))} />
+                <Input placeholder="Postcode *" value={address.postal_code} onChange={(e) => setAddress((prev) => ({ ...prev, postal_code: e.target.value }))} />
+                <Select value={address.country} onValueChange={(country) => setAddress((prev) => ({ ...prev, country }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_COUNTRIES.map((country) => (
+                      <SelectItem key={country} value={country}>
+                        {new Intl.DisplayNames(["en-GB"], { type: "region" }).of(country)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="quote-notes">Notes</Label>
+            <Textarea id="quote-notes" rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={submit} disabled={!canSubmit || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send me a quote
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -125,9 +125,10 @@ export function StockAlerts({ productId, productName, productImage, className }:
         timeoutMs: 10000
       });
 
-      if (!response || !response.ok) throw new Error('Failed to create alert');
+      const data = response ? await response.json().catch(() => null) : null;
 
-      const data = await response.json().catch(() => null);
+      // e.g. 409 when the item is already available for these dates
+      if (!response || !response.ok) throw new Error(data?.error || 'Failed to create alert');
       
       if (data.success) {
         setAlerts(prev => [...prev, data.data.alert]);
@@ -147,7 +148,7 @@ export function StockAlerts({ productId, productName, productImage, className }:
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create stock alert",
+        description: error instanceof Error ? error.message : "Failed to create stock alert",
         variant: "destructive"
       });
     } finally {
@@ -20,6 +20,8 @@ import {
   reauthenticateWithCredential,
 } from "firebase/auth";
 import { auth, db, firebaseAvailable } from "../lib/firebase";
+import { mergeGuestCartIntoUserCart } from "../lib/cart-storage";
+import type { CurrencyCode } from "@shared/currency";
 // Firestore functions imported dynamically when needed to avoid unnecessary network activity on module load
 
 export interface UserProfile {
@@ -39,6 +41,8 @@ export interface UserProfile {
   preferences?: {
     notifications: boolean;
     newsletter: boolean;
+    /** Currency prices are shown and charged in */
+    currency?: CurrencyCode;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -534,6 +538,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (!mounted) return;
 
       try {
+        if (user) {
+          // Move anything added while signed out into the user's saved cart before it is loaded
+          try {
+            await mergeGuestCartIntoUserCart(user.uid);
+          } catch (error) {
+            console.warn("Failed to merge guest cart:", error);
+          }
+        }
+
         setCurrentUser(user);
 
         if (user) {
@@ -1,7 +1,22 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useReducer, useRef, ReactNode } from 'react';
+import type { CartItemValidation } from '@shared/api';
+import { useAuth } from './AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import {
+  loadGuestCart,
+  loadUserCart,
+  saveGuestCart,
+  saveUserCart,
+  validateCartItems,
+} from '@/lib/cart-storage';
+import { fetchRentalQuote } from '@/lib/rental-quotes';
+import { applyVolumeDiscount, getVolumeDiscountPercents } from '@shared/group-orders';
 
 export interface CartItem {
+  // Line identity: product + size + rental period (see cartLineId)
   id: string;
+  product_id: string;
+  size?: string;
   name: string;
   price_per_day: number;
   image: string;
@@ -9,106 +24,172 @@ export interface CartItem {
   start_date?: string;
   end_date?: string;
   rental_days?: number;
+  // Quoted price per unit for the whole rental (GBP), from the product's price structure
+  rental_price?: number;
   category: string;
+  // Set when a saved line no longer matches Booqable (price changed or dates taken)
+  notice?: string;
 }
 
+export type NewCartItem = Omit<CartItem, 'id' | 'quantity'> & { quantity?: number };
+
+// The same costume in another size, or for another show's dates, is a separate line
+export const cartLineId = (item: Pick<CartItem, 'product_id' | 'size' | 'start_date' | 'end_date'>) =>
+  [item.product_id, item.size || '', item.start_date || '', item.end_date || ''].join('|');
+
+// Carts saved before lines had their own identity used the product id as the line id
+const normaliseItem = (item: CartItem): CartItem => {
+  const productId = item.product_id || item.id;
+  return { ...item, product_id: productId, id: cartLineId({ ...item, product_id: productId }) };
+};
+
+// Lines are estimated from the price per day until the rental has been quoted
+export const cartLineTotal = (item: CartItem, volumeDiscountPercent = 0) =>
+  applyVolumeDiscount(item.rental_price ?? item.price_per_day * (item.rental_days || 1), volumeDiscountPercent) * item.quantity;
+
+// Group order discount checkout will apply to each line; lines without dates aren't grouped yet
+export const getCartVolumeDiscounts = (items: CartItem[]) =>
+  getVolumeDiscountPercents(items.map(item => ({
+    product_id: item.product_id,
+    start_date: item.start_date || '',
+    end_date: item.end_date || '',
+    quantity: item.quantity,
+  }))).map((percent, index) => (items[index].start_date && items[index].end_date ? percent : 0));
+
+// Lines that end up with the same identity (e.g. after a date change) are combined
+const combineLines = (items: CartItem[]) => {
+  const lines = new Map<string, CartItem>();
+  for (const item of items) {
+    const existing = lines.get(item.id);
+    lines.set(item.id, existing ? { ...existing, quantity: existing.quantity + item.quantity } : item);
+  }
+  return [...lines.values()];
+};
+
 interface CartState {
   items: CartItem[];
+  // After group order discounts
   total: number;
+  volumeDiscount: number;
   totalItems: number;
 }
 
 type CartAction =
-  | { type: 'ADD_ITEM'; payload: Omit<CartItem, 'quantity'> & { quantity?: number } }
+  | { type: 'ADD_ITEM'; payload: NewCartItem }
   | { type: 'REMOVE_ITEM'; payload: string }
   | { type: 'UPDATE_QUANTITY'; payload: { id: string; quantity: number } }
   | { type: 'UPDATE_DATES'; payload: { id: string; start_date: string; end_date: string; rental_days: number } }
-  | { type: 'CLEAR_CART' };
+  | { type: 'SET_RENTAL_PRICE'; payload: { id: string; rental_price: number; price_per_day: number } }
+  | { type: 'CLEAR_CART' }
+  | { type: 'LOAD_CART'; payload: CartItem[] }
+  | { type: 'APPLY_VALIDATION'; payload: CartItemValidation[] };
+
+const withTotals = (items: CartItem[]): CartState => {
+  const percents = getCartVolumeDiscounts(items);
+  const listPence = items.reduce((sum, item) => sum + Math.round(cartLineTotal(item) * 100), 0);
+  const totalPence = items.reduce((sum, item, index) => sum + Math.round(cartLineTotal(item, percents[index]) * 100), 0);
+  return {
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    total: totalPence / 100,
+    volumeDiscount: (listPence - totalPence) / 100
+  };
+};
 
 const cartReducer = (state: CartState, action: CartAction): CartState => {
   switch (action.type) {
     case 'ADD_ITEM': {
-      const existingItem = state.items.find(item => item.id === action.payload.id);
+      const lineId = cartLineId(action.payload);
+      const existingItem = state.items.find(item => item.id === lineId);
       
       if (existingItem) {
         // Update quantity if item already exists
         const updatedItems = state.items.map(item =>
-          item.id === action.payload.id
+          item.id === lineId
             ? { ...item, quantity: item.quantity + (action.payload.quantity || 1) }
             : item
         );
-        return {
-          ...state,
-          items: updatedItems,
-          totalItems: updatedItems.reduce((sum, item) => sum + item.quantity, 0),
-          total: updatedItems.reduce((sum, item) => sum + (item.price_per_day * item.quantity * (item.rental_days || 1)), 0)
-        };
+        return withTotals(updatedItems);
       } else {
         // Add new item
         const newItem: CartItem = {
           ...action.payload,
+          id: lineId,
           quantity: action.payload.quantity || 1
         };
         const updatedItems = [...state.items, newItem];
-        return {
-          ...state,
-          items: updatedItems,
-          totalItems: updatedItems.reduce((sum, item) => sum + item.quantity, 0),
-          total: updatedItems.reduce((sum, item) => sum + (item.price_per_day * item.quantity * (item.rental_days || 1)), 0)
-        };
+        return withTotals(updatedItems);
       }
     }
     
     case 'REMOVE_ITEM': {
       const updatedItems = state.items.filter(item => item.id !== action.payload);
-      return {
-        ...state,
-        items: updatedItems,
-        totalItems: updatedItems.reduce((sum, item) => sum + item.quantity, 0),
-        total: updatedItems.reduce((sum, item) => sum + (item.price_per_day * item.quantity * (item.rental_days || 1)), 0)
-      };
+      return withTotals(updatedItems);
     }
     
     case 'UPDATE_QUANTITY': {
       const updatedItems = state.items.map(item =>
         item.id === action.payload.id
-          ? { ...item, quantity: Math.max(0, action.payload.quantity) }
+          ? { ...item, quantity: Math.max(0, action.payload.quantity), notice: undefined }
           : item
       ).filter(item => item.quantity > 0);
       
-      return {
-        ...state,
-        items: updatedItems,
-        totalItems: updatedItems.reduce((sum, item) => sum + item.quantity, 0),
-        total: updatedItems.reduce((sum, item) => sum + (item.price_per_day * item.quantity * (item.rental_days || 1)), 0)
-      };
+      return withTotals(updatedItems);
     }
     
     case 'UPDATE_DATES': {
-      const updatedItems = state.items.map(item =>
+      // New dates make it a different line, which may merge with one already in the cart
+      const updatedItems = combineLines(state.items.map(item =>
         item.id === action.payload.id
-          ? { 
+          ? normaliseItem({
               ...item, 
               start_date: action.payload.start_date,
               end_date: action.payload.end_date,
-              rental_days: action.payload.rental_days
-            }
+              rental_days: action.payload.rental_days,
+              // Re-quoted for the new dates (see updateDates)
+              rental_price: undefined,
+              notice: undefined
+            })
           : item
-      );
+      ));
       
-      return {
-        ...state,
-        items: updatedItems,
-        total: updatedItems.reduce((sum, item) => sum + (item.price_per_day * item.quantity * (item.rental_days || 1)), 0)
-      };
+      return withTotals(updatedItems);
     }
     
+    case 'SET_RENTAL_PRICE': {
+      const { id, rental_price, price_per_day } = action.payload;
+      return withTotals(state.items.map(item =>
+        item.id === id ? { ...item, rental_price, price_per_day } : item
+      ));
+    }
+
     case 'CLEAR_CART':
       return {
         items: [],
         total: 0,
+        volumeDiscount: 0,
         totalItems: 0
       };
+
+    case 'LOAD_CART':
+      return withTotals(action.payload);
+
+    case 'APPLY_VALIDATION': {
+      const results = new Map(action.payload.map(result => [result.id, result]));
+      const updatedItems = state.items
+        .filter(item => results.get(item.id)?.status !== 'archived')
+        .map(item => {
+          const result = results.get(item.id);
+          if (!result) return item;
+          return {
+            ...item,
+            price_per_day: result.price_per_day ?? item.price_per_day,
+            rental_price: result.rental_price ?? item.rental_price,
+            notice: result.status === 'ok' ? undefined : result.message
+          };
+        });
+      return withTotals(updatedItems);
+    }
     
     default:
       return state;
@@ -118,12 +199,13 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
 const initialState: CartState = {
   items: [],
   total: 0,
+  volumeDiscount: 0,
   totalItems: 0
 };
 
 interface CartContextType {
   state: CartState;
-  addItem: (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => void;
+  addItem: (item: NewCartItem) => void;
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   updateDates: (id: string, start_date: string, end_date: string, rental_days: number) => void;
@@ -132,11 +214,87 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Firestore writes are batched while the cart is being edited
+const USER_CART_SAVE_DELAY_MS = 500;
+
 export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(cartReducer, initialState);
+  const { currentUser } = useAuth();
+  const owner = currentUser?.uid ?? null;
+  // Whose cart is in state; nothing is saved until the owner's cart has been loaded
+  const loadedFor = useRef<string | null | undefined>(undefined);
+
+  // Load the saved cart when the user signs in or out, then re-check it against Booqable
+  useEffect(() => {
+    let cancelled = false;
+    loadedFor.current = undefined;
+
+    const loadCart = async () => {
+      let items: CartItem[] = [];
+      try {
+        const saved = owner ? await loadUserCart(owner) : loadGuestCart();
+        items = combineLines(saved.map(normaliseItem));
+      } catch (error) {
+        console.warn('Failed to load saved cart:', error);
+      }
+      if (cancelled) return;
+
+      dispatch({ type: 'LOAD_CART', payload: items });
+      loadedFor.current = owner;
+      if (items.length === 0) return;
+
+      const results = await validateCartItems(items);
+      if (cancelled || !results) return;
+      dispatch({ type: 'APPLY_VALIDATION', payload: results });
+
+      const removed = results.filter(result => result.status === 'archived').length;
+      const changed = results.filter(result => result.status === 'price_changed' || result.status === 'unavailable').length;
+      if (removed || changed) {
+        toast({
+          title: 'Your cart has been updated',
+          description: [
+            removed && `${removed} item${removed === 1 ? ' is' : 's are'} no longer available and ${removed === 1 ? 'was' : 'were'} removed.`,
+            changed && `${changed} item${changed === 1 ? ' needs' : 's need'} your attention.`
+          ].filter(Boolean).join(' ')
+        });
+      }
+    };
+
+    loadCart();
+    return () => {
+      cancelled = true;
+    };
+  }, [owner]);
+
+  // Save every change to wherever the current cart lives
+  useEffect(() => {
+    if (loadedFor.current !== owner) return;
+
+    if (!owner) {
+      saveGuestCart(state.items);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      saveUserCart(owner, state.items).catch(error => console.warn('Failed to save cart:', error));
+    }, USER_CART_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [state.items, owner]);
+
+  // Price a line for its dates with the product's price structure
+  const quoteLine = async (line: Pick<CartItem, 'product_id' | 'size' | 'start_date' | 'end_date'>) => {
+    if (!line.start_date || !line.end_date) return;
+    const quote = await fetchRentalQuote({ product_id: line.product_id, start_date: line.start_date, end_date: line.end_date });
+    if (!quote) return;
+    dispatch({
+      type: 'SET_RENTAL_PRICE',
+      payload: { id: cartLineId(line), rental_price: quote.unit_price, price_per_day: quote.price_per_day }
+    });
+  };
 
-  const addItem = (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => {
+  const addItem = (item: NewCartItem) => {
     dispatch({ type: 'ADD_ITEM', payload: item });
+    if (item.rental_price === undefined) quoteLine(item);
   };
 
   const removeItem = (id: string) => {
@@ -148,7 +306,9 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const updateDates = (id: string, start_date: string, end_date: string, rental_days: number) => {
+    const item = state.items.find(line => line.id === id);
     dispatch({ type: 'UPDATE_DATES', payload: { id, start_date, end_date, rental_days } });
+    if (item) quoteLine({ ...item, start_date, end_date });
   };
 
   const clearCart = () => {
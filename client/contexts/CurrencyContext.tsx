@@ -0,0 +1,104 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import {
+  CurrencyCode,
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRates,
+  formatConverted,
+  formatMoney,
+  getExchangeRate,
+  normaliseCurrency,
+  resolveCurrency,
+} from '@shared/currency';
+
+// Chosen currency for visitors who aren't signed in
+const STORAGE_KEY = 'preferred_currency';
+
+interface CurrencyContextType {
+  currency: CurrencyCode;
+  /** Units of `currency` per 1 GBP */
+  exchangeRate: number;
+  setCurrency: (currency: CurrencyCode) => Promise<void>;
+  /** A catalogue price (GBP, from Booqable) in the customer's currency */
+  formatPrice: (amount: number) => string;
+  /** An amount that is already in the given currency */
+  formatMoney: (amount: number, currency?: CurrencyCode) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+const browserLocale = () => (typeof navigator !== 'undefined' ? navigator.languages?.[0] || navigator.language : '');
+
+const storedCurrency = () => {
+  try {
+    return normaliseCurrency(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  // Use AuthContext directly to avoid throwing if CurrencyProvider mounts outside AuthProvider
+  const authCtx = useContext(AuthContext);
+  const userProfile = authCtx?.userProfile ?? null;
+  const [rates, setRates] = useState<ExchangeRates>(DEFAULT_EXCHANGE_RATES);
+  const [chosen, setChosen] = useState<CurrencyCode | null>(storedCurrency);
+
+  // The signed-in customer's saved preference wins, then this browser's choice, then its locale
+  const currency = resolveCurrency({
+    preferred: userProfile?.preferences?.currency ?? chosen,
+    locale: browserLocale(),
+  });
+  const exchangeRate = getExchangeRate(rates, currency);
+
+  useEffect(() => {
+    const loadRates = async () => {
+      try {
+        const response = await fetch('/api/currency/rates');
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setRates(result.data);
+        }
+      } catch (error) {
+        console.warn('Could not load exchange rates, using defaults:', error);
+      }
+    };
+    loadRates();
+  }, []);
+
+  const setCurrency = async (next: CurrencyCode) => {
+    setChosen(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Private browsing: the choice lasts for this visit only
+    }
+    if (authCtx?.currentUser && userProfile) {
+      await authCtx.updateUserProfile({
+        preferences: { ...userProfile.preferences, currency: next },
+      });
+    }
+  };
+
+  const value: CurrencyContextType = {
+    currency,
+    exchangeRate,
+    setCurrency,
+    formatPrice: (amount: number) => formatConverted(amount, currency, exchangeRate),
+    formatMoney: (amount: number, code: CurrencyCode = currency) => formatMoney(amount, code),
+  };
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
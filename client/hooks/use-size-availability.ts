@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import type { SizeAvailability } from "@shared/api";
+
+// Free stock of a costume, overall and per size, for the chosen rental dates.
+// Null until loaded, or when the dates aren't a valid range.
+export function useSizeAvailability(productId: string | undefined, startDate: string, endDate: string, enabled = true) {
+  const [availability, setAvailability] = useState<SizeAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !productId || !startDate || !endDate || endDate < startDate) {
+      setAvailability(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const params = new URLSearchParams({ start_date: startDate, end_date: endDate });
+    fetch(`/api/availability/${encodeURIComponent(productId)}/sizes?${params}`)
+      .then(response => response.json().then(data => (response.ok && data.success ? data.data : null)))
+      .catch(error => {
+        console.warn('Failed to load size availability:', error);
+        return null;
+      })
+      .then(data => {
+        if (cancelled) return;
+        setAvailability(data);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, startDate, endDate, enabled]);
+
+  return { availability, loading };
+}
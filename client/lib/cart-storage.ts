@@ -0,0 +1,102 @@
+// Cart persistence: guests keep their cart in localStorage, signed-in users in Firestore at
+// users/{uid}/cart/default so it follows them between devices.
+
+import type { CartItemValidation } from '@shared/api';
+import type { CartItem } from '@/contexts/CartContext';
+import { db, firebaseAvailable } from './firebase';
+// Note: firebase/firestore is imported lazily where used to avoid network activity during module import
+
+const GUEST_CART_KEY = 'booqable_guest_cart';
+
+// Notices are recomputed on every load, so they aren't stored
+const toStored = (items: CartItem[]) => items.map(({ notice, ...item }) => item);
+
+const isCartItem = (value: any): value is CartItem =>
+  value && typeof value.id === 'string' && typeof value.price_per_day === 'number' && Number.isInteger(value.quantity) && value.quantity > 0;
+
+export function loadGuestCart(): CartItem[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isCartItem) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestCart(items: CartItem[]) {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(GUEST_CART_KEY);
+    } else {
+      localStorage.setItem(GUEST_CART_KEY, JSON.stringify(toStored(items)));
+    }
+  } catch (error) {
+    console.warn('Failed to save cart to localStorage:', error);
+  }
+}
+
+async function userCartRef(uid: string) {
+  const { doc } = await import('firebase/firestore');
+  return doc(db, 'users', uid, 'cart', 'default');
+}
+
+export async function loadUserCart(uid: string): Promise<CartItem[]> {
+  if (!firebaseAvailable) return [];
+  const { getDoc } = await import('firebase/firestore');
+  const snap = await getDoc(await userCartRef(uid));
+  const items = snap.exists() ? snap.data()?.items : [];
+  return Array.isArray(items) ? items.filter(isCartItem) : [];
+}
+
+export async function saveUserCart(uid: string, items: CartItem[]) {
+  if (!firebaseAvailable) return;
+  const { setDoc } = await import('firebase/firestore');
+  await setDoc(await userCartRef(uid), { items: toStored(items), updatedAt: new Date() });
+}
+
+// Lines in both carts keep the signed-in cart's quantity if larger, otherwise the guest's version wins
+export function mergeCartItems(userItems: CartItem[], guestItems: CartItem[]) {
+  const merged = new Map(userItems.map(item => [item.id, item]));
+  for (const item of guestItems) {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing ? { ...item, quantity: Math.max(existing.quantity, item.quantity) } : item);
+  }
+  return [...merged.values()];
+}
+
+// Called on sign-in: whatever was added while signed out moves into the user's saved cart
+export async function mergeGuestCartIntoUserCart(uid: string) {
+  const guestItems = loadGuestCart();
+  if (guestItems.length === 0 || !firebaseAvailable) return;
+
+  const userItems = await loadUserCart(uid);
+  await saveUserCart(uid, mergeCartItems(userItems, guestItems));
+  saveGuestCart([]);
+}
+
+// Check saved lines against current prices, stock and product status; null if the check failed
+export async function validateCartItems(items: CartItem[]): Promise<CartItemValidation[] | null> {
+  try {
+    const response = await fetch('/api/cart/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: items.map(item => ({
+          id: item.id,
+          product_id: item.product_id,
+          size: item.size,
+          price_per_day: item.price_per_day,
+          rental_price: item.rental_price,
+          quantity: item.quantity,
+          start_date: item.start_date,
+          end_date: item.end_date,
+        })),
+      }),
+    });
+    const data = await response.json();
+    return response.ok && data.success ? data.data : null;
+  } catch (error) {
+    console.warn('Failed to validate saved cart:', error);
+    return null;
+  }
+}
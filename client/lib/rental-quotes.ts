@@ -0,0 +1,24 @@
+// Rental prices from the server's pricing engine, so the product page and cart show what
+// checkout will charge (first-week rates, extra days and weekend rates included).
+
+import type { PricedLine } from '@shared/api';
+
+export interface RentalQuoteRequest {
+  product_id: string;
+  start_date: string;
+  end_date: string;
+  quantity?: number;
+}
+
+// The priced line (GBP) for a product and rental period, or null when it can't be priced
+export async function fetchRentalQuote({ product_id, start_date, end_date, quantity = 1 }: RentalQuoteRequest): Promise<PricedLine | null> {
+  try {
+    const params = new URLSearchParams({ start_date, end_date, quantity: String(quantity) });
+    const response = await fetch(`/api/products/${encodeURIComponent(product_id)}/quote?${params}`);
+    const data = await response.json();
+    return response.ok && data.success ? data.data : null;
+  } catch (error) {
+    console.warn('Failed to fetch rental quote:', error);
+    return null;
+  }
+}
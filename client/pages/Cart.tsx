@@ -1,17 +1,43 @@
-import React from 'react';
-import { Link } from 'react-router-dom';
-import { Minus, Plus, Trash2, ShoppingBag, ArrowLeft, Calendar, Package } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Minus, Plus, Trash2, ShoppingBag, ArrowLeft, Calendar, Package, AlertTriangle, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { useCart } from '@/contexts/CartContext';
+import { cartLineTotal, getCartVolumeDiscounts, useCart } from '@/contexts/CartContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import QuoteRequestDialog from '@/components/QuoteRequestDialog';
+import { amountUntilFreeDelivery, calculateDeliveryFee, POLICY_TERMS } from '@shared/payment-policy';
+import { getQuoteRentalPeriod } from '@shared/quotes';
 
 export default function Cart() {
   const { state: cartState, updateQuantity, removeItem, updateDates } = useCart();
   const { toast } = useToast();
+  const { currentUser } = useAuth();
+  const [quoteOpen, setQuoteOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Cart prices are Booqable's GBP prices, shown in the customer's currency
+  const { formatPrice } = useCurrency();
+  const deliveryFee = calculateDeliveryFee(cartState.total);
+
+  // Back from Stripe without paying: release the stock held for that checkout
+  const cancelToken = searchParams.get('checkout_cancelled');
+  useEffect(() => {
+    if (!cancelToken) return;
+    fetch('/api/checkout/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cancel_token: cancelToken }),
+    }).catch((error) => console.warn('Failed to release checkout hold:', error));
+    setSearchParams((params) => {
+      params.delete('checkout_cancelled');
+      return params;
+    }, { replace: true });
+  }, [cancelToken, setSearchParams]);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-GB', {
@@ -42,9 +68,12 @@ export default function Cart() {
     });
   };
 
-  const calculateItemTotal = (item: typeof cartState.items[0]) => {
-    return item.price_per_day * item.quantity * (item.rental_days || 1);
-  };
+  const volumeDiscounts = getCartVolumeDiscounts(cartState.items);
+  // A quote becomes one Booqable order, so every line needs the same dates
+  const quotable = !!getQuoteRentalPeriod(cartState.items.map(item => ({
+    start_date: item.start_date || '',
+    end_date: item.end_date || '',
+  })));
 
   if (cartState.items.length === 0) {
     return (
@@ -94,7 +123,7 @@ export default function Cart() {
           </div>
 
           <div className="space-y-4">
-            {cartState.items.map((item) => (
+            {cartState.items.map((item, index) => (
               <Card key={item.id}>
                 <CardContent className="p-6">
                   <div className="flex flex-col sm:flex-row gap-4">
@@ -115,15 +144,23 @@ export default function Cart() {
                       <div className="flex flex-col sm:flex-row sm:justify-between">
                         <div>
                           <Link 
-                            to={`/costume/${item.id}`}
+                            to={`/costume/${item.product_id}`}
                             className="text-lg font-semibold hover:text-luxury-purple-600 transition-colors"
                           >
                             {item.name}
                           </Link>
                           <div className="flex items-center space-x-2 mt-1">
                             <Badge variant="outline">{item.category}</Badge>
+                            {item.size && <Badge variant="secondary">Size {item.size}</Badge>}
+                            {volumeDiscounts[index] > 0 && (
+                              <Badge variant="outline" className="text-green-700 border-green-300">
+                                Group discount {volumeDiscounts[index]}%
+                              </Badge>
+                            )}
                             <span className="text-sm text-muted-foreground">
-                              £{item.price_per_day.toFixed(2)}/day
+                              {item.rental_price !== undefined
+                                ? `${formatPrice(item.rental_price)} each for these dates`
+                                : `${formatPrice(item.price_per_day)}/day`}
                             </span>
                           </div>
                         </div>
@@ -137,6 +174,14 @@ export default function Cart() {
                         </Button>
                       </div>
 
+                      {/* Changes since the cart was saved */}
+                      {item.notice && (
+                        <div className="flex items-center space-x-2 text-sm text-amber-700">
+                          <AlertTriangle className="h-4 w-4" />
+                          <span>{item.notice}</span>
+                        </div>
+                      )}
+
                       {/* Rental Dates */}
                       {item.start_date && item.end_date && (
                         <div className="flex items-center space-x-2 text-sm text-muted-foreground">
@@ -183,7 +228,7 @@ export default function Cart() {
 
                         {/* Item Total */}
                         <div className="text-lg font-semibold text-luxury-purple-600">
-                          £{calculateItemTotal(item).toFixed(2)}
+                          {formatPrice(cartLineTotal(item, volumeDiscounts[index]))}
                         </div>
                       </div>
                     </div>
@@ -214,19 +259,25 @@ export default function Cart() {
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span>Subtotal ({cartState.totalItems} items):</span>
-                  <span>£{cartState.total.toFixed(2)}</span>
+                  <span>{formatPrice(cartState.total)}</span>
                 </div>
+                {cartState.volumeDiscount > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Includes group discounts:</span>
+                    <span>-{formatPrice(cartState.volumeDiscount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Delivery:</span>
                   <span className="text-green-600">
-                    {cartState.total >= 100 ? 'Free' : '£10.00'}
+                    {deliveryFee === 0 ? 'Free' : formatPrice(deliveryFee)}
                   </span>
                 </div>
                 <Separator />
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total:</span>
                   <span className="text-luxury-purple-600">
-                    £{(cartState.total + (cartState.total >= 100 ? 0 : 10)).toFixed(2)}
+                    {formatPrice(cartState.total + deliveryFee)}
                   </span>
                 </div>
               </div>
@@ -237,9 +288,28 @@ export default function Cart() {
                 </Link>
               </Button>
 
-              {cartState.total < 100 && (
+              {currentUser ? (
+                <Button variant="outline" className="w-full" onClick={() => setQuoteOpen(true)} disabled={!quotable}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Request a Quote
+                </Button>
+              ) : (
+                <Button variant="outline" className="w-full" asChild>
+                  <Link to="/login">
+                    <FileText className="mr-2 h-4 w-4" />
+                    Sign in to Request a Quote
+                  </Link>
+                </Button>
+              )}
+              {currentUser && !quotable && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Quotes cover one rental period. Set every item to the same dates to request one.
+                </p>
+              )}
+
+              {amountUntilFreeDelivery(cartState.total) > 0 && (
                 <p className="text-sm text-muted-foreground text-center">
-                  Add £{(100 - cartState.total).toFixed(2)} more for free delivery
+                  Add {formatPrice(amountUntilFreeDelivery(cartState.total))} more for free delivery
                 </p>
               )}
             </CardContent>
@@ -258,7 +328,7 @@ export default function Cart() {
                 <Calendar className="h-4 w-4 mt-0.5 text-luxury-purple-600" />
                 <div>
                   <span className="font-medium">Minimum Rental:</span>
-                  <p className="text-muted-foreground">8 days minimum for all items</p>
+                  <p className="text-muted-foreground">{POLICY_TERMS.minimumRental}</p>
                 </div>
               </div>
               <div className="flex items-start space-x-2">
@@ -271,6 +341,8 @@ export default function Cart() {
             </CardContent>
           </Card>
 
+          {currentUser && <QuoteRequestDialog open={quoteOpen} onOpenChange={setQuoteOpen} />}
+
           {/* Security Badge */}
           <div className="text-center">
             <div className="inline-flex items-center space-x-2 text-sm text-muted-foreground">
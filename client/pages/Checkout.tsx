@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { ArrowLeft, ShoppingCart, Package, CreditCard, Truck, Calendar, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Package, CreditCard, Truck, Calendar, Check, AlertCircle, Loader2, Tag, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,9 +9,29 @@ import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import AvailabilityConflictEditor from '@/components/AvailabilityConflictEditor';
+import type { AvailabilityConflict, CheckoutPriceBreakdown } from '@shared/api';
+import { amountUntilFreeDelivery, PAYMENT_POLICY, POLICY_TERMS } from '@shared/payment-policy';
+import {
+  DEFAULT_DELIVERY_METHOD,
+  DEFAULT_RETURN_METHOD,
+  DELIVERY_COUNTRIES,
+  DELIVERY_METHODS,
+  DeliveryMethodId,
+  findDeliveryZone,
+  getDeliveryMethod,
+  getReturnMethod,
+  RETURN_METHODS,
+  ReturnMethodId,
+} from '@shared/delivery';
+import { describeTaxRate } from '@shared/tax';
+import { convertToBase } from '@shared/currency';
 
 interface DeliveryAddress {
   line1: string;
@@ -30,8 +50,9 @@ interface CustomerInfo {
 export default function Checkout() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { state: cartState, clearCart } = useCart();
+  const { state: cartState, clearCart, updateDates } = useCart();
   const { currentUser } = useAuth();
+  const { currency, formatMoney, formatPrice } = useCurrency();
 
   const [loading, setLoading] = useState(false);
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
@@ -48,9 +69,20 @@ export default function Checkout() {
     country: 'GB'
   });
   
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethodId>(DEFAULT_DELIVERY_METHOD);
+  const [returnMethod, setReturnMethod] = useState<ReturnMethodId>(DEFAULT_RETURN_METHOD);
   const [specialInstructions, setSpecialInstructions] = useState('');
   const [agreeToTerms, setAgreeToTerms] = useState(false);
   const [sameAsRegistration, setSameAsRegistration] = useState(false);
+  const [priceBreakdown, setPriceBreakdown] = useState<CheckoutPriceBreakdown | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(true);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  // Code sent with every quote; cleared again if the server says it can't be used
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  // Lines the server found already booked, keyed by cart line id
+  const [conflicts, setConflicts] = useState<Record<string, AvailabilityConflict>>({});
+  const hasConflicts = cartState.items.some(item => conflicts[item.id]);
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -59,12 +91,99 @@ export default function Checkout() {
     }
   }, [cartState.items.length, navigate]);
 
-  // Calculate totals
-  const subtotal = cartState.total;
-  const deliveryFee = subtotal >= 100 ? 0 : 10;
-  const total = subtotal + deliveryFee;
-  const deposit = Math.max(1, Math.round(total * 0.10 * 100) / 100);
-  const balanceDue = Math.max(0, Math.round((total - deposit) * 100) / 100);
+  // Courier delivery and return labels need the customer's address
+  const needsAddress = !!(getDeliveryMethod(deliveryMethod)?.requiresAddress || getReturnMethod(returnMethod)?.requiresAddress);
+  // Fees only change with the zone, so re-quote when it changes rather than on every keystroke
+  const deliveryZoneKey = needsAddress && deliveryAddress.postal_code.trim()
+    ? findDeliveryZone(deliveryAddress.country, deliveryAddress.postal_code)?.id ?? 'unsupported'
+    : '';
+
+  // Cart items in the shape expected by the checkout API
+  const checkoutItems = cartState.items.map(item => ({
+    product_id: item.product_id,
+    ...(item.size && { size: item.size }),
+    quantity: item.quantity,
+    start_date: item.start_date!,
+    end_date: item.end_date!,
+    rental_days: item.rental_days!
+  }));
+
+  // Fetch the authoritative price breakdown from the server whenever the cart changes
+  useEffect(() => {
+    if (cartState.items.length === 0) return;
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      setQuoteLoading(true);
+      setQuoteError(null);
+      try {
+        const response = await fetch('/api/checkout/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: checkoutItems,
+            currency,
+            ...(promoCode && { promo_code: promoCode, customer_email: customerInfo.email }),
+            delivery_method: deliveryMethod,
+            return_method: returnMethod,
+            ...(needsAddress && { delivery_address: deliveryAddress }),
+          }),
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+          throw new Error(result?.error || 'Failed to calculate prices');
+        }
+        if (cancelled) return;
+        setPriceBreakdown(result.data);
+        if (result.data.promo_error) {
+          setPromoCode(null);
+          toast({
+            title: "Promo code not applied",
+            description: result.data.promo_error,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('Quote error:', error);
+        if (!cancelled) {
+          setPriceBreakdown(null);
+          setQuoteError(error instanceof Error ? error.message : 'Failed to calculate prices');
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    };
+
+    fetchQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [cartState.items, promoCode, deliveryMethod, returnMethod, deliveryZoneKey, currency]);
+
+  // Totals come from the server breakdown, in the customer's currency; nothing is priced locally
+  const money = (amount: number) => formatMoney(amount, priceBreakdown?.currency ?? currency);
+  const subtotal = priceBreakdown?.subtotal ?? 0;
+  // Free delivery is judged on Booqable's GBP prices
+  const subtotalGbp = priceBreakdown ? convertToBase(subtotal, priceBreakdown.exchange_rate) : 0;
+  const discount = priceBreakdown?.discount ?? 0;
+  const deliveryFee = priceBreakdown?.delivery_fee ?? 0;
+  const returnFee = priceBreakdown?.return_fee ?? 0;
+  const deposit = priceBreakdown?.deposit ?? 0;
+  const depositPercent = Math.round(PAYMENT_POLICY.depositRate * 100);
+  const balanceDue = priceBreakdown?.balance_due ?? 0;
+  const securityDeposit = priceBreakdown?.security_deposit ?? 0;
+  const tax = priceBreakdown?.tax;
+
+  // New dates give the line a new id, so its conflict no longer applies
+  const changeConflictDates = (itemId: string, startDate: string, endDate: string, rentalDays: number) => {
+    setConflicts(({ [itemId]: _resolved, ...rest }) => rest);
+    updateDates(itemId, startDate, endDate, rentalDays);
+  };
+
+  const applyPromoCode = () => {
+    const code = promoInput.trim().toUpperCase();
+    if (code) setPromoCode(code);
+  };
 
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -96,10 +215,28 @@ export default function Checkout() {
       return;
     }
 
-    if (!deliveryAddress.line1 || !deliveryAddress.city || !deliveryAddress.postal_code) {
+    if (needsAddress && (!deliveryAddress.line1 || !deliveryAddress.city || !deliveryAddress.postal_code)) {
+      toast({
+        title: "Address required",
+        description: "Please fill in your address for delivery or the return label.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (priceBreakdown?.delivery_error) {
+      toast({
+        title: "Delivery unavailable",
+        description: priceBreakdown.delivery_error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!priceBreakdown) {
       toast({
-        title: "Delivery address required",
-        description: "Please fill in your delivery address.",
+        title: "Prices unavailable",
+        description: quoteError || "We could not confirm prices for your cart. Please try again.",
         variant: "destructive",
       });
       return;
@@ -108,26 +245,29 @@ export default function Checkout() {
     setLoading(true);
 
     try {
-      // Prepare cart items for checkout
-      const items = cartState.items.map(item => ({
-        product_id: item.id,
-        quantity: item.quantity,
-        start_date: item.start_date!,
-        end_date: item.end_date!,
-        rental_days: item.rental_days!,
-        price_per_day: item.price_per_day
-      }));
+      // Signed-in customers check out as themselves so their card is saved for the balance payment
+      const token = currentUser ? await currentUser.getIdToken() : null;
 
       // Create Stripe checkout session
       const response = await fetch('/api/checkout/create-session', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify({
-          items,
+          // Send back the totals the user was shown so the server can detect price changes
+          items: checkoutItems.map((item, index) => ({
+            ...item,
+            expected_line_total: priceBreakdown.lines[index]?.line_total
+          })),
+          expected_total: priceBreakdown.grand_total,
+          currency: priceBreakdown.currency,
+          ...(priceBreakdown.promo_code && { promo_code: priceBreakdown.promo_code }),
           customer: customerInfo,
-          delivery_address: deliveryAddress,
+          delivery_method: deliveryMethod,
+          return_method: returnMethod,
+          ...(needsAddress && { delivery_address: deliveryAddress }),
           special_instructions: specialInstructions
         }),
       });
@@ -140,6 +280,43 @@ export default function Checkout() {
         result = { success: false, error: raw };
       }
 
+      if (response.status === 409 && result?.data?.price_breakdown) {
+        // Server prices differ from what was shown; refresh the summary and ask the user to review
+        setPriceBreakdown(result.data.price_breakdown);
+        toast({
+          title: "Prices updated",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (response.status === 400 && result?.data?.price_breakdown?.promo_error) {
+        // The promo code can't be used (e.g. its limit was reached); show the undiscounted prices
+        setPromoCode(null);
+        setPriceBreakdown(result.data.price_breakdown);
+        toast({
+          title: "Promo code removed",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (response.status === 400 && Array.isArray(result?.data?.conflicts)) {
+        // Someone else booked these dates; highlight the lines so they can be moved
+        const conflictingLines: AvailabilityConflict[] = result.data.conflicts;
+        setConflicts(Object.fromEntries(conflictingLines
+          .filter(conflict => cartState.items[conflict.line_index])
+          .map(conflict => [cartState.items[conflict.line_index].id, conflict])));
+        toast({
+          title: "Dates no longer available",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(result?.error || 'Failed to create checkout session');
       }
@@ -150,9 +327,12 @@ export default function Checkout() {
         sessionStorage.setItem('order_details', JSON.stringify({
           items: cartState.items,
           customer: customerInfo,
-          delivery_address: deliveryAddress,
+          delivery_address: needsAddress ? deliveryAddress : null,
+          delivery_method: deliveryMethod,
+          return_method: returnMethod,
           special_instructions: specialInstructions,
           total: result.data.grand_total,
+          discount: result.data.discount ?? discount,
           deposit: result.data.deposit ?? deposit,
           balance_due: result.data.balance_due ?? balanceDue
         }));
@@ -249,12 +429,53 @@ export default function Checkout() {
             </CardContent>
           </Card>
 
-          {/* Delivery Address */}
+          {/* Delivery & Returns */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
                 <Truck className="h-5 w-5 mr-2" />
-                Delivery Address
+                Delivery & Returns
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <Label>How would you like to receive your order?</Label>
+                <RadioGroup value={deliveryMethod} onValueChange={(value) => setDeliveryMethod(value as DeliveryMethodId)}>
+                  {DELIVERY_METHODS.map(method => (
+                    <div key={method.id} className="flex items-start space-x-3">
+                      <RadioGroupItem value={method.id} id={`delivery-${method.id}`} className="mt-1" />
+                      <Label htmlFor={`delivery-${method.id}`} className="cursor-pointer font-normal">
+                        <span className="font-medium">{method.label}</span>
+                        <span className="block text-sm text-muted-foreground">{method.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+              <div className="space-y-3">
+                <Label>How will you return it?</Label>
+                <RadioGroup value={returnMethod} onValueChange={(value) => setReturnMethod(value as ReturnMethodId)}>
+                  {RETURN_METHODS.map(method => (
+                    <div key={method.id} className="flex items-start space-x-3">
+                      <RadioGroupItem value={method.id} id={`return-${method.id}`} className="mt-1" />
+                      <Label htmlFor={`return-${method.id}`} className="cursor-pointer font-normal">
+                        <span className="font-medium">{method.label}</span>
+                        <span className="block text-sm text-muted-foreground">{method.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Delivery Address */}
+          {needsAddress && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Package className="h-5 w-5 mr-2" />
+                {getDeliveryMethod(deliveryMethod)?.requiresAddress ? 'Delivery Address' : 'Return Label Address'}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -299,8 +520,27 @@ export default function Checkout() {
                   />
                 </div>
               </div>
+              <div>
+                <Label htmlFor="country">Country *</Label>
+                <Select
+                  value={deliveryAddress.country}
+                  onValueChange={(country) => setDeliveryAddress(prev => ({ ...prev, country }))}
+                >
+                  <SelectTrigger id="country">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_COUNTRIES.map(country => (
+                      <SelectItem key={country} value={country}>
+                        {new Intl.DisplayNames(['en-GB'], { type: 'region' }).of(country)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </CardContent>
           </Card>
+          )}
 
           {/* Special Instructions */}
           <Card>
@@ -358,8 +598,11 @@ export default function Checkout() {
             <CardContent className="space-y-4">
               {/* Cart Items */}
               <div className="space-y-3">
-                {cartState.items.map((item) => (
-                  <div key={item.id} className="flex space-x-3 p-3 border rounded-lg">
+                {cartState.items.map((item, index) => {
+                  const pricedLine = priceBreakdown?.lines[index];
+                  const conflict = conflicts[item.id];
+                  return (
+                  <div key={item.id} className={`flex space-x-3 p-3 border rounded-lg ${conflict ? 'border-red-300' : ''}`}>
                     <img
                       src={item.image}
                       alt={item.name}
@@ -372,6 +615,7 @@ export default function Checkout() {
                       <h3 className="font-medium text-sm line-clamp-2">{item.name}</h3>
                       <div className="flex items-center space-x-2 mt-1">
                         <Badge variant="outline" className="text-xs">{item.category}</Badge>
+                        {item.size && <Badge variant="secondary" className="text-xs">Size {item.size}</Badge>}
                         <span className="text-xs text-muted-foreground">Qty: {item.quantity}</span>
                       </div>
                       {item.start_date && item.end_date && (
@@ -383,42 +627,150 @@ export default function Checkout() {
                         </div>
                       )}
                       <div className="font-semibold text-sm mt-1">
-                        £{(item.price_per_day * item.quantity * (item.rental_days || 1)).toFixed(2)}
+                        {pricedLine ? (
+                          <>
+                            {money(pricedLine.line_total)}
+                            <span className="ml-1 text-xs font-normal text-muted-foreground">
+                              ({pricedLine.pricing_method !== 'per_day' && pricedLine.price_components?.length
+                                ? pricedLine.price_components.map(component => `${component.label} ${money(component.amount)}`).join(' + ') + (pricedLine.quantity > 1 ? ' each' : '')
+                                : `${pricedLine.rental_days} days × ${money(pricedLine.price_per_day)}/day`})
+                            </span>
+                            {pricedLine.volume_discount ? (
+                              <div className="text-xs font-normal text-green-600">
+                                Group discount {pricedLine.volume_discount_percent}% (-{money(pricedLine.volume_discount)})
+                              </div>
+                            ) : null}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
                       </div>
+                      {conflict && (
+                        <AvailabilityConflictEditor
+                          conflict={conflict}
+                          onChangeDates={(startDate, endDate, rentalDays) =>
+                            changeConflictDates(item.id, startDate, endDate, rentalDays)}
+                        />
+                      )}
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
 
               <Separator />
 
+              {/* Promo Code */}
+              {priceBreakdown?.promo_code ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center text-green-700">
+                    <Tag className="h-4 w-4 mr-2" />
+                    {priceBreakdown.promo_code} applied
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setPromoCode(null);
+                      setPromoInput('');
+                    }}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  <Input
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && applyPromoCode()}
+                    placeholder="Promo code"
+                    aria-label="Promo code"
+                  />
+                  <Button variant="outline" onClick={applyPromoCode} disabled={!promoInput.trim() || quoteLoading}>
+                    Apply
+                  </Button>
+                </div>
+              )}
+
               {/* Pricing Summary */}
+              {quoteLoading ? (
+                <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Calculating prices...
+                </div>
+              ) : quoteError ? (
+                <div className="flex items-start space-x-2 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4 mt-0.5" />
+                  <span>{quoteError}</span>
+                </div>
+              ) : (
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span>Subtotal ({cartState.totalItems} items):</span>
-                  <span>£{subtotal.toFixed(2)}</span>
+                  <span>{money(subtotal)}</span>
                 </div>
+                {priceBreakdown?.volume_discount ? (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Includes group discounts:</span>
+                    <span>-{money(priceBreakdown.volume_discount)}</span>
+                  </div>
+                ) : null}
+                {discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount ({priceBreakdown?.promo_code}):</span>
+                    <span>-{money(discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span>Delivery:</span>
+                  <span>{getDeliveryMethod(priceBreakdown?.delivery_method || deliveryMethod)?.label}:</span>
                   <span className={deliveryFee === 0 ? 'text-green-600' : ''}>
-                    {deliveryFee === 0 ? 'Free' : `£${deliveryFee.toFixed(2)}`}
+                    {deliveryFee === 0 ? 'Free' : money(deliveryFee)}
                   </span>
                 </div>
+                {returnFee > 0 && (
+                  <div className="flex justify-between">
+                    <span>Return label:</span>
+                    <span>{money(returnFee)}</span>
+                  </div>
+                )}
+                {priceBreakdown?.delivery_error && (
+                  <div className="flex items-start space-x-2 text-sm text-amber-700">
+                    <AlertCircle className="h-4 w-4 mt-0.5" />
+                    <span>{priceBreakdown.delivery_error}</span>
+                  </div>
+                )}
+                {tax && tax.tax > 0 && (
+                  <div className={`flex justify-between ${tax.inclusive ? 'text-sm text-muted-foreground' : ''}`}>
+                    <span>{tax.inclusive ? `Includes ${describeTaxRate(tax.rate)}` : describeTaxRate(tax.rate)}:</span>
+                    <span>{money(tax.tax)}</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between">
-                  <span>Deposit (10%) now:</span>
-                  <span>£{deposit.toFixed(2)}</span>
+                  <span>Deposit ({depositPercent}%) now:</span>
+                  <span>{money(deposit)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Balance Due:</span>
-                  <span className="text-luxury-purple-600">£{balanceDue.toFixed(2)}</span>
+                  <span className="text-luxury-purple-600">{money(balanceDue)}</span>
                 </div>
+                {securityDeposit > 0 && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>Refundable security deposit:</span>
+                      <span>{money(securityDeposit)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{POLICY_TERMS.securityDeposit}</p>
+                  </div>
+                )}
               </div>
+              )}
 
               {/* Checkout Button */}
               <Button
                 onClick={handleCheckout}
-                disabled={loading || !agreeToTerms}
+                disabled={loading || !agreeToTerms || !priceBreakdown || hasConflicts}
                 className="w-full bg-luxury-purple-600 hover:bg-luxury-purple-700"
                 size="lg"
               >
@@ -430,14 +782,14 @@ export default function Checkout() {
                 ) : (
                   <>
                     <CreditCard className="h-4 w-4 mr-2" />
-                    Pay 10% Deposit (£{deposit.toFixed(2)})
+                    Pay {depositPercent}% Deposit ({money(deposit)})
                   </>
                 )}
               </Button>
 
-              {subtotal < 100 && (
+              {(priceBreakdown?.delivery_zone ?? 'gb_mainland') === 'gb_mainland' && deliveryMethod === 'courier' && priceBreakdown && amountUntilFreeDelivery(subtotalGbp) > 0 && (
                 <p className="text-sm text-muted-foreground text-center">
-                  Add £{(100 - subtotal).toFixed(2)} more for free delivery
+                  Add {formatPrice(amountUntilFreeDelivery(subtotalGbp))} more for free delivery
                 </p>
               )}
             </CardContent>
@@ -470,7 +822,7 @@ export default function Checkout() {
                 <Calendar className="h-4 w-4 mt-0.5 text-luxury-purple-600" />
                 <div>
                   <span className="font-medium">Minimum Rental:</span>
-                  <p className="text-muted-foreground">8 days minimum for all items</p>
+                  <p className="text-muted-foreground">{POLICY_TERMS.minimumRental}</p>
                 </div>
               </div>
               <div className="flex items-start space-x-2">
@@ -484,7 +836,7 @@ export default function Checkout() {
                 <Truck className="h-4 w-4 mt-0.5 text-luxury-purple-600" />
                 <div>
                   <span className="font-medium">Delivery:</span>
-                  <p className="text-muted-foreground">Free delivery on orders over £100</p>
+                  <p className="text-muted-foreground">{POLICY_TERMS.delivery}</p>
                 </div>
               </div>
             </CardContent>
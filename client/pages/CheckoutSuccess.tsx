@@ -6,6 +6,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import type { CheckoutSessionResponse } from '@shared/api';
+import { BASE_CURRENCY, formatConverted, formatMoney, normaliseCurrency } from '@shared/currency';
+
+// The Booqable booking is created by the Stripe webhook, which may land after the redirect
+const BOOKING_POLL_INTERVAL_MS = 2000;
+const BOOKING_POLL_ATTEMPTS = 15;
 
 interface OrderDetails {
   items: Array<{
@@ -35,20 +41,12 @@ interface OrderDetails {
   total: number;
 }
 
-interface SessionDetails {
-  session_id: string;
-  payment_status: string;
-  customer_email: string;
-  amount_total: number;
-  currency: string;
-}
-
 export default function CheckoutSuccess() {
   const [searchParams] = useSearchParams();
   const { toast } = useToast();
   
   const [orderDetails, setOrderDetails] = useState<OrderDetails | null>(null);
-  const [sessionDetails, setSessionDetails] = useState<SessionDetails | null>(null);
+  const [sessionDetails, setSessionDetails] = useState<CheckoutSessionResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -94,6 +92,37 @@ export default function CheckoutSuccess() {
     loadOrderDetails();
   }, [sessionId]);
 
+  // Poll until the webhook has created the booking(s) so we can show the real booking numbers
+  useEffect(() => {
+    if (!sessionId || sessionDetails?.booking_status !== 'pending') return;
+
+    let attempts = 0;
+    const timer = setInterval(async () => {
+      attempts++;
+      try {
+        const response = await fetch(`/api/checkout/session/${sessionId}`);
+        const result = await response.json();
+        if (result.success && result.data.booking_status !== 'pending') {
+          setSessionDetails(result.data);
+          clearInterval(timer);
+        }
+      } catch (err) {
+        console.error('Error checking booking status:', err);
+      }
+      if (attempts >= BOOKING_POLL_ATTEMPTS) {
+        clearInterval(timer);
+      }
+    }, BOOKING_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [sessionId, sessionDetails?.booking_status]);
+
+  // The amount paid is in the session's currency; cart prices are Booqable's GBP prices,
+  // shown at the rate the checkout was charged at
+  const paidCurrency = normaliseCurrency(sessionDetails?.currency) ?? BASE_CURRENCY;
+  const paidRate = parseFloat(sessionDetails?.metadata?.exchange_rate || '') || 1;
+  const formatPrice = (amount: number) => formatConverted(amount, paidCurrency, paidRate);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-GB', {
       weekday: 'long',
@@ -179,12 +208,37 @@ export default function CheckoutSuccess() {
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Order Summary</span>
-                <Badge variant="secondary">
-                  Session: {sessionId?.slice(-8)}
-                </Badge>
+                {sessionDetails.bookings.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {sessionDetails.bookings.map((booking) => (
+                      <Badge key={booking.order_id} variant="secondary">
+                        Booking #{booking.number ?? booking.order_id.slice(-8)}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <Badge variant="secondary">
+                    Session: {sessionId?.slice(-8)}
+                  </Badge>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {sessionDetails.booking_status === 'pending' && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  Your booking is being confirmed. Your booking number will appear here shortly.
+                </p>
+              )}
+              {sessionDetails.booking_status === 'failed' && (
+                <p className="text-sm text-red-600 mb-4">
+                  Your payment was received but we could not finish creating your booking. Our team has been notified and will contact you shortly.
+                </p>
+              )}
+              {sessionDetails.bookings.length > 1 && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  Items with different rental dates are booked separately, so you have {sessionDetails.bookings.length} bookings.
+                </p>
+              )}
               {orderDetails ? (
                 <div className="space-y-4">
                   {orderDetails.items.map((item) => (
@@ -219,10 +273,10 @@ export default function CheckoutSuccess() {
                         )}
                         <div className="mt-2">
                           <span className="text-lg font-semibold text-luxury-purple-600">
-                            £{(item.price_per_day * item.quantity * (item.rental_days || 1)).toFixed(2)}
+                            {formatPrice(item.price_per_day * item.quantity * (item.rental_days || 1))}
                           </span>
                           <span className="text-sm text-muted-foreground ml-2">
-                            (£{item.price_per_day}/day × {item.quantity} × {item.rental_days} days)
+                            ({formatPrice(item.price_per_day)}/day × {item.quantity} × {item.rental_days} days)
                           </span>
                         </div>
                       </div>
@@ -282,7 +336,7 @@ export default function CheckoutSuccess() {
               <div className="flex justify-between">
                 <span>Amount Paid:</span>
                 <span className="font-semibold">
-                  £{(sessionDetails.amount_total / 100).toFixed(2)}
+                  {formatMoney(sessionDetails.amount_total, paidCurrency)}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -299,7 +353,7 @@ export default function CheckoutSuccess() {
               <div className="flex justify-between text-lg font-semibold">
                 <span>Total:</span>
                 <span className="text-luxury-purple-600">
-                  £{(sessionDetails.amount_total / 100).toFixed(2)}
+                  {formatMoney(sessionDetails.amount_total, paidCurrency)}
                 </span>
               </div>
             </CardContent>
@@ -13,6 +13,7 @@ import {
   RefreshCw,
   Eye,
   Check,
+  Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,9 +24,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useSizeAvailability } from "@/hooks/use-size-availability";
 import { useCart } from "@/contexts/CartContext";
 import { useWishlist } from "@/contexts/WishlistContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
 import { safeFetch } from '@/lib/safeFetch';
+import { fetchRentalQuote } from '@/lib/rental-quotes';
+import GroupOrderDialog from "@/components/GroupOrderDialog";
+import type { PricedLine } from '@shared/api';
 
 interface Product {
   id: string;
@@ -55,13 +61,16 @@ export default function CostumeDetail() {
   const { toast } = useToast();
   const { addItem, state: cartState } = useCart();
   const { addToWishlist, removeFromWishlist, isInWishlist } = useWishlist();
+  const { formatPrice } = useCurrency();
 
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [selectedSize, setSelectedSize] = useState<string | null>(null);
   const [showDateDialog, setShowDateDialog] = useState(false);
+  const [showGroupDialog, setShowGroupDialog] = useState(false);
   const [rentFrom, setRentFrom] = useState<string>(() => {
     const d = new Date();
     return d.toISOString().slice(0,10);
@@ -71,6 +80,15 @@ export default function CostumeDetail() {
     d.setDate(d.getDate() + 1);
     return d.toISOString().slice(0,10);
   });
+  // Price of the chosen dates from the costume's price structure
+  const [quote, setQuote] = useState<PricedLine | null>(null);
+  const { availability } = useSizeAvailability(id, rentFrom, rentTo, showDateDialog);
+  // Free units of the chosen size (or of the costume) for the chosen dates, once checked
+  const availableQuantity = availability
+    ? selectedSize
+      ? availability.sizes.find((stock) => stock.size === selectedSize)?.available_quantity ?? 0
+      : availability.available_quantity
+    : null;
 
   // Fetch product details
   useEffect(() => {
@@ -175,9 +193,29 @@ export default function CostumeDetail() {
     fetchProduct();
   }, [id]);
 
+  // Re-quote while the date dialog is open, so first-week, extra-day and weekend rates show before adding
+  useEffect(() => {
+    if (!showDateDialog || !id || !rentFrom || !rentTo || rentTo < rentFrom) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRentalQuote({ product_id: id, start_date: rentFrom, end_date: rentTo, quantity }).then(result => {
+      if (!cancelled) setQuote(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showDateDialog, id, rentFrom, rentTo, quantity]);
+
   // Open date picker dialog before adding to cart
   const handleAddToCart = () => {
     if (!product) return;
+    if (product.sizes.length > 0 && !selectedSize) {
+      toast({ title: 'Select a size', description: 'Please choose a size before adding this costume to your cart.', variant: 'destructive' });
+      return;
+    }
     setShowDateDialog(true);
   };
 
@@ -198,19 +236,23 @@ export default function CostumeDetail() {
     }
 
     addItem({
-      id: product.id,
+      product_id: product.id,
+      ...(selectedSize && { size: selectedSize }),
       name: product.name,
       price_per_day: product.price_per_day,
       image: product.images[0],
       category: product.category,
       quantity,
-      rental_from: from,
-      rental_to: to,
-    } as any);
+      start_date: from,
+      end_date: to,
+      rental_days: Math.floor((toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24)) + 1,
+      // Without a quote for these dates the cart prices the line itself
+      ...(quote && quote.start_date === from && quote.end_date === to && { rental_price: quote.unit_price }),
+    });
 
     toast({
       title: 'Added to cart',
-      description: `${product.name} has been added to your cart for ${from} to ${to}.`,
+      description: `${product.name}${selectedSize ? ` (size ${selectedSize})` : ''} has been added to your cart for ${from} to ${to}.`,
     });
 
     setShowDateDialog(false);
@@ -409,7 +451,7 @@ export default function CostumeDetail() {
           </div>
 
           <div className="text-3xl font-bold text-luxury-purple-600 mb-6">
-            £{product.price_per_day.toFixed(2)}{" "}
+            {formatPrice(product.price_per_day)}{" "}
             <span className="text-lg font-normal text-muted-foreground">
               per day
             </span>
@@ -419,6 +461,26 @@ export default function CostumeDetail() {
 
           <div className="mt-4 text-sm text-muted-foreground">Availability and calendar features have been removed.</div>
 
+          {/* Size Selection */}
+          {product.sizes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <div className="flex flex-wrap gap-2">
+                {product.sizes.map((size) => (
+                  <Button
+                    key={size}
+                    variant={selectedSize === size ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedSize(size)}
+                    aria-pressed={selectedSize === size}
+                  >
+                    {size}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quantity Selection */}
           <div className="space-y-2">
             <Label htmlFor="quantity">Quantity</Label>
@@ -450,6 +512,14 @@ export default function CostumeDetail() {
             </div>
           </div>
 
+          {/* Group orders: several sizes of this costume in one go */}
+          {product.sizes.length > 0 && (
+            <Button variant="outline" className="w-full" onClick={() => setShowGroupDialog(true)}>
+              <Users className="h-4 w-4 mr-2" />
+              Ordering for a group? Choose quantities by size
+            </Button>
+          )}
+
           {/* Enhanced Pricing Display */}
 
           {/* Action Buttons */}
@@ -531,15 +601,57 @@ export default function CostumeDetail() {
                 </div>
               </div>
 
+              {availableQuantity !== null && (
+                <p className={`text-sm ${availableQuantity < quantity ? "text-red-600" : "text-muted-foreground"}`}>
+                  {availableQuantity === 0
+                    ? "Not available for these dates"
+                    : `${availableQuantity} available${selectedSize ? ` in size ${selectedSize}` : ""} for these dates`}
+                </p>
+              )}
+
+              {quote && (
+                <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                  {quote.price_components?.map((component) => (
+                    <div key={component.label} className="flex justify-between text-muted-foreground">
+                      <span>{component.label}</span>
+                      <span>{formatPrice(component.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-semibold">
+                    <span>Rental price{quote.quantity > 1 ? ` (${quote.quantity} × ${formatPrice(quote.unit_price)})` : ''}</span>
+                    <span>{formatPrice(quote.line_total)}</span>
+                  </div>
+                </div>
+              )}
+
               <DialogFooter>
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setShowDateDialog(false)}>Cancel</Button>
-                  <Button onClick={() => performAddToCart(rentFrom, rentTo)}>Confirm & Add to Cart</Button>
+                  <Button
+                    onClick={() => performAddToCart(rentFrom, rentTo)}
+                    disabled={availableQuantity !== null && availableQuantity < quantity}
+                  >
+                    Confirm & Add to Cart
+                  </Button>
                 </div>
               </DialogFooter>
             </DialogContent>
           </Dialog>
 
+          {product.sizes.length > 0 && (
+            <GroupOrderDialog
+              product={product}
+              open={showGroupDialog}
+              onOpenChange={setShowGroupDialog}
+              startDate={rentFrom}
+              endDate={rentTo}
+              onDatesChange={(from, to) => {
+                setRentFrom(from);
+                setRentTo(to);
+              }}
+            />
+          )}
+
           {/* Product Information */}
           <Card>
             <CardHeader>
@@ -10,7 +10,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { firebaseAvailable } from '../lib/firebase';
+import { CurrencyCode, formatConverted } from '@shared/currency';
 
 interface DashboardStats {
   totalOrders: number;
@@ -28,6 +30,8 @@ interface RecentOrder {
   start_date: string;
   end_date: string;
   total_amount: number;
+  currency: CurrencyCode;
+  exchange_rate: number;
   primary_product_name: string;
   primary_product_image: string;
   items: Array<{
@@ -58,6 +62,7 @@ interface FeaturedProduct {
 
 export default function Dashboard() {
   const { currentUser, userProfile } = useAuth();
+  const { formatPrice } = useCurrency();
   const [stats, setStats] = useState<DashboardStats>({
     totalOrders: 0,
     upcomingOrders: 0,
@@ -154,6 +159,24 @@ export default function Dashboard() {
     }
   };
 
+  // Open an order PDF (invoice, receipt or packing slip) in a new tab
+  const openOrderDocument = async (documentId: string) => {
+    try {
+      const token = firebaseAvailable && currentUser ? await currentUser.getIdToken() : '';
+      const res = await fetch(`/api/invoices/${documentId}/download`, { headers: { Authorization: `Bearer ${token}` } });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setDashboardMessage(data?.error || 'Could not download document');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch {
+      setDashboardMessage('Could not download document');
+    }
+  };
+
   // Auto-fetch data if user is logged in with Firebase
   useEffect(() => {
     if (firebaseAvailable && currentUser?.email) {
@@ -271,7 +294,7 @@ export default function Dashboard() {
             <CreditCard className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">£{stats.totalSpent.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatPrice(stats.totalSpent)}</div>
             <p className="text-xs text-muted-foreground">All time</p>
           </CardContent>
         </Card>
@@ -333,7 +356,7 @@ export default function Dashboard() {
                         }>
                           {order.payment_status}
                         </Badge>
-                        <span>£{order.total_amount.toFixed(2)}</span>
+                        <span>{formatConverted(order.total_amount, order.currency, order.exchange_rate)}</span>
                       </div>
                       {order.items.length > 1 && (
                         <p className="text-xs text-muted-foreground mt-1">
@@ -345,29 +368,8 @@ export default function Dashboard() {
                       <p>{new Date(order.start_date).toLocaleDateString()}</p>
                       <p>to {new Date(order.end_date).toLocaleDateString()}</p>
                       <div className="mt-2 flex gap-2 justify-end">
-                        <Button size="sm" variant="outline" onClick={async () => {
-                          try {
-                            const token = firebaseAvailable && currentUser ? await currentUser.getIdToken() : '';
-                            const res = await fetch(`/api/orders/${order.id}/payments`, { headers: { Authorization: `Bearer ${token}` } });
-                            const data = await res.json();
-                            const invoice = data?.data?.invoices?.[0];
-                            if (invoice?.download_url) {
-                              window.open(invoice.download_url, '_blank');
-                            } else {
-                              const fallback = await fetch(`/api/invoices/deposit_${order.id}/download`, { headers: { Authorization: `Bearer ${token}` } });
-                              const fjson = await fallback.json();
-                              if (fjson?.data?.download_url) window.open(fjson.data.download_url, '_blank');
-                            }
-                          } catch {}
-                        }}>Invoice</Button>
-                        <Button size="sm" variant="outline" onClick={async () => {
-                          try {
-                            const token = firebaseAvailable && currentUser ? await currentUser.getIdToken() : '';
-                            const res = await fetch(`/api/invoices/packing_${order.id}/download`, { headers: { Authorization: `Bearer ${token}` } });
-                            const data = await res.json();
-                            if (data?.data?.download_url) window.open(data.data.download_url, '_blank');
-                          } catch {}
-                        }}>Packing Slip</Button>
+                        <Button size="sm" variant="outline" onClick={() => openOrderDocument(`deposit_${order.id}`)}>Invoice</Button>
+                        <Button size="sm" variant="outline" onClick={() => openOrderDocument(`packing_${order.id}`)}>Packing Slip</Button>
                         <Button size="sm" onClick={() => { window.location.href = `/orders?rebook=${order.id}`; }}>Rebook</Button>
                       </div>
                     </div>
@@ -425,7 +427,7 @@ export default function Dashboard() {
                       </h3>
                     </Link>
                     <div className="flex items-center justify-between mt-1">
-                      <p className="text-sm font-bold text-luxury-purple-600">£{product.price}/day</p>
+                      <p className="text-sm font-bold text-luxury-purple-600">{formatPrice(product.price)}/day</p>
                       <div className="flex items-center space-x-1">
                         <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
                         <span className="text-xs text-muted-foreground">{product.rating}</span>
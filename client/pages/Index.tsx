@@ -7,6 +7,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { PAYMENT_POLICY } from '@shared/payment-policy';
+import { useCurrency } from '@/contexts/CurrencyContext';
 
 interface Product {
   id: string;
@@ -27,6 +29,8 @@ interface Collection {
 }
 
 function FAQAccordion() {
+  const { formatPrice } = useCurrency();
+
   return (
     <Accordion type="single" collapsible className="max-w-3xl mx-auto">
       <AccordionItem value="item-1">
@@ -38,13 +42,13 @@ function FAQAccordion() {
       <AccordionItem value="item-2">
         <AccordionTrigger>What is the minimum rental period?</AccordionTrigger>
         <AccordionContent>
-          The minimum rental period is 8 days, ensuring adequate time for delivery, performances, and returns.
+          The minimum rental period is {PAYMENT_POLICY.minimumRentalDays} days, ensuring adequate time for delivery, performances, and returns.
         </AccordionContent>
       </AccordionItem>
       <AccordionItem value="item-3">
         <AccordionTrigger>Do you offer delivery?</AccordionTrigger>
         <AccordionContent>
-          Yes. Delivery is free for orders over £100. Otherwise, a small delivery fee applies, shown during checkout.
+          Yes. Delivery is free for orders over {formatPrice(PAYMENT_POLICY.freeDeliveryThreshold)}. Otherwise, a small delivery fee applies, shown during checkout.
         </AccordionContent>
       </AccordionItem>
       <AccordionItem value="item-4">
@@ -58,10 +62,9 @@ function FAQAccordion() {
 }
 
 export default function Index() {
+  const { formatPrice } = useCurrency();
   const [searchQuery, setSearchQuery] = useState('');
 
-  // ICS calendar is shown below as a demo of direct ICS parsing
-  const icsUrl = 'https://dance-costumes-for-hire-90e5.booqable.com/integrations/calendar/e313abf2b30213a486a238d0986a64df/orders.ics';
   const [currentSlide, setCurrentSlide] = useState(0);
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
@@ -525,7 +528,7 @@ export default function Index() {
                         </h3>
                         <div className="flex items-center space-x-2">
                           <span className="text-lg font-bold text-luxury-purple-600">
-                            £{product.price_per_day.toFixed(2)}
+                            {formatPrice(product.price_per_day)}
                           </span>
                           <span className="text-xs text-muted-foreground">/day</span>
                         </div>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Calendar, Package, Clock, MapPin, Eye, Download, RefreshCw, AlertCircle, Loader2 } from 'lucide-react';
+import { Calendar, Package, Clock, MapPin, Eye, Download, RefreshCw, AlertCircle, Loader2, FileText, Check } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,8 +8,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { OrderManagement } from '../components/OrderManagement';
 import { PaymentManagement } from '../components/PaymentManagement';
+import { CurrencyCode, formatConverted } from '@shared/currency';
+import type { QuoteSummary } from '@shared/quotes';
 
 interface OrderItem {
   id: string;
@@ -26,9 +29,13 @@ interface Order {
   payment_status: string;
   start_date: string;
   end_date: string;
+  /** Amounts are GBP; the order is shown and paid in `currency` at `exchange_rate` */
   total_amount: number;
-  currency: string;
+  currency: CurrencyCode;
+  exchange_rate: number;
   items: OrderItem[];
+  /** Set when the order started as a quote */
+  quote: QuoteSummary | null;
   delivery_address: {
     line1: string;
     line2?: string;
@@ -57,6 +64,8 @@ export default function MyOrders() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('all');
+  const [acceptingQuote, setAcceptingQuote] = useState<string | null>(null);
+  const { toast } = useToast();
 
   // Fetch orders from API
   const fetchOrders = async () => {
@@ -106,6 +115,58 @@ export default function MyOrders() {
     );
   };
 
+  const downloadQuote = async (order: Order) => {
+    if (!currentUser || !order.quote) return;
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/invoices/quote_${order.id}/download`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) throw new Error('Failed to download quote');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${order.quote.quote_number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      toast({
+        title: "Download Error",
+        description: "Failed to download quote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Accepting a quote opens the deposit checkout at the quoted prices
+  const acceptQuote = async (order: Order) => {
+    if (!currentUser) return;
+    setAcceptingQuote(order.id);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/quotes/${order.id}/accept`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result?.error || 'Failed to accept quote');
+      }
+      window.location.href = result.data.checkout_url;
+    } catch (err) {
+      toast({
+        title: "Quote not accepted",
+        description: err instanceof Error ? err.message : 'Failed to accept quote',
+        variant: "destructive",
+      });
+      setAcceptingQuote(null);
+    }
+  };
+
   // Filter orders based on active tab
   const filteredOrders = orders.filter(order => {
     const now = new Date();
@@ -127,9 +188,13 @@ export default function MyOrders() {
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'confirmed':
+      case 'accepted':
         return 'bg-green-100 text-green-800';
       case 'pending':
+      case 'sent':
         return 'bg-yellow-100 text-yellow-800';
+      case 'expired':
+        return 'bg-gray-100 text-gray-500';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
@@ -259,123 +324,179 @@ export default function MyOrders() {
             </div>
           ) : (
             <div className="space-y-6">
-              {filteredOrders.map((order) => (
-                <Card key={order.id} className="overflow-hidden">
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <CardTitle className="flex items-center gap-2">
-                          Order #{order.number}
-                          <Badge className={getStatusColor(order.status)}>
-                            {order.status}
-                          </Badge>
-                          <Badge className={getPaymentStatusColor(order.payment_status)}>
-                            {order.payment_status}
-                          </Badge>
-                        </CardTitle>
-                        <CardDescription>
-                          Placed on {formatDateTime(order.created_at)}
-                        </CardDescription>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-2xl font-bold text-luxury-purple-600">
-                          £{order.total_amount.toFixed(2)}
+              {filteredOrders.map((order) => {
+                // Quotes waiting to be accepted have no payments or changes to manage yet
+                const openQuote = order.quote && order.quote.status !== 'accepted' ? order.quote : null;
+                return (
+                  <Card key={order.id} className="overflow-hidden">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          {openQuote ? (
+                            <>
+                              <CardTitle className="flex items-center gap-2">
+                                Quote {openQuote.quote_number}
+                                <Badge className={getStatusColor(openQuote.status)}>
+                                  {openQuote.status === 'sent' ? 'awaiting acceptance' : openQuote.status}
+                                </Badge>
+                              </CardTitle>
+                              <CardDescription>
+                                Issued on {formatDate(openQuote.issued_at)}
+                                {openQuote.reference && ` · Your reference ${openQuote.reference}`}
+                              </CardDescription>
+                            </>
+                          ) : (
+                            <>
+                              <CardTitle className="flex items-center gap-2">
+                                Order #{order.number}
+                                <Badge className={getStatusColor(order.status)}>
+                                  {order.status}
+                                </Badge>
+                                <Badge className={getPaymentStatusColor(order.payment_status)}>
+                                  {order.payment_status}
+                                </Badge>
+                              </CardTitle>
+                              <CardDescription>
+                                Placed on {formatDateTime(order.created_at)}
+                                {order.quote && ` · From quote ${order.quote.quote_number}`}
+                              </CardDescription>
+                            </>
+                          )}
                         </div>
-                        <div className="text-sm text-muted-foreground">
-                          {order.currency}
+                        <div className="text-right">
+                          <div className="text-2xl font-bold text-luxury-purple-600">
+                            {formatConverted(order.total_amount, order.currency, order.exchange_rate)}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {order.currency}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </CardHeader>
-                  
-                  <CardContent className="space-y-4">
-                    {/* Rental Period */}
-                    <div className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
-                      <Calendar className="h-5 w-5 text-luxury-purple-600" />
-                      <div className="flex-1">
-                        <div className="font-medium">Rental Period</div>
-                        <div className="text-sm text-muted-foreground">
-                          {formatDate(order.start_date)} - {formatDate(order.end_date)}
+                    </CardHeader>
+                    
+                    <CardContent className="space-y-4">
+                      {/* Rental Period */}
+                      <div className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
+                        <Calendar className="h-5 w-5 text-luxury-purple-600" />
+                        <div className="flex-1">
+                          <div className="font-medium">Rental Period</div>
+                          <div className="text-sm text-muted-foreground">
+                            {formatDate(order.start_date)} - {formatDate(order.end_date)}
+                          </div>
+                        </div>
+                        <div className="text-sm font-medium">
+                          {Math.ceil((new Date(order.end_date).getTime() - new Date(order.start_date).getTime()) / (1000 * 60 * 60 * 24))} days
                         </div>
                       </div>
-                      <div className="text-sm font-medium">
-                        {Math.ceil((new Date(order.end_date).getTime() - new Date(order.start_date).getTime()) / (1000 * 60 * 60 * 24))} days
-                      </div>
-                    </div>
 
-                    {/* Items */}
-                    <div>
-                      <h4 className="font-medium mb-3">Items ({order.items.length})</h4>
-                      <div className="space-y-2">
-                        {order.items.map((item, index) => (
-                          <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
-                            <div className="flex items-center gap-3">
-                              <div className="h-12 w-12 bg-muted rounded-lg flex items-center justify-center">
-                                <Package className="h-6 w-6 text-muted-foreground" />
-                              </div>
-                              <div>
-                                <div className="font-medium">{item.product_name}</div>
-                                <div className="text-sm text-muted-foreground">
-                                  Quantity: {item.quantity}
+                      {/* Items */}
+                      <div>
+                        <h4 className="font-medium mb-3">Items ({order.items.length})</h4>
+                        <div className="space-y-2">
+                          {order.items.map((item, index) => (
+                            <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+                              <div className="flex items-center gap-3">
+                                <div className="h-12 w-12 bg-muted rounded-lg flex items-center justify-center">
+                                  <Package className="h-6 w-6 text-muted-foreground" />
+                                </div>
+                                <div>
+                                  <div className="font-medium">{item.product_name}</div>
+                                  <div className="text-sm text-muted-foreground">
+                                    Quantity: {item.quantity}
+                                  </div>
                                 </div>
                               </div>
+                              <div className="text-right">
+                                <div className="font-medium">{formatConverted(item.price, order.currency, order.exchange_rate)}</div>
+                                <div className="text-sm text-muted-foreground">per item</div>
+                              </div>
                             </div>
-                            <div className="text-right">
-                              <div className="font-medium">£{item.price.toFixed(2)}</div>
-                              <div className="text-sm text-muted-foreground">per item</div>
-                            </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
-                    </div>
 
-                    {/* Delivery Address */}
-                    {order.delivery_address && (order.delivery_address.line1 || order.delivery_address.city) && (
-                      <div className="flex items-start gap-4 p-4 bg-muted/50 rounded-lg">
-                        <MapPin className="h-5 w-5 text-luxury-purple-600 mt-0.5" />
-                        <div>
-                          <div className="font-medium mb-1">Delivery Address</div>
-                          <div className="text-sm text-muted-foreground space-y-1">
-                            {order.delivery_address.line1 && <div>{order.delivery_address.line1}</div>}
-                            {order.delivery_address.line2 && <div>{order.delivery_address.line2}</div>}
-                            <div>
-                              {order.delivery_address.city && `${order.delivery_address.city}, `}
-                              {order.delivery_address.postcode}
+                      {/* Delivery Address */}
+                      {order.delivery_address && (order.delivery_address.line1 || order.delivery_address.city) && (
+                        <div className="flex items-start gap-4 p-4 bg-muted/50 rounded-lg">
+                          <MapPin className="h-5 w-5 text-luxury-purple-600 mt-0.5" />
+                          <div>
+                            <div className="font-medium mb-1">Delivery Address</div>
+                            <div className="text-sm text-muted-foreground space-y-1">
+                              {order.delivery_address.line1 && <div>{order.delivery_address.line1}</div>}
+                              {order.delivery_address.line2 && <div>{order.delivery_address.line2}</div>}
+                              <div>
+                                {order.delivery_address.city && `${order.delivery_address.city}, `}
+                                {order.delivery_address.postcode}
+                              </div>
+                              {order.delivery_address.country && <div>{order.delivery_address.country}</div>}
                             </div>
-                            {order.delivery_address.country && <div>{order.delivery_address.country}</div>}
                           </div>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Order Management */}
-                    <OrderManagement order={order} onOrderUpdate={handleOrderUpdate} />
+                      {openQuote ? (
+                        <div className="flex items-start gap-4 p-4 border rounded-lg">
+                          <FileText className="h-5 w-5 text-luxury-purple-600 mt-0.5" />
+                          <div className="flex-1 space-y-1">
+                            <div className="font-medium">
+                              {openQuote.status === 'expired'
+                                ? `This quote expired on ${formatDate(openQuote.expires_at)}`
+                                : `Prices held until ${formatDate(openQuote.expires_at)}`}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {openQuote.status === 'expired'
+                                ? 'Request a new quote from your cart to book these costumes.'
+                                : 'Accept the quote to pay the deposit and reserve the costumes. Stock is not held until then.'}
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => downloadQuote(order)}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Quote PDF
+                            </Button>
+                            {openQuote.status === 'sent' && (
+                              <Button size="sm" onClick={() => acceptQuote(order)} disabled={acceptingQuote === order.id}>
+                                {acceptingQuote === order.id
+                                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                  : <Check className="h-4 w-4 mr-2" />}
+                                Accept Quote
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          {/* Order Management */}
+                          <OrderManagement order={order} onOrderUpdate={handleOrderUpdate} />
 
-                    {/* Payment Management */}
-                    <PaymentManagement
-                      orderId={order.id}
-                      orderTotal={order.total_amount}
-                      orderStatus={order.status}
-                      rentalStartDate={order.start_date}
-                    />
+                          {/* Payment Management */}
+                          <PaymentManagement
+                            orderId={order.id}
+                            orderTotal={order.total_amount}
+                            orderStatus={order.status}
+                            rentalStartDate={order.start_date}
+                          />
+                        </>
+                      )}
 
-                    {/* Actions */}
-                    <Separator />
-                    <div className="flex items-center justify-between pt-2">
-                      <div className="flex gap-2">
-                        <Button variant="outline" size="sm">
-                          <Eye className="h-4 w-4 mr-2" />
-                          View Details
-                        </Button>
-                        <Button variant="outline" size="sm">
-                          <Download className="h-4 w-4 mr-2" />
-                          Invoice
-                        </Button>
+                      {/* Actions */}
+                      <Separator />
+                      <div className="flex items-center justify-between pt-2">
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4 mr-2" />
+                            View Details
+                          </Button>
+                          <Button variant="outline" size="sm">
+                            <Download className="h-4 w-4 mr-2" />
+                            Invoice
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
           )}
         </TabsContent>
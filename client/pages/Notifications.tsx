@@ -12,7 +12,7 @@ import { db, firebaseAvailable } from "../lib/firebase";
 
 interface NotificationDoc {
   id: string;
-  type: "order" | "wishlist" | "system";
+  type: "order" | "wishlist" | "refund" | "system";
   title: string;
   message: string;
   orderId?: string;
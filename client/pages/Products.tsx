@@ -13,6 +13,7 @@ import { Separator } from '@/components/ui/separator';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Link, useSearchParams } from 'react-router-dom';
+import { useCurrency } from '@/contexts/CurrencyContext';
 
 // Types for Booqable data
 interface Collection {
@@ -47,6 +48,7 @@ interface Product {
 
 export default function Products() {
   const [searchParams, setSearchParams] = useSearchParams();
+  const { formatPrice } = useCurrency();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
   const [selectedCategory, setSelectedCategory] = useState(searchParams.get('category') || 'all');
@@ -383,8 +385,8 @@ export default function Products() {
             className="w-full"
           />
           <div className="flex justify-between text-sm text-muted-foreground">
-            <span>£{priceRange[0]}</span>
-            <span>£{priceRange[1]}</span>
+            <span>{formatPrice(priceRange[0])}</span>
+            <span>{formatPrice(priceRange[1])}</span>
           </div>
         </div>
       </div>
@@ -666,7 +668,7 @@ export default function Products() {
                             </p>
                             <div className="flex items-center space-x-2 mb-3">
                               <span className="text-lg font-bold text-luxury-purple-600">
-                                £{product.price_per_day}
+                                {formatPrice(product.price_per_day)}
                               </span>
                               <span className="text-xs text-muted-foreground">/day</span>
                             </div>
@@ -716,7 +718,7 @@ export default function Products() {
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-2">
                                 <span className="text-xl font-bold text-luxury-purple-600">
-                                  £{product.price_per_day}
+                                  {formatPrice(product.price_per_day)}
                                 </span>
                                 <span className="text-sm text-muted-foreground">/day</span>
                               </div>
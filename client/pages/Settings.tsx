@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { User, Mail, Phone, MapPin, Lock, Bell, CreditCard, Trash2, Save, Eye, EyeOff, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,13 +7,17 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { Badge } from '@/components/ui/badge';
 import { toast } from '@/components/ui/use-toast';
+import type { SavedPaymentMethod } from '@shared/api';
+import { CURRENCIES, CurrencyCode, SUPPORTED_CURRENCIES } from '@shared/currency';
 
 interface UserProfileData {
   displayName: string;
@@ -29,11 +33,15 @@ interface UserProfileData {
   preferences: {
     notifications: boolean;
     newsletter: boolean;
+    currency?: CurrencyCode;
   };
 }
 
 export default function Settings() {
   const { currentUser, userProfile, updateUserProfile, updateUserPassword } = useAuth();
+  const { currency } = useCurrency();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile');
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState<UserProfileData>({
     displayName: '',
@@ -65,7 +73,9 @@ export default function Settings() {
   });
   const [passwordLoading, setPasswordLoading] = useState(false);
   const [billingLoading, setBillingLoading] = useState(false);
-  const [paymentMethods, setPaymentMethods] = useState<any[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<SavedPaymentMethod[]>([]);
+  // Card being added/updated/removed ('new' while starting card setup)
+  const [cardAction, setCardAction] = useState<string | null>(null);
 
   // Load user data
   useEffect(() => {
@@ -83,26 +93,55 @@ export default function Settings() {
         },
         preferences: {
           notifications: userProfile.preferences?.notifications ?? true,
-          newsletter: userProfile.preferences?.newsletter ?? false
+          newsletter: userProfile.preferences?.newsletter ?? false,
+          currency: userProfile.preferences?.currency ?? currency
         }
       });
     }
   }, [userProfile, currentUser]);
 
+  // Saved-card API calls; resolves with the updated card list
+  const billingRequest = async (path: string, init: RequestInit = {}) => {
+    if (!currentUser) throw new Error('Please sign in again');
+    const token = await currentUser.getIdToken();
+    const res = await fetch(`/api/user/payment-methods${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data.data;
+  };
+
   // Load billing payment methods
   useEffect(() => {
     const loadPaymentMethods = async () => {
-      if (!currentUser || !userProfile?.booqableCustomerId) return;
+      if (!currentUser) return;
       try {
         setBillingLoading(true);
-        const token = await currentUser.getIdToken();
-        const res = await fetch(`/api/customers/${userProfile.booqableCustomerId}/payment-methods`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = await res.json();
-        if (res.ok && data.success) {
-          setPaymentMethods(Array.isArray(data.data) ? data.data : []);
+
+        // Back from adding a card in Stripe Checkout
+        const setupSessionId = searchParams.get('card') === 'added' ? searchParams.get('session_id') : null;
+        if (setupSessionId) {
+          setSearchParams({ tab: 'billing' }, { replace: true });
+          try {
+            setPaymentMethods(await billingRequest('/setup/confirm', {
+              method: 'POST',
+              body: JSON.stringify({ session_id: setupSessionId }),
+            }));
+            toast({ title: 'Card saved', description: 'Your card is ready to use for future payments.' });
+            return;
+          } catch (e) {
+            console.error('Failed to confirm new card', e);
+          }
         }
+
+        setPaymentMethods(await billingRequest(''));
       } catch (e) {
         console.error('Failed to load payment methods', e);
       } finally {
@@ -110,7 +149,42 @@ export default function Settings() {
       }
     };
     loadPaymentMethods();
-  }, [currentUser, userProfile?.booqableCustomerId]);
+  }, [currentUser]);
+
+  const handleAddPaymentMethod = async () => {
+    setCardAction('new');
+    try {
+      const { checkout_url } = await billingRequest('/setup', { method: 'POST' });
+      window.location.href = checkout_url;
+    } catch (e: any) {
+      toast({ title: 'Could not add card', description: e.message, variant: 'destructive' });
+      setCardAction(null);
+    }
+  };
+
+  const handleSetDefaultPaymentMethod = async (paymentMethodId: string) => {
+    setCardAction(paymentMethodId);
+    try {
+      setPaymentMethods(await billingRequest(`/${paymentMethodId}/default`, { method: 'POST' }));
+      toast({ title: 'Default card updated' });
+    } catch (e: any) {
+      toast({ title: 'Could not update card', description: e.message, variant: 'destructive' });
+    } finally {
+      setCardAction(null);
+    }
+  };
+
+  const handleRemovePaymentMethod = async (paymentMethodId: string) => {
+    setCardAction(paymentMethodId);
+    try {
+      setPaymentMethods(await billingRequest(`/${paymentMethodId}`, { method: 'DELETE' }));
+      toast({ title: 'Card removed' });
+    } catch (e: any) {
+      toast({ title: 'Could not remove card', description: e.message, variant: 'destructive' });
+    } finally {
+      setCardAction(null);
+    }
+  };
 
   // Handle profile form changes
   const handleFormChange = (field: string, value: any) => {
@@ -225,7 +299,7 @@ export default function Settings() {
         </p>
       </div>
 
-      <Tabs defaultValue="profile" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
@@ -523,6 +597,32 @@ export default function Settings() {
                 />
               </div>
 
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <div className="text-base font-medium">Currency</div>
+                  <div className="text-sm text-muted-foreground">
+                    Show prices and pay in this currency. Orders keep the exchange rate they were booked at
+                  </div>
+                </div>
+                <Select
+                  value={formData.preferences.currency ?? currency}
+                  onValueChange={(value) => handleFormChange('preferences.currency', value)}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map(code => (
+                      <SelectItem key={code} value={code}>
+                        {CURRENCIES[code].symbol} {CURRENCIES[code].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex justify-end">
                 <Button onClick={saveProfile} disabled={loading}>
                   <Save className="h-4 w-4 mr-2" />
@@ -556,22 +656,54 @@ export default function Settings() {
                   <CreditCard className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
                   <h3 className="text-lg font-semibold mb-2">No payment methods saved</h3>
                   <p className="text-muted-foreground mb-4">
-                    Add a payment method to make checkout faster
+                    Add a card to pay your balance in one click
                   </p>
-                  <Button onClick={() => toast({ title: 'Add Payment Method', description: 'Payment method setup will be completed at checkout.' })}>Add Payment Method</Button>
+                  <Button onClick={handleAddPaymentMethod} disabled={cardAction !== null}>
+                    {cardAction === 'new' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Add Payment Method
+                  </Button>
                 </div>
               ) : (
                 <div className="space-y-4">
                   {paymentMethods.map((pm) => (
                     <div key={pm.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div>
-                        <div className="font-medium capitalize">{pm.type} ••���• {pm.card?.last4}</div>
+                        <div className="font-medium capitalize">{pm.type} •••• {pm.card?.last4}</div>
                         <div className="text-sm text-muted-foreground">{pm.card?.brand?.toUpperCase()} · Expires {pm.card?.exp_month}/{pm.card?.exp_year}</div>
                       </div>
-                      {pm.is_default && <Badge>Default</Badge>}
+                      <div className="flex items-center gap-2">
+                        {pm.is_default ? (
+                          <Badge>Default</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSetDefaultPaymentMethod(pm.id)}
+                            disabled={cardAction !== null}
+                          >
+                            Make default
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemovePaymentMethod(pm.id)}
+                          disabled={cardAction !== null}
+                          aria-label="Remove card"
+                        >
+                          {cardAction === pm.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          )}
+                        </Button>
+                      </div>
                     </div>
                   ))}
-                  <Button variant="outline" onClick={() => toast({ title: 'Add Payment Method', description: 'Payment method setup will be completed at checkout.' })}>Add Payment Method</Button>
+                  <Button variant="outline" onClick={handleAddPaymentMethod} disabled={cardAction !== null}>
+                    {cardAction === 'new' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Add Payment Method
+                  </Button>
                 </div>
               )}
             </CardContent>
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { toast } from '@/components/ui/use-toast';
 
 interface WishlistItem {
@@ -23,6 +24,7 @@ interface WishlistResponse {
 
 export default function Wishlist() {
   const { currentUser } = useAuth();
+  const { formatPrice } = useCurrency();
   const [wishlistItems, setWishlistItems] = useState<WishlistItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -256,7 +258,7 @@ export default function Wishlist() {
                   
                   <div className="flex items-center justify-between">
                     <div className="text-lg font-bold text-luxury-purple-600">
-                      £{item.price_per_day.toFixed(2)}/day
+                      {formatPrice(item.price_per_day)}/day
                     </div>
                     <div className="flex items-center gap-1">
                       <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
@@ -318,7 +320,7 @@ export default function Wishlist() {
             <div className="text-right">
               <p className="text-sm text-muted-foreground mb-1">Total value (per day)</p>
               <p className="text-2xl font-bold text-luxury-purple-600">
-                £{wishlistItems.reduce((sum, item) => sum + item.price_per_day, 0).toFixed(2)}
+                {formatPrice(wishlistItems.reduce((sum, item) => sum + item.price_per_day, 0))}
               </p>
             </div>
           </div>
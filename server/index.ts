@@ -7,6 +7,7 @@ import {
   getCollections,
   getProducts,
   getProduct,
+  getProductQuote,
   getProductsWithImages,
   checkAvailability,
   createCustomer,
@@ -15,15 +16,19 @@ import {
 
 // Stripe API routes (removed mock). Use real checkout + payment-management routes.
 
-// Availability/Calendar routes (legacy functions that may not exist)
-// import {
-//   getUnavailableDates,
-//   validateDateRange,
-//   getSuggestedDates
-// } from "./routes/availability";
+// Availability/Calendar routes
+import {
+  getUnavailableDates,
+  validateDateRange,
+  getSuggestedDates,
+  getIcsEvents,
+  getSizeAvailability,
+} from "./routes/availability";
 
 // Checkout routes
 import * as checkoutRoutes from "./routes/checkout";
+import { validateCart } from "./routes/cart";
+import { getCurrencyRates, updateCurrencyRates } from "./routes/currency";
 
 // User dashboard routes
 import * as userDashboard from "./routes/user-dashboard";
@@ -57,7 +62,16 @@ import {
   handlePaymentSuccess,
   downloadInvoice,
   getCustomerPaymentMethods,
+  createPaymentMethodSetup,
+  confirmPaymentMethodSetup,
+  setDefaultPaymentMethod,
+  removePaymentMethod,
+  sendBalanceReminders,
+  authoriseSecurityDepositHold,
+  placeSecurityDepositHolds,
+  recordReturnInspection,
 } from "./routes/payment-management";
+import { parseDocumentId } from "./lib/documents";
 
 // Stock alerts routes
 import {
@@ -70,7 +84,13 @@ import {
 } from "./routes/stock-alerts";
 
 // Authentication middleware
-import { authenticateToken, optionalAuth } from "./middleware/auth";
+import {
+  authenticateToken,
+  optionalAuth,
+  requireAdmin,
+  requireSchedulerOrAdmin,
+} from "./middleware/auth";
+import { requireOrderAccess } from "./middleware/order-access";
 
 export function createServer() {
   const app = express();
@@ -141,17 +161,19 @@ export function createServer() {
   app.get("/api/products", getProducts);
   app.get("/api/products-with-images", getProductsWithImages);
   app.get("/api/products/:id", getProduct);
+  app.get("/api/products/:id/quote", getProductQuote);
   app.post("/api/customers", authenticateToken, createCustomer);
   app.post("/api/orders", authenticateToken, createOrder);
 
   // Stripe webhook (use real handler from checkout routes)
   app.post("/api/webhooks/stripe", checkoutRoutes.handleStripeWebhook);
 
-  // Availability/Calendar routes (commented out legacy functions)
-  // app.get("/api/availability/:product_id", getUnavailableDates);
-  // app.get("/api/availability", getUnavailableDates); // For all products
-  // app.post("/api/availability/validate", validateDateRange);
-  // app.post("/api/availability/suggestions", getSuggestedDates);
+  // Availability/Calendar routes
+  app.post("/api/availability/validate", validateDateRange);
+  app.post("/api/availability/suggestions", getSuggestedDates);
+  app.get("/api/availability/ics", getIcsEvents);
+  app.get("/api/availability/:product_id/sizes", getSizeAvailability);
+  app.get("/api/availability/:product_id", getUnavailableDates);
 
   // User routes (require authentication)
   app.get("/api/user/profile", authenticateToken, getUserProfile);
@@ -172,32 +194,96 @@ export function createServer() {
   app.post("/api/user/notes", authenticateToken, addUserNote);
 
   // Order management routes (require authentication)
-  app.put("/api/orders/:orderId/modify", authenticateToken, modifyOrder);
-  app.post("/api/orders/:orderId/cancel", authenticateToken, cancelOrder);
+  app.put(
+    "/api/orders/:orderId/modify",
+    authenticateToken,
+    requireOrderAccess(),
+    modifyOrder,
+  );
+  app.post(
+    "/api/orders/:orderId/cancel",
+    authenticateToken,
+    requireOrderAccess(),
+    cancelOrder,
+  );
   app.put(
     "/api/orders/:orderId/reschedule",
     authenticateToken,
+    requireOrderAccess(),
     rescheduleOrder,
   );
   app.get(
     "/api/orders/:orderId/modification-options",
     authenticateToken,
+    requireOrderAccess(),
     getOrderModificationOptions,
   );
 
-  // Payment management routes (require authentication)
-  app.get("/api/orders/:orderId/payments", authenticateToken, getOrderPayments);
-  app.post("/api/orders/:orderId/pay", authenticateToken, processPayment);
+  // Payment management routes (require authentication and order ownership)
+  app.get(
+    "/api/orders/:orderId/payments",
+    authenticateToken,
+    requireOrderAccess(),
+    getOrderPayments,
+  );
+  app.post(
+    "/api/orders/:orderId/pay",
+    authenticateToken,
+    requireOrderAccess(),
+    processPayment,
+  );
   app.post("/api/payments/success", handlePaymentSuccess);
+  app.post(
+    "/api/payments/balance-reminders/run",
+    requireSchedulerOrAdmin,
+    sendBalanceReminders,
+  );
+
+  // Security deposit holds: authorised before dispatch, settled by the return inspection
+  app.post(
+    "/api/orders/:orderId/security-deposit/authorise",
+    authenticateToken,
+    requireOrderAccess(),
+    authoriseSecurityDepositHold,
+  );
+  app.post(
+    "/api/payments/security-deposits/run",
+    requireSchedulerOrAdmin,
+    placeSecurityDepositHolds,
+  );
+  app.post(
+    "/api/admin/orders/:orderId/inspection",
+    requireAdmin,
+    recordReturnInspection,
+  );
   app.get(
     "/api/invoices/:invoiceId/download",
     authenticateToken,
+    requireOrderAccess((req) => parseDocumentId(req.params.invoiceId)?.orderId),
     downloadInvoice,
   );
-  app.get(
-    "/api/customers/:customerId/payment-methods",
+
+  // Saved cards on the user's Stripe Customer
+  app.get("/api/user/payment-methods", authenticateToken, getCustomerPaymentMethods);
+  app.post(
+    "/api/user/payment-methods/setup",
+    authenticateToken,
+    createPaymentMethodSetup,
+  );
+  app.post(
+    "/api/user/payment-methods/setup/confirm",
+    authenticateToken,
+    confirmPaymentMethodSetup,
+  );
+  app.post(
+    "/api/user/payment-methods/:paymentMethodId/default",
+    authenticateToken,
+    setDefaultPaymentMethod,
+  );
+  app.delete(
+    "/api/user/payment-methods/:paymentMethodId",
     authenticateToken,
-    getCustomerPaymentMethods,
+    removePaymentMethod,
   );
 
   // Stock alerts routes (require authentication)
@@ -212,17 +298,53 @@ export function createServer() {
   );
 
 
+  // Saved carts are re-checked against Booqable when they are loaded
+  app.post("/api/cart/validate", validateCart);
+
+  // Exchange rates for prices shown and charged outside the UK
+  app.get("/api/currency/rates", getCurrencyRates);
+  app.put("/api/admin/currency/rates", requireAdmin, updateCurrencyRates);
+
   // Checkout and payment routes
+  app.post("/api/checkout/quote", checkoutRoutes.quoteCheckout);
   app.post(
     "/api/checkout/create-session",
+    optionalAuth,
     checkoutRoutes.createCheckoutSession,
   );
+  app.post("/api/checkout/cancel", checkoutRoutes.cancelCheckoutSession);
   app.post("/api/checkout/webhook", checkoutRoutes.handleStripeWebhook);
+  app.post(
+    "/api/checkout/holds/release-expired",
+    requireSchedulerOrAdmin,
+    checkoutRoutes.releaseExpiredInventoryHolds,
+  );
   app.get(
     "/api/checkout/session/:session_id",
     checkoutRoutes.getCheckoutSession,
   );
 
+  // Quotes: requested from the cart, accepted from My Orders into the deposit checkout
+  app.post("/api/quotes", authenticateToken, checkoutRoutes.requestQuote);
+  app.post(
+    "/api/quotes/:orderId/accept",
+    authenticateToken,
+    requireOrderAccess(),
+    checkoutRoutes.acceptQuote,
+  );
+
+  // Webhook dead-letter list and replay (admin only)
+  app.get(
+    "/api/admin/webhooks/failed-sessions",
+    requireAdmin,
+    checkoutRoutes.getFailedCheckoutSessions,
+  );
+  app.post(
+    "/api/admin/webhooks/failed-sessions/:session_id/replay",
+    requireAdmin,
+    checkoutRoutes.replayFailedCheckoutSession,
+  );
+
   // User dashboard routes (authenticated, scoped to current user)
   app.get(
     "/api/dashboard/data",
@@ -0,0 +1,319 @@
+// Availability engine: works out how many units of a product are free over a date window
+// from the product's stock count, the overlapping Booqable orders and any checkout holds.
+
+import type { SizeStock } from "@shared/api";
+import { booqable, BooqableOrder, BooqableProduct } from "./booqable-client";
+import { getHeldLines, HeldLine } from "./inventory-holds";
+import { getProductSizes } from "./pricing";
+
+// Orders in these states do not hold stock
+const NON_RESERVING_STATUSES = new Set(['new', 'concept', 'canceled', 'cancelled', 'stopped', 'archived']);
+
+const ORDERS_PAGE_SIZE = 100;
+const MAX_ORDER_PAGES = 20;
+
+export interface DailyAvailability {
+  date: string;
+  reserved: number;
+  available: number;
+}
+
+export interface ProductAvailability {
+  product_id: string;
+  start_date: string;
+  end_date: string;
+  stock_count: number;
+  // Highest number of units reserved on any single day of the window
+  reserved_quantity: number;
+  // Units free for the whole window
+  available_quantity: number;
+  daily: DailyAvailability[];
+}
+
+type ReservingLine = Pick<HeldLine, 'quantity' | 'start_date' | 'end_date'> & { size?: string };
+
+const toDateKey = (value: string | Date) =>
+  (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+
+// Every YYYY-MM-DD date from start to end inclusive
+export function eachDate(startDate: string, endDate: string) {
+  const dates: string[] = [];
+  const current = new Date(toDateKey(startDate) + 'T00:00:00Z');
+  const end = new Date(toDateKey(endDate) + 'T00:00:00Z');
+  while (current <= end) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// Stock count of a product, handling the different field names Booqable uses.
+// Untracked products without a count are treated as a single unit.
+export function getStockCount(product: BooqableProduct) {
+  const count = product.stock_count ?? product.base_stock_count ?? product.quantity;
+  const parsed = Number(count);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 1;
+}
+
+// Stock per size from the `size_stock` property, stored as {"S": 4, "M": 10} or "S:4, M:10".
+// Null when the product's stock isn't split by size.
+export function getSizeStockCounts(product: BooqableProduct): Record<string, number> | null {
+  let value = product.properties?.size_stock;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = Object.fromEntries(value.split(',').map(entry => entry.split(/[:=]/).map(part => part.trim())));
+    }
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const counts: Record<string, number> = {};
+  for (const [size, count] of Object.entries(value)) {
+    const parsed = Number(count);
+    if (size && Number.isFinite(parsed) && parsed >= 0) counts[size] = Math.floor(parsed);
+  }
+  return Object.keys(counts).length > 0 ? counts : null;
+}
+
+// Lines booked without a size (before sizes were recorded) count against every size
+const matchesSize = (lineSize: unknown, size?: string) => !size || !lineSize || lineSize === size;
+
+function reservedQuantity(order: BooqableOrder, productId: string, size?: string) {
+  return (order.lines || [])
+    .filter(line => (line.item_id ?? line.item?.id) === productId && matchesSize(line.properties?.size, size))
+    .reduce((sum, line) => sum + (Number(line.quantity) || 0), 0);
+}
+
+// Pure calculation so it can be reused for any set of orders (and held lines) already fetched.
+// With a size, only that size's reservations count against `stockCount`.
+export function computeAvailability(
+  productId: string,
+  stockCount: number,
+  orders: BooqableOrder[],
+  startDate: string,
+  endDate: string,
+  held: ReservingLine[] = [],
+  size?: string,
+): ProductAvailability {
+  const activeOrders = orders
+    .filter(order => !NON_RESERVING_STATUSES.has(order.status))
+    .map(order => ({
+      from: toDateKey(order.starts_at),
+      to: toDateKey(order.stops_at),
+      quantity: reservedQuantity(order, productId, size),
+    }))
+    .concat(held.filter(line => matchesSize(line.size, size)).map(line => ({
+      from: toDateKey(line.start_date),
+      to: toDateKey(line.end_date),
+      quantity: Number(line.quantity) || 0,
+    })))
+    .filter(order => order.quantity > 0);
+
+  const daily = eachDate(startDate, endDate).map(date => {
+    const reserved = activeOrders
+      .filter(order => order.from <= date && date <= order.to)
+      .reduce((sum, order) => sum + order.quantity, 0);
+    return { date, reserved, available: Math.max(0, stockCount - reserved) };
+  });
+
+  const reservedPeak = daily.reduce((max, day) => Math.max(max, day.reserved), 0);
+
+  return {
+    product_id: productId,
+    start_date: toDateKey(startDate),
+    end_date: toDateKey(endDate),
+    stock_count: stockCount,
+    reserved_quantity: reservedPeak,
+    available_quantity: Math.max(0, stockCount - reservedPeak),
+    daily,
+  };
+}
+
+// Availability of a cart line: the product's free stock, further limited by the free stock of the
+// line's size when the product's stock is split by size
+export function computeLineAvailability(
+  product: BooqableProduct,
+  orders: BooqableOrder[],
+  startDate: string,
+  endDate: string,
+  held: ReservingLine[] = [],
+  size?: string,
+): ProductAvailability {
+  const overall = computeAvailability(product.id, getStockCount(product), orders, startDate, endDate, held);
+  const sizeStock = size ? getSizeStockCounts(product)?.[size] : undefined;
+  if (sizeStock === undefined) return overall;
+
+  const forSize = computeAvailability(product.id, sizeStock, orders, startDate, endDate, held, size);
+  const daily = forSize.daily.map((day, index) => ({
+    ...day,
+    available: Math.min(day.available, overall.daily[index].available),
+  }));
+  return {
+    ...forSize,
+    available_quantity: Math.min(forSize.available_quantity, overall.available_quantity),
+    daily,
+  };
+}
+
+// Free units of each size a product is offered in, for choosing a group order's size breakdown
+export function computeSizeAvailability(
+  product: BooqableProduct,
+  orders: BooqableOrder[],
+  startDate: string,
+  endDate: string,
+  held: ReservingLine[] = [],
+): SizeStock[] {
+  const sizeStock = getSizeStockCounts(product);
+  return getProductSizes(product).map(size => ({
+    size,
+    stock_count: sizeStock?.[size] ?? null,
+    available_quantity: computeLineAvailability(product, orders, startDate, endDate, held, size).available_quantity,
+  }));
+}
+
+// All orders for a product that overlap the window (starting before it ends and ending after it starts)
+export async function getOverlappingOrders(productId: string, startDate: string, endDate: string) {
+  const orders: BooqableOrder[] = [];
+
+  for (let page = 1; page <= MAX_ORDER_PAGES; page++) {
+    const data = await booqable.orders.list({
+      'filter[item_id]': productId,
+      'filter[starts_at_lteq]': `${toDateKey(endDate)}T23:59:59`,
+      'filter[stops_at_gteq]': `${toDateKey(startDate)}T00:00:00`,
+      include: 'lines',
+      per: ORDERS_PAGE_SIZE,
+      page,
+    });
+
+    const pageOrders = data.orders || [];
+    orders.push(...pageOrders);
+
+    const totalPages = data.meta?.total_pages;
+    if (pageOrders.length < ORDERS_PAGE_SIZE || (totalPages && page >= totalPages)) break;
+  }
+
+  return orders;
+}
+
+// Everything taking stock over the window: Booqable orders plus holds for carts being paid for
+export async function getReservations(productId: string, startDate: string, endDate: string) {
+  const [orders, held] = await Promise.all([
+    getOverlappingOrders(productId, startDate, endDate),
+    getHeldLines(productId, toDateKey(startDate), toDateKey(endDate)),
+  ]);
+  return { orders, held };
+}
+
+// Real availability of a product over a date window
+export async function getProductAvailability(productId: string, startDate: string, endDate: string) {
+  const [{ product }, { orders, held }] = await Promise.all([
+    booqable.products.get(productId),
+    getReservations(productId, startDate, endDate),
+  ]);
+
+  return computeAvailability(productId, getStockCount(product), orders, startDate, endDate, held);
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DateSuggestion {
+  start_date: string;
+  end_date: string;
+  rental_days: number;
+  available_quantity: number;
+  // Days from the requested start date (negative = earlier)
+  offset_days: number;
+}
+
+// How far either side of the requested dates to look for alternatives
+export const SUGGESTION_SEARCH_DAYS = 30;
+export const MAX_SUGGESTIONS = 3;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(new Date(value + 'T00:00:00Z').getTime());
+}
+
+export function addDaysToDate(date: string, days: number) {
+  const result = new Date(toDateKey(date) + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// Contiguous runs of days that have fewer than `quantity` units free
+export function getUnavailableRanges(daily: DailyAvailability[], quantity = 1): DateRange[] {
+  const ranges: DateRange[] = [];
+  let current: DateRange | null = null;
+
+  for (const day of daily) {
+    if (day.available < quantity) {
+      if (current && addDaysToDate(current.to, 1) === day.date) {
+        current.to = day.date;
+      } else {
+        current = { from: day.date, to: day.date };
+        ranges.push(current);
+      }
+    } else {
+      current = null;
+    }
+  }
+
+  return ranges;
+}
+
+// Span to look up so alternatives can be found on either side of the requested start date
+export function getSuggestionSearchWindow(startDate: string, rentalDays: number, earliestStart: string): DateRange {
+  return {
+    from: [addDaysToDate(startDate, -SUGGESTION_SEARCH_DAYS), earliestStart].sort()[1],
+    to: addDaysToDate(startDate, SUGGESTION_SEARCH_DAYS + rentalDays - 1),
+  };
+}
+
+// Windows of the same length as the request, nearest first, that have `quantity` units free.
+// Works from a single availability lookup covering the whole search span.
+export function findAlternativeDates(
+  availability: ProductAvailability,
+  startDate: string,
+  rentalDays: number,
+  quantity: number,
+  options: { earliestStart: string; limit: number },
+): DateSuggestion[] {
+  const byDate = new Map(availability.daily.map(day => [day.date, day.available]));
+  const candidates: DateSuggestion[] = [];
+
+  for (const day of availability.daily) {
+    const candidateStart = day.date;
+    if (candidateStart === startDate || candidateStart < options.earliestStart) continue;
+
+    const candidateEnd = addDaysToDate(candidateStart, rentalDays - 1);
+    if (candidateEnd > availability.end_date) break;
+
+    let minAvailable = Infinity;
+    for (const date of eachDate(candidateStart, candidateEnd)) {
+      minAvailable = Math.min(minAvailable, byDate.get(date) ?? 0);
+      if (minAvailable < quantity) break;
+    }
+
+    if (minAvailable >= quantity) {
+      const offset = Math.round(
+        (new Date(candidateStart + 'T00:00:00Z').getTime() - new Date(startDate + 'T00:00:00Z').getTime()) / (1000 * 60 * 60 * 24),
+      );
+      candidates.push({
+        start_date: candidateStart,
+        end_date: candidateEnd,
+        rental_days: rentalDays,
+        available_quantity: minAvailable,
+        offset_days: offset,
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => Math.abs(a.offset_days) - Math.abs(b.offset_days) || a.offset_days - b.offset_days)
+    .slice(0, options.limit);
+}
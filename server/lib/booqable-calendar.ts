@@ -0,0 +1,68 @@
+// Fetches and caches the Booqable calendar (ICS) feed.
+// The feed URL is server configuration so the shop's private calendar link never reaches the client bundle.
+
+const BOOQABLE_ICS_URL = process.env.BOOQABLE_ICS_URL;
+const CACHE_TTL_MS = parseInt(process.env.BOOQABLE_ICS_CACHE_TTL_MS || '300000', 10);
+const FETCH_TIMEOUT_MS = 10000;
+
+interface CachedFeed {
+  text: string;
+  fetchedAt: number;
+}
+
+let cache: CachedFeed | null = null;
+let inFlight: Promise<CachedFeed> | null = null;
+
+export function isCalendarFeedConfigured() {
+  return !!BOOQABLE_ICS_URL;
+}
+
+async function fetchFeed(): Promise<CachedFeed> {
+  if (!BOOQABLE_ICS_URL) {
+    throw new Error('BOOQABLE_ICS_URL not configured');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(BOOQABLE_ICS_URL, {
+      headers: { Accept: 'text/calendar' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Calendar feed responded ${response.status} ${response.statusText}`);
+    }
+    return { text: await response.text(), fetchedAt: Date.now() };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Raw feed text, served from cache while fresh. Concurrent callers share one fetch,
+// and a stale copy is returned if Booqable is unreachable.
+export async function getCalendarFeed() {
+  if (cache && Date.now() - cache.fetchedAt < CACHE_TTL_MS) {
+    return cache;
+  }
+
+  if (!inFlight) {
+    inFlight = fetchFeed()
+      .then(feed => {
+        cache = feed;
+        return feed;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  try {
+    return await inFlight;
+  } catch (error) {
+    if (cache) {
+      console.warn('Calendar feed fetch failed, serving cached copy:', error);
+      return cache;
+    }
+    throw error;
+  }
+}
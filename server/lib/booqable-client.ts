@@ -0,0 +1,302 @@
+// Shared Booqable API client used by every server route.
+// Centralises auth headers, timeouts, retry with backoff and error reporting so that
+// all routes behave the same way when Booqable is slow or unavailable.
+
+const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
+const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.BOOQABLE_TIMEOUT_MS || '8000', 10);
+const DEFAULT_RETRIES = parseInt(process.env.BOOQABLE_MAX_RETRIES || '2', 10);
+const BASE_BACKOFF_MS = 300;
+const MAX_BACKOFF_MS = 5000;
+
+export interface BooqableRequestOptions extends RequestInit {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// Error raised for any failed Booqable call (HTTP error, timeout or network failure)
+export class BooqableApiError extends Error {
+  status: number;
+  statusText: string;
+  body: any;
+  endpoint: string;
+  method: string;
+  timedOut: boolean;
+
+  constructor(message: string, details: {
+    status?: number;
+    statusText?: string;
+    body?: any;
+    endpoint: string;
+    method: string;
+    timedOut?: boolean;
+  }) {
+    super(message);
+    this.name = 'BooqableApiError';
+    this.status = details.status ?? 0;
+    this.statusText = details.statusText ?? '';
+    this.body = details.body ?? null;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.timedOut = details.timedOut ?? false;
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  // 429, 5xx, timeouts and network failures are worth another attempt
+  get isRetryable() {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export function isBooqableConfigured() {
+  return !!BOOQABLE_BASE_URL && !!BOOQABLE_API_KEY;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number, retryAfter: string | null) {
+  const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (!isNaN(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+}
+
+async function parseBody(response: Response) {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Make an authenticated request to the Booqable API with timeout and retry.
+// POST requests are only retried on 429 since Booqable has not processed them;
+// retrying a POST after a 5xx could create duplicate records.
+export async function booqableRequest<T = any>(endpoint: string, options: BooqableRequestOptions = {}): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, ...init } = options;
+  const method = (init.method || 'GET').toUpperCase();
+
+  if (!BOOQABLE_BASE_URL) {
+    throw new BooqableApiError('BOOQABLE_BASE_URL not configured', { endpoint, method });
+  }
+
+  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
+  let attempt = 0;
+
+  while (true) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let error: BooqableApiError;
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        method,
+        signal: controller.signal,
+        headers: {
+          'Authorization': BOOQABLE_API_KEY ? `Bearer ${BOOQABLE_API_KEY}` : '',
+          'Content-Type': 'application/json',
+          ...init.headers,
+        },
+      });
+
+      if (response.ok) {
+        return (await parseBody(response)) as T;
+      }
+
+      const body = await parseBody(response);
+      retryAfter = response.headers.get('retry-after');
+      error = new BooqableApiError(`Booqable API error: ${response.status} ${response.statusText}`, {
+        status: response.status,
+        statusText: response.statusText,
+        body,
+        endpoint,
+        method,
+      });
+    } catch (err) {
+      const timedOut = controller.signal.aborted;
+      error = new BooqableApiError(
+        timedOut
+          ? `Booqable API timeout after ${timeoutMs}ms`
+          : `Booqable API request failed: ${err instanceof Error ? err.message : String(err)}`,
+        { endpoint, method, timedOut },
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const canRetry = method === 'POST' ? error.status === 429 : error.isRetryable;
+    if (!canRetry || attempt >= retries) {
+      console.error(`Booqable API error: ${method} ${endpoint}`, error.status, error.body ?? error.message);
+      throw error;
+    }
+
+    const delay = backoffDelay(attempt, retryAfter);
+    console.warn(`Booqable ${method} ${endpoint} failed (${error.status || error.message}), retrying in ${Math.round(delay)}ms`);
+    await sleep(delay);
+    attempt++;
+  }
+}
+
+// Resource types (only the fields the app relies on; Booqable returns more).
+// Money fields (`*_in_cents`) are left to the index signature since Booqable serialises them inconsistently.
+
+export interface BooqableProduct {
+  id: string;
+  name: string;
+  sku?: string;
+  description?: string;
+  photo_url?: string;
+  archived?: boolean;
+  properties?: Record<string, any>;
+  created_at?: string;
+  [key: string]: any;
+}
+
+export interface BooqableCollection {
+  id: string;
+  name: string;
+  description?: string;
+  archived?: boolean;
+  products_count?: number;
+  photo?: { original_url?: string; large_url?: string };
+  [key: string]: any;
+}
+
+export interface BooqableCustomer {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  address_city?: string;
+  address_zipcode?: string;
+  address_country?: string;
+  properties?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+  [key: string]: any;
+}
+
+export interface BooqableLine {
+  id: string;
+  order_id?: string;
+  item_id?: string;
+  quantity: number;
+  item?: { id: string; name?: string; [key: string]: any };
+  properties?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface BooqableOrder {
+  id: string;
+  number?: number | string;
+  status: string;
+  payment_status?: string;
+  customer_id?: string;
+  customer?: BooqableCustomer;
+  starts_at: string;
+  stops_at: string;
+  properties?: Record<string, any>;
+  lines?: BooqableLine[];
+  created_at?: string;
+  updated_at?: string;
+  [key: string]: any;
+}
+
+export interface BooqablePriceTile {
+  id?: string;
+  name?: string;
+  quantity?: number;
+  period?: string;
+  length: number; // seconds
+  multiplier: number | string;
+  [key: string]: any;
+}
+
+export interface BooqablePriceStructure {
+  id: string;
+  name?: string;
+  price_tiles: BooqablePriceTile[];
+  [key: string]: any;
+}
+
+export interface BooqableListMeta {
+  total_count?: number;
+  total_pages?: number;
+  [key: string]: any;
+}
+
+type Query = Record<string, string | number | undefined> | URLSearchParams;
+
+function withQuery(path: string, query?: Query) {
+  if (!query) return path;
+  const params = query instanceof URLSearchParams ? query : new URLSearchParams();
+  if (!(query instanceof URLSearchParams)) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.append(key, String(value));
+    }
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+function jsonBody(payload: unknown): BooqableRequestOptions {
+  return { body: JSON.stringify(payload) };
+}
+
+// Typed resource helpers. Responses are returned as-is so callers keep access to `included`/`meta`.
+export const booqable = {
+  products: {
+    list: (query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ products: BooqableProduct[]; included?: any[]; meta?: BooqableListMeta }>(withQuery('/products', query), options),
+    get: (id: string, query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ product: BooqableProduct; included?: any[] }>(withQuery(`/products/${id}`, query), options),
+  },
+  priceStructures: {
+    get: (id: string, options?: BooqableRequestOptions) =>
+      booqableRequest<{ price_structure: BooqablePriceStructure }>(`/price_structures/${id}`, options),
+  },
+  collections: {
+    list: (query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ collections: BooqableCollection[]; meta?: BooqableListMeta }>(withQuery('/collections', query), options),
+  },
+  customers: {
+    list: (query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ customers: BooqableCustomer[]; meta?: BooqableListMeta }>(withQuery('/customers', query), options),
+    get: (id: string, options?: BooqableRequestOptions) =>
+      booqableRequest<{ customer: BooqableCustomer }>(`/customers/${id}`, options),
+    create: (customer: Partial<BooqableCustomer>) =>
+      booqableRequest<{ customer: BooqableCustomer }>('/customers', { method: 'POST', ...jsonBody({ customer }) }),
+    update: (id: string, customer: Partial<BooqableCustomer>) =>
+      booqableRequest<{ customer: BooqableCustomer }>(`/customers/${id}`, { method: 'PUT', ...jsonBody({ customer }) }),
+  },
+  orders: {
+    list: (query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ orders: BooqableOrder[]; meta?: BooqableListMeta }>(withQuery('/orders', query), options),
+    get: (id: string, query?: Query, options?: BooqableRequestOptions) =>
+      booqableRequest<{ order: BooqableOrder }>(withQuery(`/orders/${id}`, query), options),
+    create: (order: Record<string, any>) =>
+      booqableRequest<{ order: BooqableOrder }>('/orders', { method: 'POST', ...jsonBody({ order }) }),
+    update: (id: string, order: Record<string, any>) =>
+      booqableRequest<{ order: BooqableOrder }>(`/orders/${id}`, { method: 'PUT', ...jsonBody({ order }) }),
+  },
+  lines: {
+    create: (line: Partial<BooqableLine> & { order_id: string }) =>
+      booqableRequest<{ line: BooqableLine }>('/lines', { method: 'POST', ...jsonBody({ line }) }),
+    update: (id: string, line: Partial<BooqableLine>) =>
+      booqableRequest<{ line: BooqableLine }>(`/lines/${id}`, { method: 'PUT', ...jsonBody({ line }) }),
+    delete: (id: string) =>
+      booqableRequest(`/lines/${id}`, { method: 'DELETE' }),
+  },
+};
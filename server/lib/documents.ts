@@ -0,0 +1,326 @@
+// Customer documents for an order: deposit and balance invoices, payment receipts, packing slips
+// and quotes, rendered as PDFs with pdfkit. Invoices and receipts get a sequential number stored in
+// Firestore; quotes carry their own number on the order (see lib/quotes).
+
+import { PassThrough } from "stream";
+import PDFDocument from "pdfkit";
+import admin, { adminDb } from "./firebase-admin";
+import { BooqableLine, BooqableOrder } from "./booqable-client";
+import { calculateDeposit, POLICY_TERMS } from "../../shared/payment-policy";
+import { calculateTax, describeTaxRate, TAX_POLICY } from "../../shared/tax";
+import { BASE_CURRENCY } from "../../shared/currency";
+import { formatOrderAmount, getOrderCurrency } from "./exchange-rates";
+import { checkoutShare, getOrderTotalPence } from "./payment-ledger";
+
+export type DocumentType = 'deposit' | 'balance' | 'receipt' | 'packing' | 'quote';
+
+// Document ids are `<type>_<booqable order id>`, e.g. deposit_0a1b2c3d-...
+const DOCUMENT_ID_PATTERN = /^(deposit|balance|receipt|packing|quote)_([A-Za-z0-9-]{1,64})$/;
+
+const INVOICES_COLLECTION = 'invoices';
+const COUNTER_DOC = 'counters/invoices';
+
+export const SHOP_DETAILS = {
+  name: process.env.SHOP_NAME || 'Costume Rental',
+  address: (process.env.SHOP_ADDRESS || '').split('|').filter(Boolean),
+  email: process.env.SHOP_EMAIL || '',
+  phone: process.env.SHOP_PHONE || '',
+  vatNumber: process.env.SHOP_VAT_NUMBER || '',
+};
+
+const TITLES: Record<DocumentType, string> = {
+  deposit: 'Deposit Invoice',
+  balance: 'Balance Invoice',
+  receipt: 'Payment Receipt',
+  packing: 'Packing Slip',
+  quote: 'Quote',
+};
+
+const NUMBER_LABELS: Partial<Record<DocumentType, string>> = {
+  receipt: 'Receipt No',
+  quote: 'Quote No',
+};
+
+export function parseDocumentId(documentId: string): { type: DocumentType; orderId: string } | null {
+  const match = DOCUMENT_ID_PATTERN.exec(documentId || '');
+  return match ? { type: match[1] as DocumentType, orderId: match[2] } : null;
+}
+
+export const documentId = (type: DocumentType, orderId: string) => `${type}_${orderId}`;
+
+// Number for an invoice/receipt, allocated on first download and reused afterwards
+export async function getInvoiceNumber(docId: string, orderId: string, type: DocumentType) {
+  const invoiceRef = adminDb.collection(INVOICES_COLLECTION).doc(docId);
+  const counterRef = adminDb.doc(COUNTER_DOC);
+
+  return adminDb.runTransaction(async (tx) => {
+    const existing = await tx.get(invoiceRef);
+    if (existing.exists) {
+      return existing.data()!.invoice_number as string;
+    }
+
+    const counter = await tx.get(counterRef);
+    const next = (counter.exists ? Number(counter.data()!.last_number) || 0 : 0) + 1;
+    const invoiceNumber = `INV-${String(next).padStart(6, '0')}`;
+
+    tx.set(counterRef, { last_number: next }, { merge: true });
+    tx.set(invoiceRef, {
+      invoice_number: invoiceNumber,
+      sequence: next,
+      order_id: orderId,
+      type,
+      issued_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return invoiceNumber;
+  });
+}
+
+const pence = (value: unknown) => Math.round(Number(value) || 0);
+const money = (amountPence: number) => `£${(amountPence / 100).toFixed(2)}`;
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+const isPaid = (value: unknown) => value === true || value === 'true';
+const gbpToPence = (value: unknown) => Math.round((parseFloat(String(value ?? '')) || 0) * 100);
+
+interface DocumentLine {
+  name: string;
+  quantity: number;
+  unit: number; // pence
+  total: number; // pence
+}
+
+function documentLines(order: BooqableOrder): DocumentLine[] {
+  return (order.lines || []).map((line: BooqableLine) => {
+    const quantity = Number(line.quantity) || 1;
+    const total = pence(line.price_in_cents);
+    return {
+      name: `${line.title || line.item?.name || 'Rental item'}${line.properties?.size ? ` (size ${line.properties.size})` : ''}`,
+      quantity,
+      unit: line.price_each_in_cents != null ? pence(line.price_each_in_cents) : Math.round(total / quantity),
+      total,
+    };
+  });
+}
+
+// Gross → net + VAT for a VAT-inclusive amount, at the rate the order was charged at
+export function vatBreakdown(grossPence: number, rate: number = TAX_POLICY.rate) {
+  const { net, tax, gross } = calculateTax(grossPence / 100, { inclusive: true, rate });
+  return { net: Math.round(net * 100), vat: Math.round(tax * 100), gross: Math.round(gross * 100), rate };
+}
+
+const orderVatRate = (order: BooqableOrder) =>
+  parseFloat(String(order.properties?.vat_rate ?? '')) || TAX_POLICY.rate;
+
+// Amount the document is for, in pence. `deposit_gbp` and `balance_gbp` are for the whole checkout,
+// so an order booked alongside others gets its share (as in the payment ledger).
+function documentAmount(type: DocumentType, order: BooqableOrder, totalPence: number) {
+  const properties = order.properties || {};
+  const share = checkoutShare(properties);
+  const { deposit, balance } = calculateDeposit(totalPence / 100);
+  const depositPence = properties.deposit_gbp ? Math.round(gbpToPence(properties.deposit_gbp) * share) : Math.round(deposit * 100);
+  const balancePence = properties.balance_gbp ? Math.round(gbpToPence(properties.balance_gbp) * share) : Math.round(balance * 100);
+
+  switch (type) {
+    case 'deposit':
+    case 'quote':
+      return depositPence;
+    case 'balance':
+      return balancePence;
+    case 'receipt':
+      return (isPaid(properties.deposit_paid) || properties.stripe_payment_intent_id ? depositPence : 0)
+        + (isPaid(properties.final_paid) ? balancePence : 0);
+    default:
+      return 0;
+  }
+}
+
+export interface RenderOptions {
+  type: DocumentType;
+  order: BooqableOrder;
+  /** Invoice, receipt or quote number */
+  invoiceNumber?: string;
+}
+
+// Writes the PDF to `output` (an HTTP response or any writable stream)
+export function renderOrderDocument({ type, order, invoiceNumber }: RenderOptions, output: NodeJS.WritableStream) {
+  const pdf = new PDFDocument({ size: 'A4', margin: 50 });
+  pdf.pipe(output);
+
+  const lines = documentLines(order);
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const total = getOrderTotalPence(order) || subtotal;
+  const properties = order.properties || {};
+  // Delivery and return fees are per checkout, so they are only shown when this is its one booking
+  const singleBooking = checkoutShare(properties) === 1;
+  const deliveryFee = singleBooking ? gbpToPence(properties.delivery_fee_gbp) : 0;
+  const returnFee = singleBooking ? gbpToPence(properties.return_fee_gbp) : 0;
+  const customer = order.customer;
+  const left = 50;
+  const right = pdf.page.width - 50;
+
+  // Shop header
+  pdf.fontSize(18).font('Helvetica-Bold').text(SHOP_DETAILS.name, left, 50);
+  pdf.fontSize(9).font('Helvetica');
+  [...SHOP_DETAILS.address, SHOP_DETAILS.email, SHOP_DETAILS.phone]
+    .filter(Boolean)
+    .forEach(line => pdf.text(line));
+  if (SHOP_DETAILS.vatNumber) pdf.text(`VAT No: ${SHOP_DETAILS.vatNumber}`);
+
+  pdf.fontSize(16).font('Helvetica-Bold').text(TITLES[type], left, 50, { align: 'right' });
+  pdf.fontSize(9).font('Helvetica');
+  if (invoiceNumber) pdf.text(`${NUMBER_LABELS[type] ?? 'Invoice No'}: ${invoiceNumber}`, { align: 'right' });
+  pdf.text(`Order: #${order.number ?? order.id}`, { align: 'right' });
+  if (type === 'quote') {
+    pdf.text(`Date: ${formatDate(properties.quote_issued_at)}`, { align: 'right' });
+    pdf.text(`Valid until: ${formatDate(properties.quote_expires_at)}`, { align: 'right' });
+    if (properties.quote_reference) pdf.text(`Your reference: ${properties.quote_reference}`, { align: 'right' });
+  } else {
+    pdf.text(`Date: ${formatDate(new Date().toISOString())}`, { align: 'right' });
+  }
+
+  // Customer and rental period
+  pdf.moveDown(3);
+  const blockTop = Math.max(pdf.y, 140);
+  pdf.fontSize(10).font('Helvetica-Bold').text(type !== 'packing' ? 'Bill to' : properties.delivery_method === 'collection' ? 'Collection by' : 'Deliver to', left, blockTop);
+  pdf.font('Helvetica').fontSize(9);
+  [
+    customer?.name,
+    customer?.email,
+    order.delivery_address_line_1 || customer?.address_line_1,
+    order.delivery_address_line_2 || customer?.address_line_2,
+    order.delivery_address_city || customer?.address_city,
+    order.delivery_address_zipcode || customer?.address_zipcode,
+  ].filter(Boolean).forEach(line => pdf.text(String(line)));
+
+  pdf.fontSize(10).font('Helvetica-Bold').text('Rental period', 330, blockTop);
+  pdf.font('Helvetica').fontSize(9)
+    .text(`${formatDate(order.starts_at)} – ${formatDate(order.stops_at)}`, 330);
+
+  // Line items
+  pdf.moveDown(4);
+  let y = Math.max(pdf.y, blockTop + 90);
+  const columns = type === 'packing'
+    ? [{ label: 'Item', x: left, width: 380 }, { label: 'Qty', x: 440, width: 50 }, { label: 'Packed', x: 495, width: 50 }]
+    : [{ label: 'Item', x: left, width: 260 }, { label: 'Qty', x: 320, width: 40 }, { label: 'Unit', x: 370, width: 80 }, { label: 'Total', x: 460, width: right - 460 }];
+
+  pdf.font('Helvetica-Bold').fontSize(9);
+  columns.forEach(col => pdf.text(col.label, col.x, y, { width: col.width, align: col.label === 'Item' ? 'left' : 'right' }));
+  y += 15;
+  pdf.moveTo(left, y).lineTo(right, y).stroke();
+  y += 6;
+  pdf.font('Helvetica');
+
+  for (const line of lines) {
+    const cells = type === 'packing'
+      ? [line.name, String(line.quantity)]
+      : [line.name, String(line.quantity), money(line.unit), money(line.total)];
+    const rowHeight = Math.max(14, pdf.heightOfString(line.name, { width: columns[0].width }) + 4);
+    if (y + rowHeight > pdf.page.height - 120) {
+      pdf.addPage();
+      y = 50;
+    }
+    cells.forEach((cell, i) => pdf.text(cell, columns[i].x, y, {
+      width: columns[i].width,
+      align: i === 0 ? 'left' : 'right',
+    }));
+    if (type === 'packing') pdf.rect(columns[2].x + columns[2].width - 10, y, 8, 8).stroke();
+    y += rowHeight;
+  }
+
+  pdf.moveTo(left, y).lineTo(right, y).stroke();
+  y += 10;
+
+  const summaryRow = (label: string, value: string, bold = false) => {
+    pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    pdf.text(label, 320, y, { width: 130, align: 'right' });
+    pdf.text(value, 460, y, { width: right - 460, align: 'right' });
+    y += 14;
+  };
+
+  if (type === 'packing') {
+    const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+    summaryRow('Total items', String(itemCount), true);
+    if (properties.delivery_method_label) summaryRow('Delivery', String(properties.delivery_method_label));
+    if (properties.special_instructions) {
+      y += 10;
+      pdf.font('Helvetica-Bold').text('Special instructions', left, y);
+      pdf.font('Helvetica').text(String(properties.special_instructions), left, pdf.y, { width: right - left });
+      y = pdf.y;
+    }
+    // Goes in the box so the customer knows how to send everything back
+    if (properties.return_instructions) {
+      y += 10;
+      pdf.font('Helvetica-Bold').text('Returns', left, y);
+      pdf.font('Helvetica').text(String(properties.return_instructions), left, pdf.y, { width: right - left });
+    }
+  } else {
+    summaryRow('Subtotal', money(subtotal));
+    if (deliveryFee > 0) summaryRow('Delivery', money(deliveryFee));
+    if (returnFee > 0) summaryRow('Return label', money(returnFee));
+    summaryRow('Order total', money(total), true);
+    y += 6;
+
+    const amount = documentAmount(type, order, total);
+    const label = type === 'deposit' ? 'Deposit due' : type === 'quote' ? 'Deposit on acceptance' : type === 'balance' ? 'Balance due' : 'Amount paid';
+    summaryRow(label, money(amount), true);
+
+    const vat = vatBreakdown(amount, orderVatRate(order));
+    summaryRow(`Net (excl. ${TAX_POLICY.label})`, money(vat.net));
+    summaryRow(describeTaxRate(vat.rate), money(vat.vat));
+    // VAT on the whole booking as worked out line by line at checkout
+    if (properties.vat_gbp) {
+      summaryRow(`${TAX_POLICY.label} on this booking`, money(Math.round(Number(properties.vat_gbp) * 100)));
+    }
+    // Orders are kept in GBP; show what the customer was charged in their own currency
+    const paidIn = getOrderCurrency(properties);
+    if (paidIn.currency !== BASE_CURRENCY) {
+      summaryRow(`${label} in ${paidIn.currency}`, formatOrderAmount(properties, amount / 100));
+      summaryRow('Exchange rate', `1 ${BASE_CURRENCY} = ${paidIn.exchange_rate} ${paidIn.currency}`);
+    }
+
+    if (type === 'receipt') {
+      y += 10;
+      pdf.font('Helvetica').fontSize(9);
+      if (properties.deposit_paid_date || properties.stripe_payment_intent_id) {
+        pdf.text(`Deposit received ${formatDate(properties.deposit_paid_date || order.created_at)}`, left, y);
+        y += 14;
+      }
+      if (isPaid(properties.final_paid)) {
+        pdf.text(`Balance received ${formatDate(properties.final_paid_date)}`, left, y);
+        y += 14;
+      }
+    }
+
+    if (type === 'quote') {
+      y += 10;
+      pdf.font('Helvetica').fontSize(9).text(
+        `These prices are held until ${formatDate(properties.quote_expires_at)}. Accept the quote from My Orders to pay the deposit and confirm the booking; `
+        + `the costumes are reserved once the deposit is paid. ${POLICY_TERMS.balance}.`,
+        left, y, { width: right - left },
+      );
+    }
+  }
+
+  pdf.fontSize(8).font('Helvetica').fillColor('#666666')
+    .text(`Thank you for renting with ${SHOP_DETAILS.name}.`, left, pdf.page.height - 70, { width: right - left, align: 'center' });
+
+  pdf.end();
+}
+
+// The same document as a Buffer, e.g. to attach to an email
+export function renderOrderDocumentBuffer(options: RenderOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => resolve(Buffer.concat(chunks)));
+    output.on('error', reject);
+    renderOrderDocument(options, output);
+  });
+}
+
+// Whether the order has any payment a receipt can be issued for
+export function hasReceivedPayment(order: BooqableOrder) {
+  const properties = order.properties || {};
+  return !!properties.stripe_payment_intent_id || isPaid(properties.deposit_paid) || isPaid(properties.final_paid);
+}
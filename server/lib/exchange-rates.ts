@@ -0,0 +1,106 @@
+// Exchange rates from the base currency (Booqable's GBP prices) to the other currencies customers pay in.
+// Rates are set by an admin and stored in Firestore (`exchange_rates/current`); until then the
+// defaults in shared/currency are used. Orders keep the rate they were booked at (`exchange_rate`),
+// so later payments and refunds on an order are converted exactly like the checkout was.
+
+import admin, { adminDb } from "./firebase-admin";
+import {
+  BASE_CURRENCY,
+  convertFromBase,
+  convertToBase,
+  CurrencyCode,
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRates,
+  formatConverted,
+  getExchangeRate,
+  normaliseCurrency,
+  SUPPORTED_CURRENCIES,
+} from "../../shared/currency";
+
+const RATES_DOC = 'exchange_rates/current';
+const CACHE_MS = 5 * 60 * 1000;
+
+let cached: { rates: ExchangeRates; loadedAt: number } | null = null;
+
+// Rates that can't be saved; the message is safe to show to the admin
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+export interface OrderCurrency {
+  currency: CurrencyCode;
+  exchange_rate: number;
+}
+
+export async function getExchangeRates(now: number = Date.now()): Promise<ExchangeRates> {
+  if (cached && now - cached.loadedAt < CACHE_MS) return cached.rates;
+
+  const snap = await adminDb.doc(RATES_DOC).get();
+  const stored = snap.exists ? snap.data() as Partial<ExchangeRates> : null;
+  const rates: ExchangeRates = {
+    base: BASE_CURRENCY,
+    rates: { ...DEFAULT_EXCHANGE_RATES.rates, ...stored?.rates, [BASE_CURRENCY]: 1 },
+    updated_at: stored?.updated_at ?? null,
+  };
+  cached = { rates, loadedAt: now };
+  return rates;
+}
+
+// Save new rates (units per 1 GBP); unknown currencies and non-positive rates are rejected
+export async function saveExchangeRates(updates: Record<string, unknown>, updatedBy: string) {
+  const rates: Partial<Record<CurrencyCode, number>> = {};
+  for (const [code, value] of Object.entries(updates || {})) {
+    const currency = normaliseCurrency(code);
+    const rate = Number(value);
+    if (!currency || currency === BASE_CURRENCY) {
+      throw new ExchangeRateError(`Unsupported currency ${code}; rates are per 1 ${BASE_CURRENCY} for ${SUPPORTED_CURRENCIES.filter(c => c !== BASE_CURRENCY).join(', ')}`);
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new ExchangeRateError(`Invalid rate for ${currency}`);
+    }
+    rates[currency] = rate;
+  }
+
+  await adminDb.doc(RATES_DOC).set({
+    base: BASE_CURRENCY,
+    rates,
+    updated_at: new Date().toISOString(),
+    updated_by: updatedBy,
+    saved_at: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+
+  cached = null;
+  return getExchangeRates();
+}
+
+// The currency and rate a checkout will be charged at
+export async function getCheckoutCurrency(currency: CurrencyCode): Promise<OrderCurrency> {
+  return { currency, exchange_rate: getExchangeRate(await getExchangeRates(), currency) };
+}
+
+// The currency an order was paid in; orders booked before multi-currency are in GBP
+export function getOrderCurrency(properties: Record<string, any> = {}): OrderCurrency {
+  const currency = normaliseCurrency(properties.currency) ?? BASE_CURRENCY;
+  const rate = parseFloat(properties.exchange_rate);
+  return {
+    currency,
+    exchange_rate: currency !== BASE_CURRENCY && rate > 0 ? rate : 1,
+  };
+}
+
+// Base-currency pence in the order's currency, in Stripe's minor units
+export const toChargeMinor = (basePence: number, { exchange_rate }: OrderCurrency) =>
+  Math.round(convertFromBase(basePence / 100, exchange_rate) * 100);
+
+// An amount Stripe reports in the order's currency, back in base-currency pence
+export const toBasePence = (minor: number, { exchange_rate }: OrderCurrency) =>
+  Math.round(convertToBase(minor / 100, exchange_rate) * 100);
+
+// An order amount (GBP) as the customer sees it, e.g. "€117.00" for an order paid in euro
+export function formatOrderAmount(properties: Record<string, any> | undefined, amount: number) {
+  const { currency, exchange_rate } = getOrderCurrency(properties);
+  return formatConverted(amount, currency, exchange_rate);
+}
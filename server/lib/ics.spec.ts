@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { parseIcs, unfoldLines } from "./ics";
+
+const window = {
+  from: new Date("2025-01-01T00:00:00Z"),
+  to: new Date("2025-12-31T00:00:00Z"),
+};
+
+const calendar = (...events: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...events, "END:VCALENDAR"].join("\r\n");
+
+describe("ics parser", () => {
+  it("unfolds continuation lines", () => {
+    expect(unfoldLines("SUMMARY:Order #12\r\n  - Swan Lake Tutu\r\nUID:1")).toEqual([
+      "SUMMARY:Order #12 - Swan Lake Tutu",
+      "UID:1",
+    ]);
+  });
+
+  it("treats all-day DTEND as exclusive", () => {
+    const [event] = parseIcs(calendar(
+      "BEGIN:VEVENT",
+      "UID:a",
+      "SUMMARY:Order #1",
+      "DTSTART;VALUE=DATE:20250310",
+      "DTEND;VALUE=DATE:20250318",
+      "END:VEVENT",
+    ), window);
+
+    expect(event.all_day).toBe(true);
+    expect(event.start_date).toBe("2025-03-10");
+    expect(event.end_date).toBe("2025-03-17");
+  });
+
+  it("converts TZID times to UTC", () => {
+    const [event] = parseIcs(calendar(
+      "BEGIN:VEVENT",
+      "UID:b",
+      "DTSTART;TZID=Europe/London:20250701T090000",
+      "DTEND;TZID=Europe/London:20250702T170000",
+      "END:VEVENT",
+    ), window);
+
+    expect(event.start).toBe("2025-07-01T08:00:00.000Z");
+    expect(event.end).toBe("2025-07-02T16:00:00.000Z");
+    expect(event.end_date).toBe("2025-07-02");
+  });
+
+  it("expands RRULE occurrences and honours EXDATE", () => {
+    const events = parseIcs(calendar(
+      "BEGIN:VEVENT",
+      "UID:c",
+      "DTSTART;VALUE=DATE:20250106",
+      "DTEND;VALUE=DATE:20250107",
+      "RRULE:FREQ=WEEKLY;COUNT=4",
+      "EXDATE;VALUE=DATE:20250113",
+      "END:VEVENT",
+    ), window);
+
+    expect(events.map(event => event.start_date)).toEqual(["2025-01-06", "2025-01-20", "2025-01-27"]);
+    expect(events.every(event => event.recurring)).toBe(true);
+  });
+});
@@ -0,0 +1,330 @@
+// iCalendar (RFC 5545) parser for Booqable calendar feeds.
+// Handles folded lines, escaped text, TZID/UTC/floating times, all-day events and RRULE recurrence.
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  url: string;
+  status: string;
+  start: string; // ISO timestamp (UTC)
+  end: string; // ISO timestamp (UTC), exclusive
+  all_day: boolean;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  recurring: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedDate {
+  date: Date;
+  allDay: boolean;
+  // Wall-clock fields and zone, kept so recurrences step in local time across DST changes
+  fields: number[];
+  timeZone: string;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: number[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_OCCURRENCES = 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Floating times (no TZID and no `Z`) are interpreted in this zone
+const DEFAULT_TIMEZONE = process.env.ICS_DEFAULT_TIMEZONE || 'Europe/London';
+
+// Undo RFC 5545 line folding: a CRLF followed by a space or tab continues the previous line
+export function unfoldLines(text: string) {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) {
+      params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string) {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\');
+}
+
+// Offset (ms) of a time zone from UTC at the given instant
+function timeZoneOffset(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// Convert a wall-clock time in `timeZone` to a UTC Date. Unknown zones fall back to UTC.
+export function zonedTimeToUtc(fields: number[], timeZone: string) {
+  const [y, m, d, hh, mm, ss] = fields;
+  const guess = Date.UTC(y, m, d, hh, mm, ss);
+  try {
+    const offset = timeZoneOffset(guess, timeZone);
+    const corrected = guess - offset;
+    // Second pass handles instants close to a DST change
+    const secondOffset = timeZoneOffset(corrected, timeZone);
+    return new Date(secondOffset === offset ? corrected : guess - secondOffset);
+  } catch {
+    return new Date(guess);
+  }
+}
+
+function parseDateValue(value: string, params: Record<string, string>): ParsedDate | null {
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (dateOnly || params.VALUE === 'DATE') {
+    const match = dateOnly || /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    if (!match) return null;
+    const fields = [+match[1], +match[2] - 1, +match[3], 0, 0, 0];
+    return { date: new Date(Date.UTC(fields[0], fields[1], fields[2])), allDay: true, fields, timeZone: 'UTC' };
+  }
+
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!dateTime) return null;
+
+  const fields = [+dateTime[1], +dateTime[2] - 1, +dateTime[3], +dateTime[4], +dateTime[5], +dateTime[6]];
+  const timeZone = dateTime[7] === 'Z' ? 'UTC' : params.TZID || DEFAULT_TIMEZONE;
+  return { date: zonedTimeToUtc(fields, timeZone), allDay: false, fields, timeZone };
+}
+
+// ISO 8601 duration as used by DURATION (e.g. P1D, PT2H30M, P1W)
+function parseDuration(value: string) {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+weeks || 0) * 7 * DAY_MS) + ((+days || 0) * DAY_MS)
+    + ((+hours || 0) * 3600000) + ((+minutes || 0) * 60000) + ((+seconds || 0) * 1000);
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(value: string, params: Record<string, string>): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  }
+
+  const freq = parts.FREQ as RecurrenceRule['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, params)?.date : undefined,
+    byDay: parts.BYDAY
+      ? parts.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0)
+      : undefined,
+  };
+}
+
+function addMonths(date: Date, months: number) {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + months);
+  // Skip months that do not have this day (e.g. the 31st)
+  return result.getUTCDate() === date.getUTCDate() ? result : null;
+}
+
+// Start times of every occurrence of a recurring event, in order
+function* occurrences(start: Date, rule: RecurrenceRule, windowEnd: Date) {
+  let emitted = 0;
+  const withinLimits = (date: Date) =>
+    (!rule.until || date <= rule.until) && (rule.count === undefined || emitted < rule.count) && date <= windowEnd;
+
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    const weekStart = start.getTime() - start.getUTCDay() * DAY_MS;
+    for (let i = 0; i < MAX_OCCURRENCES * 7; i++) {
+      const candidate = new Date(start.getTime() + i * DAY_MS);
+      if (!withinLimits(candidate)) return;
+      const week = Math.floor((candidate.getTime() - weekStart) / (7 * DAY_MS));
+      if (week % rule.interval === 0 && rule.byDay.includes(candidate.getUTCDay())) {
+        emitted++;
+        yield candidate;
+      }
+    }
+    return;
+  }
+
+  for (let i = 0; emitted < MAX_OCCURRENCES; i++) {
+    let candidate: Date | null;
+    switch (rule.freq) {
+      case 'DAILY':
+        candidate = new Date(start.getTime() + i * rule.interval * DAY_MS);
+        break;
+      case 'WEEKLY':
+        candidate = new Date(start.getTime() + i * rule.interval * 7 * DAY_MS);
+        break;
+      case 'MONTHLY':
+        candidate = addMonths(start, i * rule.interval);
+        break;
+      case 'YEARLY':
+        candidate = addMonths(start, i * rule.interval * 12);
+        break;
+    }
+    if (!candidate) continue;
+    if (!withinLimits(candidate)) return;
+    emitted++;
+    yield candidate;
+  }
+}
+
+// YYYY-MM-DD of an instant in the feed's local time zone
+function localDateKey(date: Date) {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: DEFAULT_TIMEZONE }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+function toEvent(base: Omit<IcsEvent, 'start' | 'end' | 'start_date' | 'end_date'>, start: Date, end: Date): IcsEvent {
+  const startDate = base.all_day ? start.toISOString().slice(0, 10) : localDateKey(start);
+  // DTEND is exclusive: an all-day event ending on the 5th occupies up to the 4th
+  const lastInstant = new Date(Math.max(start.getTime(), end.getTime() - 1));
+  const endDate = base.all_day ? lastInstant.toISOString().slice(0, 10) : localDateKey(lastInstant);
+
+  return {
+    ...base,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    start_date: startDate,
+    end_date: endDate < startDate ? startDate : endDate,
+  };
+}
+
+// Parse a feed into events. Recurring events are expanded into occurrences that overlap the window.
+export function parseIcs(text: string, window: { from: Date; to: Date }): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const raw of unfoldLines(text)) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      if (current) events.push(...buildEvents(current, window));
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return events.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function buildEvents(lines: ContentLine[], window: { from: Date; to: Date }): IcsEvent[] {
+  const get = (name: string) => lines.find(line => line.name === name);
+
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseDateValue(dtStart.value, dtStart.params) : null;
+  if (!start) return [];
+
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  let endMs: number;
+  if (dtEnd && parseDateValue(dtEnd.value, dtEnd.params)) {
+    endMs = parseDateValue(dtEnd.value, dtEnd.params)!.date.getTime();
+  } else if (duration && parseDuration(duration.value) !== null) {
+    endMs = start.date.getTime() + parseDuration(duration.value)!;
+  } else {
+    // RFC 5545: no end means one day for all-day events and an instant otherwise
+    endMs = start.date.getTime() + (start.allDay ? DAY_MS : 0);
+  }
+  const length = Math.max(0, endMs - start.date.getTime());
+
+  const rruleLine = get('RRULE');
+  const base = {
+    uid: get('UID')?.value || '',
+    summary: unescapeText(get('SUMMARY')?.value || ''),
+    description: unescapeText(get('DESCRIPTION')?.value || ''),
+    location: unescapeText(get('LOCATION')?.value || ''),
+    url: get('URL')?.value || '',
+    status: (get('STATUS')?.value || '').toUpperCase(),
+    all_day: start.allDay,
+    recurring: !!rruleLine,
+  };
+
+  const overlapsWindow = (from: Date, to: Date) => from <= window.to && to > window.from;
+
+  const rule = rruleLine ? parseRule(rruleLine.value, dtStart!.params) : null;
+  if (!rule) {
+    const end = new Date(start.date.getTime() + length);
+    return overlapsWindow(start.date, end) || (length === 0 && start.date >= window.from && start.date <= window.to)
+      ? [toEvent(base, start.date, end)]
+      : [];
+  }
+
+  const excluded = new Set(
+    lines
+      .filter(line => line.name === 'EXDATE')
+      .flatMap(line => line.value.split(',').map(value => parseDateValue(value, line.params)?.date.getTime()))
+      .filter((time): time is number => time !== undefined),
+  );
+
+  // Step through occurrences in wall-clock time, then convert each back to UTC
+  const [y, m, d, hh, mm, ss] = start.fields;
+  const wallStart = new Date(Date.UTC(y, m, d, hh, mm, ss));
+  const toUtc = (wall: Date) => start.allDay ? wall : zonedTimeToUtc([
+    wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+    wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(),
+  ], start.timeZone);
+
+  const result: IcsEvent[] = [];
+  for (const wall of occurrences(wallStart, rule, new Date(window.to.getTime() + DAY_MS))) {
+    const occurrenceStart = toUtc(wall);
+    if (excluded.has(occurrenceStart.getTime())) continue;
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + length);
+    if (overlapsWindow(occurrenceStart, occurrenceEnd)) {
+      result.push(toEvent(base, occurrenceStart, occurrenceEnd));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,186 @@
+// Temporary inventory holds. While a customer is paying in Stripe Checkout, the quantities and dates
+// in their cart are held in Firestore so nobody else can book them. A hold lasts as long as the
+// Checkout Session: it is released when the session expires or the customer comes back from
+// Stripe without paying, converted once the Booqable order exists, and simply stops counting once
+// `expires_at` has passed.
+
+import admin, { adminDb } from "./firebase-admin";
+
+const HOLDS_COLLECTION = 'inventory_holds';
+// One document per product, written by every hold on it so holds for the same stock are placed one at a time
+const LOCKS_COLLECTION = 'inventory_hold_locks';
+
+// Checkout Sessions (and so holds) expire after this long; Stripe's minimum is 30 minutes
+export const CHECKOUT_HOLD_MINUTES = 30;
+
+export type InventoryHoldStatus = 'active' | 'released' | 'converted';
+
+export interface HeldLine {
+  product_id: string;
+  size?: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+}
+
+export interface InventoryHold {
+  session_id: string;
+  status: InventoryHoldStatus;
+  lines: HeldLine[];
+  // Lets holds be looked up by product with an array-contains query
+  product_ids: string[];
+  // Signed-in customer who placed the hold; a new checkout of theirs replaces it
+  holder?: string;
+  // Sent back in the session's cancel URL so the customer can release the hold without signing in
+  cancel_token?: string;
+  expires_at: FirebaseFirestore.Timestamp;
+  created_at?: FirebaseFirestore.Timestamp;
+  released_at?: FirebaseFirestore.Timestamp;
+  release_reason?: string;
+}
+
+// When a Checkout Session created now should expire, in Stripe's unix seconds
+export function checkoutExpiresAt(now: Date = new Date()) {
+  return Math.floor(now.getTime() / 1000) + CHECKOUT_HOLD_MINUTES * 60;
+}
+
+// Holds on a product that still count towards its availability
+const liveHoldsQuery = (productId: string, now: Date) => adminDb.collection(HOLDS_COLLECTION)
+  .where('product_ids', 'array-contains', productId)
+  .where('status', '==', 'active')
+  .where('expires_at', '>', admin.firestore.Timestamp.fromDate(now));
+
+export interface PlaceHoldOptions<T> {
+  holder?: string;
+  cancel_token?: string;
+  // Availability check against every other live hold on the same products (`held`), run in the
+  // transaction that places the hold; if it returns conflicts nothing is held
+  findConflicts?: (held: HeldLine[]) => Promise<T[]>;
+}
+
+// Hold the cart lines of a Checkout Session until the session expires (`expiresAt` in unix seconds).
+// Holds on the same products are placed one at a time, so two customers checking out the last
+// costume at once can't both get it.
+export async function placeInventoryHold<T = never>(
+  sessionId: string,
+  lines: HeldLine[],
+  expiresAt: number,
+  { holder, cancel_token, findConflicts }: PlaceHoldOptions<T> = {},
+): Promise<{ hold: InventoryHold | null; conflicts: T[] }> {
+  const hold: InventoryHold = {
+    session_id: sessionId,
+    status: 'active',
+    lines: lines.map(({ product_id, size, quantity, start_date, end_date }) => ({
+      product_id,
+      ...(size && { size }),
+      quantity,
+      start_date,
+      end_date,
+    })),
+    product_ids: [...new Set(lines.map(line => line.product_id))].sort(),
+    ...(holder && { holder }),
+    ...(cancel_token && { cancel_token }),
+    expires_at: admin.firestore.Timestamp.fromMillis(expiresAt * 1000),
+  };
+  const lockRefs = hold.product_ids.map(productId => adminDb.collection(LOCKS_COLLECTION).doc(productId));
+
+  return adminDb.runTransaction(async (tx) => {
+    const now = new Date();
+    await Promise.all(lockRefs.map(ref => tx.get(ref)));
+    const snaps = await Promise.all(hold.product_ids.map(productId => tx.get(liveHoldsQuery(productId, now))));
+
+    const seen = new Set<string>([sessionId]);
+    const held: HeldLine[] = [];
+    for (const doc of snaps.flatMap(snap => snap.docs)) {
+      if (seen.has(doc.id)) continue;
+      seen.add(doc.id);
+      held.push(...(doc.data() as InventoryHold).lines);
+    }
+
+    const conflicts = findConflicts ? await findConflicts(held) : [];
+    if (conflicts.length > 0) return { hold: null, conflicts };
+
+    for (const ref of lockRefs) {
+      tx.set(ref, { updated_at: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    tx.set(adminDb.collection(HOLDS_COLLECTION).doc(sessionId), {
+      ...hold,
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { hold, conflicts };
+  });
+}
+
+// Held lines for a product that overlap the window, excluding expired and released holds
+export async function getHeldLines(
+  productId: string,
+  startDate: string,
+  endDate: string,
+  now: Date = new Date(),
+): Promise<HeldLine[]> {
+  const snap = await liveHoldsQuery(productId, now).get();
+
+  return snap.docs
+    .flatMap(doc => (doc.data() as InventoryHold).lines)
+    .filter(line => line.product_id === productId && line.start_date <= endDate && line.end_date >= startDate);
+}
+
+async function closeHold(sessionId: string, status: Exclude<InventoryHoldStatus, 'active'>, reason: string) {
+  const ref = adminDb.collection(HOLDS_COLLECTION).doc(sessionId);
+
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || (snap.data() as InventoryHold).status !== 'active') return false;
+
+    tx.update(ref, {
+      status,
+      release_reason: reason,
+      released_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// The session expired or was abandoned; the stock is free again
+export async function releaseInventoryHold(sessionId: string, reason = 'checkout_expired') {
+  return closeHold(sessionId, 'released', reason);
+}
+
+// Sessions of the signed-in customer's checkouts that still hold stock
+export async function getHolderSessions(holder: string) {
+  const snap = await adminDb.collection(HOLDS_COLLECTION)
+    .where('holder', '==', holder)
+    .where('status', '==', 'active')
+    .get();
+  return snap.docs.map(doc => doc.id);
+}
+
+// The session a cancel URL token belongs to, if its hold is still active
+export async function findHoldByCancelToken(cancelToken: string) {
+  const snap = await adminDb.collection(HOLDS_COLLECTION)
+    .where('cancel_token', '==', cancelToken)
+    .where('status', '==', 'active')
+    .limit(1)
+    .get();
+  return snap.empty ? null : snap.docs[0].id;
+}
+
+// The session was paid and the Booqable order now reserves the stock itself
+export async function convertInventoryHold(sessionId: string) {
+  return closeHold(sessionId, 'converted', 'order_created');
+}
+
+// Mark holds whose session expired without a webhook as released. Expired holds already stop
+// counting towards availability; this only tidies up the records.
+export async function releaseExpiredHolds(now: Date = new Date()) {
+  const snap = await adminDb.collection(HOLDS_COLLECTION)
+    .where('status', '==', 'active')
+    .where('expires_at', '<=', admin.firestore.Timestamp.fromDate(now))
+    .get();
+
+  const sessionIds: string[] = [];
+  for (const doc of snap.docs) {
+    if (await releaseInventoryHold(doc.id, 'timeout')) sessionIds.push(doc.id);
+  }
+  return { checked: snap.size, released: sessionIds.length, session_ids: sessionIds };
+}
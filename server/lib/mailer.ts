@@ -0,0 +1,42 @@
+// Outgoing email is queued in Firestore and delivered by the Firebase "Trigger Email" extension,
+// which watches the collection below and sends each document it finds.
+
+import admin, { adminDb } from "./firebase-admin";
+
+const MAIL_COLLECTION = process.env.MAIL_COLLECTION || 'mail';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Stored base64-encoded in the mail document, so keep them small (Firestore documents max out at 1 MB)
+  attachments?: EmailAttachment[];
+}
+
+export async function queueEmail(message: EmailMessage) {
+  const ref = await adminDb.collection(MAIL_COLLECTION).add({
+    to: message.to,
+    message: {
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+      ...(message.attachments?.length && {
+        attachments: message.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content.toString('base64'),
+          encoding: 'base64',
+          ...(attachment.contentType && { contentType: attachment.contentType }),
+        })),
+      }),
+    },
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
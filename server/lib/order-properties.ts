@@ -0,0 +1,73 @@
+// Booqable replaces an order's properties wholesale on update, so two writers reading and writing
+// the same order at once (a payment webhook and the reminder job, say) would drop each other's
+// fields. Writes that may race go through updateOrderProperties: it holds a short Firestore lease
+// on the order, re-reads it and merges in only the fields being changed.
+
+import { randomUUID } from "crypto";
+import admin, { adminDb } from "./firebase-admin";
+import { booqable, BooqableOrder } from "./booqable-client";
+
+const LOCKS_COLLECTION = 'order_property_locks';
+// A lock left behind by a request that died is taken over after this long
+const LOCK_LEASE_MS = 30 * 1000;
+const LOCK_RETRY_MS = 250;
+const LOCK_ATTEMPTS = 40;
+
+export interface OrderPropertyUpdate {
+  // Only the properties being changed; the rest are kept as they are now
+  properties: Record<string, any>;
+  status?: string;
+  payment_status?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function acquireLock(orderId: string, token: string) {
+  const ref = adminDb.collection(LOCKS_COLLECTION).doc(orderId);
+
+  for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt++) {
+    const acquired = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const lockedAt = snap.exists ? (snap.data()!.locked_at as FirebaseFirestore.Timestamp).toMillis() : 0;
+      if (Date.now() - lockedAt < LOCK_LEASE_MS) return false;
+
+      tx.set(ref, { token, locked_at: admin.firestore.Timestamp.now() });
+      return true;
+    });
+    if (acquired) return;
+    await sleep(LOCK_RETRY_MS);
+  }
+  throw new Error(`Order ${orderId} is locked by another update`);
+}
+
+async function releaseLock(orderId: string, token: string) {
+  const ref = adminDb.collection(LOCKS_COLLECTION).doc(orderId);
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists && snap.data()!.token === token) tx.delete(ref);
+  });
+}
+
+// `update` is given the order as it is now and returns the changes, or null to leave it alone
+export async function updateOrderProperties(
+  orderId: string,
+  update: (order: BooqableOrder) => Promise<OrderPropertyUpdate | null> | OrderPropertyUpdate | null,
+) {
+  const token = randomUUID();
+  await acquireLock(orderId, token);
+  try {
+    const { order } = await booqable.orders.get(orderId);
+    const changes = await update(order);
+    if (!changes) return order;
+
+    const { properties, ...fields } = changes;
+    const { order: updated } = await booqable.orders.update(orderId, {
+      ...fields,
+      properties: { ...order.properties, ...properties },
+    });
+    return updated;
+  } finally {
+    await releaseLock(orderId, token).catch(error =>
+      console.warn(`Failed to release property lock for order ${orderId}:`, error));
+  }
+}
@@ -0,0 +1,241 @@
+// Payment ledger for a Booqable order: what has been paid through Stripe, what has been refunded
+// and what is still outstanding. Payments are recorded on the order's properties and confirmed
+// against Stripe, so the ledger never trusts amounts supplied by the client.
+// The ledger is kept in GBP like the Booqable order; Stripe amounts in the order's currency are
+// converted at the rate locked at checkout.
+
+import Stripe from "stripe";
+import { stripe } from "./stripe-client";
+import { BooqableOrder } from "./booqable-client";
+import { updateOrderProperties } from "./order-properties";
+import { getOrderCurrency, toBasePence } from "./exchange-rates";
+import type { CurrencyCode } from "../../shared/currency";
+import { calculateDeposit, calculatePaymentSchedule } from "../../shared/payment-policy";
+
+export type PaymentType = 'deposit' | 'final';
+
+export interface RecordedPayment {
+  payment_intent_id: string;
+  type: PaymentType;
+  // Amount of this payment attributable to the order, in pence (GBP)
+  amount: number;
+  paid_at?: string;
+}
+
+export interface LedgerEntry {
+  payment_intent_id: string;
+  type: PaymentType;
+  amount: number; // pounds
+  refunded: number; // pounds
+  status: string;
+  paid_at: string | null;
+}
+
+export interface PaymentLedger {
+  order_id: string;
+  currency: 'gbp';
+  // Currency the customer pays in and units of it per 1 GBP; every amount here is GBP
+  charge_currency: CurrencyCode;
+  exchange_rate: number;
+  total_amount: number;
+  deposit_amount: number;
+  balance_amount: number;
+  amount_paid: number;
+  amount_refunded: number;
+  net_paid: number;
+  outstanding: number;
+  deposit_outstanding: number;
+  deposit_due_date: string;
+  final_due_date: string;
+  overdue: boolean;
+  days_overdue: number;
+  entries: LedgerEntry[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const CANCELLED_STATUSES = new Set(['canceled', 'cancelled', 'archived']);
+
+const toPence = (value: unknown) => {
+  const amount = parseFloat(String(value ?? ''));
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) : 0;
+};
+
+// Checkout takes a single deposit for every booking in the session; this order's part of it
+// is proportional to its subtotal.
+export function checkoutShare(properties: Record<string, any>) {
+  const bookingCount = parseInt(properties.booking_count || '1', 10);
+  const subtotal = parseFloat(properties.booking_subtotal_gbp);
+  const orderTotal = parseFloat(properties.order_total_gbp);
+  if (bookingCount > 1 && subtotal > 0 && orderTotal > 0) {
+    return Math.min(1, subtotal / orderTotal);
+  }
+  return 1;
+}
+
+// What the customer owes for the order, in pence: its share of the checkout total, which includes
+// the delivery and return fees and the tiered and weekend prices that Booqable doesn't know about.
+// Orders without a checkout total (made in Booqable directly) use Booqable's own total.
+export function getOrderTotalPence(order: BooqableOrder) {
+  const properties = order.properties || {};
+  const checkoutTotal = toPence(properties.order_total_gbp);
+  if (checkoutTotal > 0) return Math.round(checkoutTotal * checkoutShare(properties));
+  return Math.round(Number(order.total_in_cents) || 0);
+}
+
+function parseStripePayments(value: unknown): RecordedPayment[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Payments recorded against an order, one entry per payment intent.
+// Checkout records `stripe_payment_intent_id`; balance payments are appended to `stripe_payments`.
+// `deposit_/final_payment_intent_id` are read for orders paid before the ledger existed.
+export function getRecordedPayments(order: BooqableOrder): RecordedPayment[] {
+  const properties = order.properties || {};
+  const payments = new Map<string, RecordedPayment>();
+  const add = (paymentIntentId: unknown, type: PaymentType, amount: number, paidAt?: string) => {
+    if (typeof paymentIntentId !== 'string' || !paymentIntentId || amount <= 0 || payments.has(paymentIntentId)) return;
+    payments.set(paymentIntentId, { payment_intent_id: paymentIntentId, type, amount, paid_at: paidAt });
+  };
+
+  add(properties.stripe_payment_intent_id, 'deposit',
+    Math.round(toPence(properties.total_amount_paid) * checkoutShare(properties)), order.created_at);
+  for (const payment of parseStripePayments(properties.stripe_payments)) {
+    add(payment.payment_intent_id, payment.type, Math.round(Number(payment.amount) || 0), payment.paid_at);
+  }
+  add(properties.deposit_payment_intent_id, 'deposit', toPence(properties.deposit_amount), properties.deposit_paid_date);
+  add(properties.final_payment_intent_id, 'final', toPence(properties.final_amount), properties.final_paid_date);
+
+  return [...payments.values()];
+}
+
+// Confirm a recorded payment with Stripe: only succeeded payments count, and refunds made
+// for this order (or the whole payment, when it isn't shared) are subtracted.
+async function confirmPayment(order: BooqableOrder, payment: RecordedPayment): Promise<LedgerEntry> {
+  const entry: LedgerEntry = {
+    payment_intent_id: payment.payment_intent_id,
+    type: payment.type,
+    amount: payment.amount / 100,
+    refunded: 0,
+    status: 'recorded',
+    paid_at: payment.paid_at || null,
+  };
+  if (!stripe) return entry;
+
+  const paidIn = getOrderCurrency(order.properties);
+  const [intent, refunds] = await Promise.all([
+    stripe.paymentIntents.retrieve(payment.payment_intent_id),
+    stripe.refunds.list({ payment_intent: payment.payment_intent_id, limit: 100 }),
+  ]);
+
+  const received = intent.status === 'succeeded' ? Math.min(payment.amount, toBasePence(intent.amount_received, paidIn)) : 0;
+  const refunded = refunds.data
+    .filter(refund => refund.status !== 'failed' && refund.status !== 'canceled')
+    .filter(refund => !refund.metadata?.booqable_order_id || refund.metadata.booqable_order_id === order.id)
+    .reduce((sum, refund) => sum + toBasePence(refund.amount, paidIn), 0);
+
+  return {
+    ...entry,
+    amount: received / 100,
+    refunded: Math.min(received, refunded) / 100,
+    status: intent.status,
+    paid_at: entry.paid_at || new Date(intent.created * 1000).toISOString(),
+  };
+}
+
+export async function getPaymentLedger(order: BooqableOrder, now: Date = new Date()): Promise<PaymentLedger> {
+  const totalPence = getOrderTotalPence(order);
+  const schedule = calculatePaymentSchedule(totalPence / 100, order.starts_at, order.created_at || now);
+  const depositPence = Math.round(calculateDeposit(totalPence / 100).deposit * 100);
+
+  const entries = await Promise.all(getRecordedPayments(order).map(payment => confirmPayment(order, payment)));
+  const paidPence = entries.reduce((sum, entry) => sum + Math.round(entry.amount * 100), 0);
+  const refundedPence = entries.reduce((sum, entry) => sum + Math.round(entry.refunded * 100), 0);
+  const netPence = paidPence - refundedPence;
+
+  const cancelled = CANCELLED_STATUSES.has(order.status);
+  const outstandingPence = cancelled ? 0 : Math.max(0, totalPence - netPence);
+  const overdueMs = now.getTime() - new Date(schedule.final_due_date).getTime();
+  const overdue = outstandingPence > 0 && overdueMs > 0;
+
+  const paidIn = getOrderCurrency(order.properties);
+
+  return {
+    order_id: order.id,
+    currency: 'gbp',
+    charge_currency: paidIn.currency,
+    exchange_rate: paidIn.exchange_rate,
+    total_amount: totalPence / 100,
+    deposit_amount: schedule.deposit_amount,
+    balance_amount: schedule.final_amount,
+    amount_paid: paidPence / 100,
+    amount_refunded: refundedPence / 100,
+    net_paid: netPence / 100,
+    outstanding: outstandingPence / 100,
+    deposit_outstanding: cancelled ? 0 : Math.max(0, depositPence - netPence) / 100,
+    deposit_due_date: schedule.deposit_due_date,
+    final_due_date: schedule.final_due_date,
+    overdue,
+    days_overdue: overdue ? Math.ceil(overdueMs / DAY_MS) : 0,
+    entries,
+  };
+}
+
+// Record a completed Stripe Checkout payment (deposit or balance) on the Booqable order.
+// Safe to call more than once for the same session.
+export async function recordOrderPayment(orderId: string, paymentType: PaymentType, session: Stripe.Checkout.Session) {
+  const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+  if (!paymentIntentId) {
+    throw new Error(`Checkout session ${session.id} has no payment intent`);
+  }
+  return recordPayment(orderId, paymentType, paymentIntentId, session.amount_total || 0);
+}
+
+// Record a payment charged directly to a saved card (off-session balance payments)
+export async function recordOrderPaymentIntent(orderId: string, paymentType: PaymentType, intent: Stripe.PaymentIntent) {
+  return recordPayment(orderId, paymentType, intent.id, intent.amount_received || intent.amount);
+}
+
+// `chargedAmount` is in Stripe's minor units of the order's currency
+// The order is re-read under its property lock, so concurrent payments are both kept
+async function recordPayment(orderId: string, paymentType: PaymentType, paymentIntentId: string, chargedAmount: number) {
+  let ledger!: PaymentLedger;
+
+  await updateOrderProperties(orderId, async (order) => {
+    const properties = order.properties || {};
+    const recorded = parseStripePayments(properties.stripe_payments);
+
+    if (!getRecordedPayments(order).some(payment => payment.payment_intent_id === paymentIntentId)) {
+      recorded.push({
+        payment_intent_id: paymentIntentId,
+        type: paymentType,
+        amount: toBasePence(chargedAmount, getOrderCurrency(properties)),
+        paid_at: new Date().toISOString(),
+      });
+    }
+
+    const changes: Record<string, any> = { stripe_payments: JSON.stringify(recorded) };
+    ledger = await getPaymentLedger({ ...order, properties: { ...properties, ...changes } });
+    const paidAt = new Date().toISOString();
+
+    changes[`${paymentType}_paid`] = 'true';
+    changes[`${paymentType}_paid_date`] = properties[`${paymentType}_paid_date`] || paidAt;
+    if (ledger.outstanding === 0) {
+      changes.final_paid = 'true';
+      changes.final_paid_date = changes.final_paid_date || properties.final_paid_date || paidAt;
+      changes.balance_overdue = 'false';
+    }
+
+    return {
+      properties: changes,
+      payment_status: ledger.outstanding === 0 ? 'paid' : 'partially_paid',
+    };
+  });
+
+  return ledger;
+}
@@ -0,0 +1,241 @@
+// Server-side price authority: every amount charged at checkout is computed here from
+// Booqable product data, never from prices supplied by the client.
+
+import type { CheckoutPriceBreakdown, PricedLine } from "@shared/api";
+import { calculateDeliveryFee, calculateDeposit, getSecurityDepositPerUnit } from "../../shared/payment-policy";
+import type { PromoDiscount } from "../../shared/promo-codes";
+import { calculateTax, summariseTax } from "../../shared/tax";
+import { BASE_CURRENCY, convertFromBase } from "../../shared/currency";
+import { PriceTile, ProductPricing, quoteRental, rentalDaysBetween } from "../../shared/rental-pricing";
+import { applyVolumeDiscount, getVolumeDiscountPercents } from "../../shared/group-orders";
+import { DEFAULT_DELIVERY_METHOD, DEFAULT_RETURN_METHOD, DeliveryCharges, DeliveryMethodId, ReturnMethodId } from "../../shared/delivery";
+import { booqable, BooqableProduct } from "./booqable-client";
+import type { OrderCurrency } from "./exchange-rates";
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+// Amounts may differ by up to this many pence due to rounding on the client
+export const PRICE_TOLERANCE_PENCE = 1;
+
+export interface PriceableItem {
+  product_id: string;
+  size?: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+}
+
+export { rentalDaysBetween };
+
+// Base price of a product in pence, handling the different field names Booqable uses
+export function getBasePricePence(product: BooqableProduct) {
+  if (product.base_price_in_cents != null) return Math.round(Number(product.base_price_in_cents));
+  if (product.price_in_cents != null) return Math.round(Number(product.price_in_cents));
+  if (product.base_price != null) return Math.round(parseFloat(product.base_price) * 100);
+  return 0;
+}
+
+// A GBP amount from a product property, or null when it isn't set
+function priceProperty(value: unknown) {
+  const amount = parseFloat(String(value ?? ''));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+// Booqable price tiles (multipliers of the base price over a length in seconds) as flat prices
+async function getPriceTiles(priceStructureId: string, basePrice: number): Promise<PriceTile[]> {
+  const { price_structure } = await booqable.priceStructures.get(priceStructureId);
+  return (price_structure?.price_tiles || [])
+    .map(tile => ({ days: Math.round(Number(tile.length) / DAY_SECONDS), multiplier: Number(tile.multiplier) }))
+    .filter(tile => tile.days > 0 && !isNaN(tile.multiplier))
+    .map(tile => ({ days: tile.days, price: Math.round(basePrice * tile.multiplier * 100) / 100 }));
+}
+
+// How a product is priced: its Booqable base price and price structure, plus the `extra_day_price`
+// and `weekend_price` properties (GBP per unit) for the cheaper extra days and weekend rate
+export async function getProductPricing(product: BooqableProduct): Promise<ProductPricing> {
+  const basePrice = getBasePricePence(product) / 100;
+  const tiles = product.price_type === 'structure' && product.price_structure_id
+    ? await getPriceTiles(product.price_structure_id, basePrice)
+    : [];
+
+  return {
+    base_price: basePrice,
+    period: product.price_period === 'week' ? 'week' : 'day',
+    structure: {
+      tiles,
+      extra_day_price: priceProperty(product.properties?.extra_day_price),
+      weekend_price: priceProperty(product.properties?.weekend_price),
+    },
+  };
+}
+
+// Sizes a costume is offered in (the `sizes` property, stored as a list or comma-separated text)
+export function getProductSizes(product: BooqableProduct): string[] {
+  const sizes = product.properties?.sizes ?? product.sizes;
+  const list = Array.isArray(sizes) ? sizes : typeof sizes === 'string' ? sizes.split(',') : [];
+  return list.map(size => String(size).trim()).filter(Boolean);
+}
+
+// Names of the collections a product belongs to, from a product fetched with `include: 'collections'`
+export function getCollectionNames(product: BooqableProduct, included: any[] = []) {
+  const collectionIds = product.relationships?.collections?.data?.map((c: any) => c.id) || [];
+  return included
+    .filter(inc => inc.type === 'collections' && (collectionIds.length === 0 || collectionIds.includes(inc.id)))
+    .map(inc => inc.attributes?.name ?? inc.name)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+// Security deposit per unit in pence; set per product with the `security_deposit` property (GBP)
+export function getSecurityDepositPence(product: BooqableProduct, collectionNames: string[] = []) {
+  const productDeposit = parseFloat(product.properties?.security_deposit);
+  return Math.round(getSecurityDepositPerUnit(Number.isFinite(productDeposit) ? productDeposit : null, collectionNames) * 100);
+}
+
+// Price a single cart line from the Booqable product
+export async function priceLine(item: PriceableItem, product: BooqableProduct, collectionNames: string[] = []): Promise<PricedLine> {
+  const quote = quoteRental(await getProductPricing(product), item.start_date, item.end_date);
+  const unitPence = Math.round(quote.unit_price * 100);
+
+  return {
+    product_id: item.product_id,
+    ...(item.size && { size: item.size }),
+    name: product.name,
+    sku: product.sku || '',
+    image: product.photo_url || undefined,
+    quantity: item.quantity,
+    start_date: item.start_date,
+    end_date: item.end_date,
+    rental_days: quote.rental_days,
+    price_per_day: quote.price_per_day,
+    unit_price: quote.unit_price,
+    line_total: (unitPence * item.quantity) / 100,
+    pricing_method: quote.pricing_method,
+    price_components: quote.components,
+    security_deposit: (getSecurityDepositPence(product, collectionNames) * item.quantity) / 100,
+    collections: collectionNames,
+  };
+}
+
+// Group orders: the volume discount for a costume's total units (every size, same dates) comes off
+// each of its lines' unit price, so Stripe line items and VAT are worked out on the discounted price
+export function applyVolumeDiscounts(lines: PricedLine[]): PricedLine[] {
+  const percents = getVolumeDiscountPercents(lines);
+  return lines.map((line, index) => {
+    const percent = percents[index];
+    if (!percent) return line;
+
+    const listPence = Math.round(line.unit_price * 100);
+    const unitPence = Math.round(applyVolumeDiscount(line.unit_price, percent) * 100);
+    return {
+      ...line,
+      price_per_day: Math.round(unitPence / line.rental_days) / 100,
+      unit_price: unitPence / 100,
+      line_total: (unitPence * line.quantity) / 100,
+      volume_discount_percent: percent,
+      volume_discount: ((listPence - unitPence) * line.quantity) / 100,
+    };
+  });
+}
+
+export interface BreakdownOptions {
+  promo?: { code: string; discount: PromoDiscount };
+  // Fees for the chosen delivery and return methods; without them standard courier delivery is quoted
+  delivery?: DeliveryCharges & { delivery_method: DeliveryMethodId; return_method: ReturnMethodId };
+}
+
+// Build the full checkout breakdown from already-priced lines, less any promo code discount.
+// Free delivery is judged on the subtotal before the discount. VAT is worked out per line on the
+// discounted amount (and on the fees); when prices exclude VAT it is added to the grand total.
+export function buildBreakdown(lines: PricedLine[], { promo, delivery }: BreakdownOptions = {}): CheckoutPriceBreakdown {
+  const subtotalPence = lines.reduce((sum, line) => sum + Math.round(line.line_total * 100), 0);
+  const discountPence = Math.min(Math.round((promo?.discount.amount ?? 0) * 100), subtotalPence);
+  const deliveryPence = Math.round((delivery?.delivery_fee ?? calculateDeliveryFee(subtotalPence / 100)) * 100);
+  const returnPence = Math.round((delivery?.return_fee ?? 0) * 100);
+
+  const pricedLines = promo
+    ? lines.map((line, index) => ({ ...line, discount: promo.discount.line_amounts[index] || 0 }))
+    : lines;
+  const lineTaxes = pricedLines.map(line => calculateTax(line.line_total - (line.discount || 0)));
+  const tax = summariseTax([...lineTaxes, calculateTax(deliveryPence / 100), calculateTax(returnPence / 100)]);
+  const addedTaxPence = tax.inclusive ? 0 : Math.round(tax.tax * 100);
+
+  const grandTotalPence = subtotalPence - discountPence + deliveryPence + returnPence + addedTaxPence;
+  const { deposit, balance } = calculateDeposit(grandTotalPence / 100);
+  const securityDepositPence = lines.reduce((sum, line) => sum + Math.round((line.security_deposit || 0) * 100), 0);
+  const volumeDiscountPence = lines.reduce((sum, line) => sum + Math.round((line.volume_discount || 0) * 100), 0);
+
+  return {
+    lines: pricedLines.map((line, index) => ({ ...line, tax: lineTaxes[index].tax })),
+    subtotal: subtotalPence / 100,
+    volume_discount: volumeDiscountPence / 100,
+    discount: discountPence / 100,
+    promo_code: promo?.code ?? null,
+    delivery_method: delivery?.delivery_method ?? DEFAULT_DELIVERY_METHOD,
+    return_method: delivery?.return_method ?? DEFAULT_RETURN_METHOD,
+    delivery_zone: delivery?.zone ?? null,
+    delivery_fee: deliveryPence / 100,
+    return_fee: returnPence / 100,
+    tax,
+    grand_total: grandTotalPence / 100,
+    deposit,
+    balance_due: balance,
+    security_deposit: securityDepositPence / 100,
+    currency: BASE_CURRENCY,
+    exchange_rate: 1,
+  };
+}
+
+// The same breakdown in the customer's currency. Every input is converted (unit prices, each line's
+// discount, the fees) and the totals rebuilt from them, so the converted amounts add up exactly.
+// Rules such as free delivery were already applied in GBP, on Booqable's prices. The deposit is the
+// GBP deposit converted, so it converts back to exactly what the order's payment ledger expects.
+export function convertBreakdown(breakdown: CheckoutPriceBreakdown, { currency, exchange_rate }: OrderCurrency): CheckoutPriceBreakdown {
+  if (currency === BASE_CURRENCY) return breakdown;
+  const convert = (amount: number) => convertFromBase(amount, exchange_rate);
+
+  const lines = breakdown.lines.map(({ discount, tax, ...line }) => {
+    const unitPence = Math.round(convert(line.unit_price) * 100);
+    return {
+      ...line,
+      price_per_day: Math.round(unitPence / line.rental_days) / 100,
+      unit_price: unitPence / 100,
+      line_total: (unitPence * line.quantity) / 100,
+      security_deposit: convert(line.security_deposit),
+      price_components: line.price_components?.map(component => ({ ...component, amount: convert(component.amount) })),
+      ...(line.volume_discount && { volume_discount: convert(line.volume_discount) }),
+    };
+  });
+  const lineDiscounts = breakdown.lines.map(line => convert(line.discount || 0));
+  const discountPence = lineDiscounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0);
+
+  const converted = buildBreakdown(lines, {
+    ...(breakdown.promo_code && {
+      promo: { code: breakdown.promo_code, discount: { amount: discountPence / 100, line_amounts: lineDiscounts } },
+    }),
+    delivery: {
+      delivery_fee: convert(breakdown.delivery_fee),
+      return_fee: convert(breakdown.return_fee),
+      zone: breakdown.delivery_zone,
+      delivery_method: breakdown.delivery_method,
+      return_method: breakdown.return_method,
+    },
+  });
+
+  const depositPence = Math.min(Math.round(convert(breakdown.deposit) * 100), Math.round(converted.grand_total * 100));
+
+  return {
+    ...converted,
+    deposit: depositPence / 100,
+    balance_due: (Math.round(converted.grand_total * 100) - depositPence) / 100,
+    ...(breakdown.promo_error && { promo_error: breakdown.promo_error }),
+    ...(breakdown.delivery_error && { delivery_error: breakdown.delivery_error }),
+    currency,
+    exchange_rate,
+  };
+}
+
+// True when a client-supplied amount matches the server amount within tolerance
+export function amountsAgree(clientAmount: number, serverAmount: number) {
+  if (typeof clientAmount !== 'number' || isNaN(clientAmount)) return false;
+  return Math.abs(Math.round(clientAmount * 100) - Math.round(serverAmount * 100)) <= PRICE_TOLERANCE_PENCE;
+}
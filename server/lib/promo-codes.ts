@@ -0,0 +1,167 @@
+// Promo codes stored in Firestore at promo_codes/{CODE}. A code is checked when the cart is quoted,
+// reserved for the customer when their Checkout Session is created (so usage limits hold while they
+// pay), confirmed once the Booqable orders exist and released again if the session expires.
+
+import admin, { adminDb } from "./firebase-admin";
+import {
+  calculatePromoDiscount,
+  getPromoCodeError,
+  normalisePromoCode,
+  PromoCode,
+  PromoDiscount,
+  PromoLine,
+} from "../../shared/promo-codes";
+
+const PROMO_CODES_COLLECTION = 'promo_codes';
+const REDEMPTIONS_COLLECTION = 'promo_code_redemptions';
+
+export type RedemptionStatus = 'pending' | 'redeemed' | 'released';
+
+export interface PromoRedemption {
+  session_id: string;
+  code: string;
+  customer_email: string;
+  uid: string | null;
+  discount_gbp: number;
+  status: RedemptionStatus;
+  order_ids?: string[];
+  created_at?: FirebaseFirestore.Timestamp;
+}
+
+// A code that can't be used; the message is safe to show to the customer
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+const toIsoDate = (value: any) =>
+  value?.toDate ? value.toDate().toISOString() : value ? String(value) : null;
+
+function toPromoCode(code: string, data: FirebaseFirestore.DocumentData): PromoCode {
+  return {
+    code,
+    description: data.description || undefined,
+    discount_type: data.discount_type === 'fixed' ? 'fixed' : 'percentage',
+    value: Number(data.value) || 0,
+    active: data.active !== false,
+    starts_at: toIsoDate(data.starts_at),
+    expires_at: toIsoDate(data.expires_at),
+    usage_limit: data.usage_limit ?? null,
+    per_customer_limit: data.per_customer_limit ?? null,
+    times_used: Number(data.times_used) || 0,
+    minimum_order_value: data.minimum_order_value ?? null,
+    collections: Array.isArray(data.collections) ? data.collections : [],
+  };
+}
+
+export async function getPromoCode(code: string) {
+  const normalised = normalisePromoCode(code);
+  if (!normalised) return null;
+  const snap = await adminDb.collection(PROMO_CODES_COLLECTION).doc(normalised).get();
+  return snap.exists ? toPromoCode(normalised, snap.data()!) : null;
+}
+
+// Uses of a code by one customer email, counting checkouts still being paid for (read in `tx` when given)
+async function countCustomerRedemptions(code: string, email: string, tx?: FirebaseFirestore.Transaction) {
+  const query = adminDb.collection(REDEMPTIONS_COLLECTION)
+    .where('code', '==', code)
+    .where('customer_email', '==', email.trim().toLowerCase());
+  const snap = tx ? await tx.get(query) : await query.get();
+  return snap.docs.filter(doc => (doc.data() as PromoRedemption).status !== 'released').length;
+}
+
+// Check a code against the cart and work out the discount. Without an email the per-customer
+// limit can't be checked yet; it is checked again when the Checkout Session is created.
+export async function applyPromoCode(
+  code: string,
+  lines: PromoLine[],
+  customer: { email?: string | null } = {},
+): Promise<{ promo: PromoCode; discount: PromoDiscount }> {
+  const promo = await getPromoCode(code);
+  if (!promo) {
+    throw new PromoCodeError('This promo code is not valid');
+  }
+
+  const customerUses = customer.email ? await countCustomerRedemptions(promo.code, customer.email) : 0;
+  const error = getPromoCodeError(promo, lines, { customerUses });
+  if (error) {
+    throw new PromoCodeError(error);
+  }
+
+  return { promo, discount: calculatePromoDiscount(promo, lines) };
+}
+
+// Reserve one use of the code for a Checkout Session. Checked in a transaction so concurrent
+// checkouts can't go past the usage or per-customer limit. Safe to call more than once for the same session.
+export async function reservePromoCode(
+  code: string,
+  sessionId: string,
+  customer: { email: string; uid?: string | null },
+  discountGbp: number,
+) {
+  const promoRef = adminDb.collection(PROMO_CODES_COLLECTION).doc(normalisePromoCode(code));
+  const redemptionRef = adminDb.collection(REDEMPTIONS_COLLECTION).doc(sessionId);
+
+  await adminDb.runTransaction(async (tx) => {
+    const [promoSnap, redemptionSnap] = await Promise.all([tx.get(promoRef), tx.get(redemptionRef)]);
+    if (redemptionSnap.exists) return;
+    if (!promoSnap.exists) {
+      throw new PromoCodeError('This promo code is not valid');
+    }
+
+    const promo = toPromoCode(promoRef.id, promoSnap.data()!);
+    if (promo.usage_limit != null && promo.times_used >= promo.usage_limit) {
+      throw new PromoCodeError('This promo code has reached its usage limit');
+    }
+    if (promo.per_customer_limit != null
+      && await countCustomerRedemptions(promo.code, customer.email, tx) >= promo.per_customer_limit) {
+      throw new PromoCodeError('You have already used this promo code');
+    }
+
+    const redemption: PromoRedemption = {
+      session_id: sessionId,
+      code: promo.code,
+      customer_email: customer.email.trim().toLowerCase(),
+      uid: customer.uid || null,
+      discount_gbp: discountGbp,
+      status: 'pending',
+    };
+    tx.set(redemptionRef, { ...redemption, created_at: admin.firestore.FieldValue.serverTimestamp() });
+    tx.update(promoRef, { times_used: admin.firestore.FieldValue.increment(1) });
+  });
+}
+
+// The session was paid: the use is final
+export async function confirmPromoRedemption(sessionId: string, orderIds: string[]) {
+  const ref = adminDb.collection(REDEMPTIONS_COLLECTION).doc(sessionId);
+  const snap = await ref.get();
+  if (!snap.exists || (snap.data() as PromoRedemption).status !== 'pending') return;
+
+  await ref.update({
+    status: 'redeemed',
+    order_ids: orderIds,
+    redeemed_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// The session expired unpaid: give the use back
+export async function releasePromoRedemption(sessionId: string) {
+  const redemptionRef = adminDb.collection(REDEMPTIONS_COLLECTION).doc(sessionId);
+
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(redemptionRef);
+    if (!snap.exists) return;
+    const redemption = snap.data() as PromoRedemption;
+    if (redemption.status !== 'pending') return;
+
+    tx.update(redemptionRef, {
+      status: 'released',
+      released_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.update(adminDb.collection(PROMO_CODES_COLLECTION).doc(redemption.code), {
+      times_used: admin.firestore.FieldValue.increment(-1),
+    });
+  });
+}
@@ -0,0 +1,247 @@
+// Quotes for organisations that need one before raising a purchase order. A quote is a Booqable
+// order in concept status, which holds no stock (see NON_RESERVING_STATUSES in lib/availability),
+// carrying the GBP price breakdown it was issued at. The PDF is emailed to the customer; accepting
+// the quote opens a deposit checkout for those prices (routes/checkout), and the paid session
+// confirms this same order.
+
+import admin, { adminDb } from "./firebase-admin";
+import { booqable, BooqableOrder } from "./booqable-client";
+import { queueEmail } from "./mailer";
+import { renderOrderDocumentBuffer, SHOP_DETAILS } from "./documents";
+import { formatOrderAmount, getOrderCurrency, OrderCurrency } from "./exchange-rates";
+import type { CheckoutPriceBreakdown } from "@shared/api";
+import { getQuoteExpiry, getQuoteRentalPeriod, getQuoteStatus, QuoteSummary } from "../../shared/quotes";
+
+const COUNTER_DOC = 'counters/quotes';
+const ACCEPTANCES_COLLECTION = 'quote_acceptances';
+// A claim whose session was never recorded (the request died part way) is taken over after this long
+const ACCEPTANCE_LEASE_MS = 2 * 60 * 1000;
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+
+export class QuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteError';
+  }
+}
+
+export interface QuoteRequest {
+  customer: {
+    name: string;
+    email: string;
+    phone?: string;
+  };
+  delivery_address?: {
+    line1: string;
+    line2?: string;
+    city: string;
+    postal_code: string;
+    country: string;
+  };
+  special_instructions?: string;
+  /** The customer's own reference, e.g. their purchase order number */
+  reference?: string;
+}
+
+export interface Quote {
+  summary: QuoteSummary;
+  /** Prices the quote was issued at, in GBP */
+  breakdown: CheckoutPriceBreakdown;
+  request: QuoteRequest;
+  /** Currency and rate the quote was issued (and is charged) in */
+  currency: OrderCurrency;
+}
+
+// Quote numbers have their own sequence so invoice numbers stay gap-free
+async function allocateQuoteNumber() {
+  const counterRef = adminDb.doc(COUNTER_DOC);
+  return adminDb.runTransaction(async (tx) => {
+    const counter = await tx.get(counterRef);
+    const next = (counter.exists ? Number(counter.data()!.last_number) || 0 : 0) + 1;
+    tx.set(counterRef, { last_number: next }, { merge: true });
+    return `QUO-${String(next).padStart(6, '0')}`;
+  });
+}
+
+export function getQuoteSummary(properties: Record<string, any> = {}, now: Date = new Date()): QuoteSummary | null {
+  if (!properties.quote_number) return null;
+  return {
+    quote_number: String(properties.quote_number),
+    status: getQuoteStatus({ accepted: properties.quote_status === 'accepted', expires_at: properties.quote_expires_at }, now),
+    issued_at: properties.quote_issued_at,
+    expires_at: properties.quote_expires_at,
+    ...(properties.quote_reference && { reference: String(properties.quote_reference) }),
+  };
+}
+
+// The quote an order was created from, or null for ordinary bookings
+export function getQuote(order: BooqableOrder, now: Date = new Date()): Quote | null {
+  const properties = order.properties || {};
+  const summary = getQuoteSummary(properties, now);
+  if (!summary || !properties.quote_breakdown) return null;
+  return {
+    summary,
+    breakdown: JSON.parse(properties.quote_breakdown),
+    request: JSON.parse(properties.quote_request || '{}'),
+    currency: getOrderCurrency(properties),
+  };
+}
+
+interface QuoteAcceptance {
+  order_id: string;
+  status: 'pending' | 'open';
+  session_id?: string;
+  claimed_at: FirebaseFirestore.Timestamp;
+  expires_at?: FirebaseFirestore.Timestamp;
+}
+
+export type AcceptanceClaim =
+  | { status: 'claimed' }
+  | { status: 'in_progress' }
+  | { status: 'open'; session_id: string };
+
+// A quote has at most one deposit checkout open at a time, so double-clicks and retries reuse it
+// instead of stacking sessions and inventory holds. Claim before creating the session, then record it.
+export async function claimQuoteAcceptance(orderId: string): Promise<AcceptanceClaim> {
+  const ref = adminDb.collection(ACCEPTANCES_COLLECTION).doc(orderId);
+
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? snap.data() as QuoteAcceptance : null;
+    const now = Date.now();
+
+    if (existing?.status === 'open' && existing.session_id && (existing.expires_at?.toMillis() ?? 0) > now) {
+      return { status: 'open' as const, session_id: existing.session_id };
+    }
+    if (existing?.status === 'pending' && now - existing.claimed_at.toMillis() < ACCEPTANCE_LEASE_MS) {
+      return { status: 'in_progress' as const };
+    }
+
+    tx.set(ref, {
+      order_id: orderId,
+      status: 'pending',
+      claimed_at: admin.firestore.Timestamp.fromMillis(now),
+    });
+    return { status: 'claimed' as const };
+  });
+}
+
+// The session opened for a claimed quote (`expiresAt` in Stripe's unix seconds)
+export async function recordQuoteSession(orderId: string, sessionId: string, expiresAt: number) {
+  await adminDb.collection(ACCEPTANCES_COLLECTION).doc(orderId).set({
+    status: 'open',
+    session_id: sessionId,
+    expires_at: admin.firestore.Timestamp.fromMillis(expiresAt * 1000),
+  }, { merge: true });
+}
+
+// Free the quote for another attempt: the session expired or could not be created.
+// With `sessionId`, only that session's claim is released.
+export async function releaseQuoteAcceptance(orderId: string, sessionId?: string) {
+  const ref = adminDb.collection(ACCEPTANCES_COLLECTION).doc(orderId);
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return;
+    if (sessionId && (snap.data() as QuoteAcceptance).session_id !== sessionId) return;
+    tx.delete(ref);
+  });
+}
+
+// Create the concept order for a priced cart. Every line must be for the same rental period.
+export async function createQuote({ customerId, breakdown, currency, request }: {
+  customerId: string;
+  breakdown: CheckoutPriceBreakdown;
+  currency: OrderCurrency;
+  request: QuoteRequest;
+}): Promise<BooqableOrder> {
+  const period = getQuoteRentalPeriod(breakdown.lines);
+  if (!period) {
+    throw new QuoteError('A quote covers one rental period. Please request a separate quote for each set of dates.');
+  }
+
+  const issuedAt = new Date().toISOString();
+  const quoteNumber = await allocateQuoteNumber();
+  const subtotalPence = breakdown.lines.reduce((sum, line) => sum + Math.round(line.line_total * 100), 0);
+  const volumeDiscountPence = Math.round(breakdown.volume_discount * 100);
+  const address = request.delivery_address;
+
+  const { order } = await booqable.orders.create({
+    customer_id: customerId,
+    starts_at: period.start_date,
+    stops_at: period.end_date,
+    status: 'concept',
+    // Booqable prices the lines at list price, so group discounts go on as an order discount
+    ...(volumeDiscountPence > 0 && {
+      discount_percentage: Math.round(volumeDiscountPence / (subtotalPence + volumeDiscountPence) * 10000) / 100
+    }),
+    lines_attributes: breakdown.lines.map(line => ({
+      item_id: line.product_id,
+      quantity: line.quantity,
+      price_structure_id: null,
+      ...((line.size || line.volume_discount_percent) && {
+        properties: {
+          ...(line.size && { size: line.size }),
+          ...(line.volume_discount_percent && { volume_discount_percent: line.volume_discount_percent.toString() })
+        }
+      })
+    })),
+    properties: {
+      quote_number: quoteNumber,
+      quote_status: 'sent',
+      quote_issued_at: issuedAt,
+      quote_expires_at: getQuoteExpiry(issuedAt),
+      quote_reference: request.reference || '',
+      quote_breakdown: JSON.stringify(breakdown),
+      quote_request: JSON.stringify(request),
+      special_instructions: request.special_instructions || '',
+      currency: currency.currency,
+      exchange_rate: currency.exchange_rate.toString(),
+      order_total_gbp: breakdown.grand_total.toFixed(2),
+      deposit_gbp: breakdown.deposit.toFixed(2),
+      balance_gbp: breakdown.balance_due.toFixed(2),
+      delivery_fee_gbp: breakdown.delivery_fee.toFixed(2),
+      return_fee_gbp: breakdown.return_fee.toFixed(2),
+      vat_rate: breakdown.tax.rate.toString(),
+      vat_gbp: breakdown.tax.tax.toFixed(2),
+      ...(volumeDiscountPence > 0 && { volume_discount_gbp: breakdown.volume_discount.toFixed(2) }),
+    },
+    ...(address && {
+      delivery_address_line_1: address.line1,
+      delivery_address_line_2: address.line2 || '',
+      delivery_address_city: address.city,
+      delivery_address_zipcode: address.postal_code,
+      delivery_address_country: address.country
+    })
+  });
+
+  console.log('Created quote in Booqable:', order.id, quoteNumber);
+  return order;
+}
+
+// Email the quote PDF to the customer who asked for it
+export async function emailQuote(orderId: string) {
+  const { order } = await booqable.orders.get(orderId, { include: 'customer,lines' });
+  const quote = getQuote(order);
+  if (!quote) throw new QuoteError(`Order ${orderId} is not a quote`);
+
+  const properties = order.properties || {};
+  const { summary, breakdown, request } = quote;
+  const expires = new Date(summary.expires_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+  const pdf = await renderOrderDocumentBuffer({ type: 'quote', order, invoiceNumber: summary.quote_number });
+
+  await queueEmail({
+    to: request.customer?.email || order.customer?.email,
+    subject: `Your quote ${summary.quote_number} from ${SHOP_DETAILS.name}`,
+    text: [
+      `Hello ${request.customer?.name || order.customer?.name || ''},`.trim(),
+      '',
+      `Please find attached quote ${summary.quote_number}${summary.reference ? ` (your reference ${summary.reference})` : ''} `
+        + `for ${formatOrderAmount(properties, breakdown.grand_total)}.`,
+      `The prices are held until ${expires}. To go ahead, accept the quote from My Orders and pay the deposit of `
+        + `${formatOrderAmount(properties, breakdown.deposit)}; the costumes are reserved once it is paid.`,
+      '',
+      `View and accept your quote: ${CLIENT_URL}/orders?order=${order.id}`,
+    ].join('\n'),
+    attachments: [{ filename: `${summary.quote_number}.pdf`, content: pdf, contentType: 'application/pdf' }],
+  });
+}
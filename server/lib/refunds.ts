@@ -0,0 +1,96 @@
+// Stripe refunds for cancelled Booqable orders, issued against the payments in the order's ledger.
+// Amounts are GBP; refunds are issued in the currency the order was paid in.
+
+import Stripe from "stripe";
+import { stripe } from "./stripe-client";
+import { BooqableOrder } from "./booqable-client";
+import { getPaymentLedger } from "./payment-ledger";
+import { getOrderCurrency, toBasePence, toChargeMinor } from "./exchange-rates";
+
+export interface IssuedRefund {
+  id: string;
+  payment_intent_id: string;
+  amount: number; // pounds
+  status: string;
+}
+
+export interface RefundResult {
+  amount_paid: number; // pounds
+  amount_refunded: number; // pounds, including refunds made by earlier attempts
+  status: 'refunded' | 'pending' | 'not_required';
+  refunds: IssuedRefund[]; // issued by this attempt
+}
+
+// Stripe failed part way through; `result` is what had been refunded by then
+export class RefundError extends Error {
+  constructor(message: string, public result: RefundResult) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+// Refund the order up to `requestedAmount` (pounds) in total across its payments, never more than
+// was paid or than Stripe still holds on each payment intent. Refunds already made count towards
+// the amount, so a retry after a partial failure only refunds the rest.
+// Idempotency keys make retries safe.
+export async function refundOrderPayments(order: BooqableOrder, requestedAmount: number): Promise<RefundResult> {
+  const ledger = await getPaymentLedger(order);
+  const amountPaid = Math.round(ledger.amount_paid * 100);
+  const alreadyRefunded = Math.round(ledger.amount_refunded * 100);
+  let remaining = Math.min(Math.round(requestedAmount * 100) - alreadyRefunded, amountPaid - alreadyRefunded);
+
+  const result = (refunds: IssuedRefund[]): RefundResult => {
+    const refunded = alreadyRefunded + refunds.reduce((sum, refund) => sum + Math.round(refund.amount * 100), 0);
+    let status: RefundResult['status'] = 'not_required';
+    if (refunds.length > 0) {
+      status = refunds.every(refund => refund.status === 'succeeded') ? 'refunded' : 'pending';
+    } else if (alreadyRefunded > 0) {
+      status = 'refunded';
+    }
+    return { amount_paid: amountPaid / 100, amount_refunded: refunded / 100, status, refunds };
+  };
+
+  if (remaining <= 0) {
+    return result([]);
+  }
+  if (!stripe) {
+    throw new Error('Stripe is not configured');
+  }
+
+  const refunds: IssuedRefund[] = [];
+  const paidIn = getOrderCurrency(order.properties);
+
+  try {
+    for (const payment of ledger.entries) {
+      if (remaining <= 0) break;
+
+      const intent = await stripe.paymentIntents.retrieve(payment.payment_intent_id, { expand: ['latest_charge'] });
+      const charge = intent.latest_charge as Stripe.Charge | null;
+      const stillHeld = toBasePence((charge?.amount_captured ?? intent.amount_received) - (charge?.amount_refunded ?? 0), paidIn);
+      const refundable = Math.round((payment.amount - payment.refunded) * 100);
+      const amount = Math.min(remaining, refundable, stillHeld);
+      if (amount <= 0) continue;
+
+      const refund = await stripe.refunds.create({
+        payment_intent: payment.payment_intent_id,
+        amount: toChargeMinor(amount, paidIn),
+        reason: 'requested_by_customer',
+        metadata: { booqable_order_id: order.id, booqable_order_number: String(order.number ?? '') },
+      }, {
+        idempotencyKey: `refund_${order.id}_${payment.payment_intent_id}_${amount}`,
+      });
+
+      refunds.push({
+        id: refund.id,
+        payment_intent_id: payment.payment_intent_id,
+        amount: toBasePence(refund.amount, paidIn) / 100,
+        status: refund.status || 'pending',
+      });
+      remaining -= toBasePence(refund.amount, paidIn);
+    }
+  } catch (error) {
+    throw new RefundError(error instanceof Error ? error.message : 'Refund failed', result(refunds));
+  }
+
+  return result(refunds);
+}
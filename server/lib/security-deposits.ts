@@ -0,0 +1,364 @@
+// Refundable security deposits. The amount is fixed at checkout and stored on the Booqable order;
+// shortly before dispatch it is authorised on the customer's card as a separate manual-capture
+// PaymentIntent, then released or (partly) captured once the return has been inspected.
+// Card authorisations lapse after 7 days, so holds are renewed while the costumes are out, and
+// damage found after a hold has lapsed anyway is charged to the card directly.
+// Amounts are GBP; the hold is placed in the currency the order was paid in.
+
+import Stripe from "stripe";
+import { stripe } from "./stripe-client";
+import { booqable, BooqableOrder } from "./booqable-client";
+import { getChargeableCard } from "./stripe-customers";
+import { updateOrderProperties } from "./order-properties";
+import { getOrderCurrency, toChargeMinor } from "./exchange-rates";
+import { PAYMENT_POLICY } from "../../shared/payment-policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SecurityDepositStatus =
+  | 'scheduled'
+  | 'authorised'
+  | 'action_required'
+  | 'released'
+  | 'captured'
+  | 'partially_captured';
+
+export interface SecurityDeposit {
+  amount: number; // pounds
+  status: SecurityDepositStatus;
+  payment_intent_id: string | null;
+  authorised_at: string | null;
+  captured_amount: number;
+  damage_notes: string | null;
+  inspected_at: string | null;
+  error: string | null;
+}
+
+// The damage could not be charged (no hold left and the card was declined)
+export class SecurityDepositError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecurityDepositError';
+  }
+}
+
+export interface ReturnInspection {
+  capture_amount: number; // pounds
+  damage_notes: string;
+  inspected_by: string;
+}
+
+function requireStripe() {
+  if (!stripe) {
+    throw new Error('Stripe is not configured');
+  }
+  return stripe;
+}
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id ?? null;
+
+// Security deposit recorded on an order, or null if none applies
+export function getSecurityDeposit(order: BooqableOrder): SecurityDeposit | null {
+  const properties = order.properties || {};
+  const amount = parseFloat(properties.security_deposit_gbp);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+
+  return {
+    amount,
+    status: properties.security_deposit_status || 'scheduled',
+    payment_intent_id: properties.security_deposit_payment_intent_id || null,
+    authorised_at: properties.security_deposit_authorised_at || null,
+    captured_amount: parseFloat(properties.security_deposit_captured_gbp) || 0,
+    damage_notes: properties.damage_notes || null,
+    inspected_at: properties.inspected_at || null,
+    error: properties.security_deposit_error || null,
+  };
+}
+
+// Written under the order's property lock so payments recorded meanwhile are kept
+async function updateDeposit(order: BooqableOrder, changes: Record<string, string>) {
+  const updated = await updateOrderProperties(order.id, () => ({ properties: changes }));
+  return getSecurityDeposit({ ...updated, properties: { ...updated.properties, ...changes } })!;
+}
+
+// The card the rental deposit was paid with, falling back to the customer's default card
+async function findHoldCard(order: BooqableOrder) {
+  const properties = order.properties || {};
+  let customerId: string | null = properties.stripe_customer_id || null;
+  let paymentMethodId: string | null = null;
+
+  if (properties.stripe_payment_intent_id) {
+    const intent = await requireStripe().paymentIntents.retrieve(properties.stripe_payment_intent_id);
+    customerId = customerId || idOf(intent.customer);
+    paymentMethodId = idOf(intent.payment_method);
+  }
+  if (customerId && !paymentMethodId) {
+    paymentMethodId = (await getChargeableCard(customerId))?.id ?? null;
+  }
+
+  return customerId && paymentMethodId ? { customerId, paymentMethodId } : null;
+}
+
+const holdMetadata = (order: BooqableOrder) => ({
+  order_id: order.id,
+  booqable_order_id: order.id,
+  payment_type: 'security_deposit',
+});
+
+type HoldCard = NonNullable<Awaited<ReturnType<typeof findHoldCard>>>;
+
+// An off-session PaymentIntent on the hold card: a manual-capture hold, or (for damage found after
+// the hold lapsed) a charge. `key` keeps it to one attempt per order per day, however often the job runs.
+function createDepositIntent(order: BooqableOrder, card: HoldCard, amountPence: number, key: string, captureMethod: 'manual' | 'automatic' = 'manual') {
+  const paidIn = getOrderCurrency(order.properties);
+  return requireStripe().paymentIntents.create({
+    amount: toChargeMinor(amountPence, paidIn),
+    currency: paidIn.currency.toLowerCase(),
+    customer: card.customerId,
+    payment_method: card.paymentMethodId,
+    capture_method: captureMethod,
+    off_session: true,
+    confirm: true,
+    description: `Security deposit ${captureMethod === 'manual' ? 'hold' : 'charge'} - Order #${order.number}`,
+    metadata: holdMetadata(order),
+  }, {
+    idempotencyKey: key,
+  });
+}
+
+// Place the hold off-session. When the bank wants the customer present (3D Secure) or there is
+// no saved card, the deposit is marked `action_required` and the customer authorises it themselves.
+export async function authoriseSecurityDeposit(order: BooqableOrder, now: Date = new Date()) {
+  const deposit = getSecurityDeposit(order);
+  if (!deposit || deposit.status !== 'scheduled' && deposit.status !== 'action_required') {
+    return deposit;
+  }
+
+  const card = await findHoldCard(order);
+  if (!card) {
+    return updateDeposit(order, {
+      security_deposit_status: 'action_required',
+      security_deposit_error: 'No saved card to place the hold on',
+    });
+  }
+
+  const amountPence = Math.round(deposit.amount * 100);
+  try {
+    const intent = await createDepositIntent(order, card, amountPence,
+      `security_deposit_${order.id}_${amountPence}_${now.toISOString().slice(0, 10)}`);
+
+    if (intent.status === 'requires_capture') {
+      return updateDeposit(order, {
+        security_deposit_status: 'authorised',
+        security_deposit_payment_intent_id: intent.id,
+        security_deposit_authorised_at: now.toISOString(),
+        security_deposit_error: '',
+      });
+    }
+    return updateDeposit(order, {
+      security_deposit_status: 'action_required',
+      security_deposit_error: `Hold not authorised (${intent.status})`,
+    });
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeCardError)) throw error;
+    return updateDeposit(order, {
+      security_deposit_status: 'action_required',
+      security_deposit_error: error.message || 'Card declined',
+    });
+  }
+}
+
+// Replace an authorised hold with a fresh one before it lapses, so it can still be captured or
+// released at the return inspection. If no fresh hold can be placed the customer is asked to
+// authorise it again, as when the first hold fails.
+export async function renewSecurityDeposit(order: BooqableOrder, now: Date = new Date()) {
+  const deposit = getSecurityDeposit(order);
+  if (!deposit || deposit.status !== 'authorised' || !deposit.payment_intent_id) {
+    return deposit;
+  }
+  const authorisedAt = deposit.authorised_at ? new Date(deposit.authorised_at).getTime() : 0;
+  if (now.getTime() - authorisedAt < PAYMENT_POLICY.securityDepositRenewAfterDays * DAY_MS) {
+    return deposit;
+  }
+
+  const card = await findHoldCard(order);
+  if (!card) {
+    return updateDeposit(order, {
+      security_deposit_status: 'action_required',
+      security_deposit_error: 'No saved card to renew the hold on',
+    });
+  }
+
+  const amountPence = Math.round(deposit.amount * 100);
+  try {
+    const intent = await createDepositIntent(order, card, amountPence,
+      `security_deposit_renewal_${order.id}_${amountPence}_${now.toISOString().slice(0, 10)}`);
+
+    if (intent.status !== 'requires_capture') {
+      return updateDeposit(order, {
+        security_deposit_status: 'action_required',
+        security_deposit_error: `Hold not renewed (${intent.status})`,
+      });
+    }
+
+    // The old hold is about to lapse anyway; failing to cancel it early doesn't matter
+    await requireStripe().paymentIntents.cancel(deposit.payment_intent_id).catch(error =>
+      console.warn(`Could not cancel replaced security deposit hold ${deposit.payment_intent_id}:`, error));
+    return updateDeposit(order, {
+      security_deposit_payment_intent_id: intent.id,
+      security_deposit_authorised_at: now.toISOString(),
+      security_deposit_error: '',
+    });
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeCardError)) throw error;
+    return updateDeposit(order, {
+      security_deposit_status: 'action_required',
+      security_deposit_error: error.message || 'Card declined',
+    });
+  }
+}
+
+// Checkout Session in which the customer authorises the hold themselves (nothing is charged yet)
+export async function createSecurityDepositCheckout(order: BooqableOrder, customerId: string) {
+  const deposit = getSecurityDeposit(order);
+  if (!deposit) {
+    throw new Error(`Order ${order.id} has no security deposit`);
+  }
+  const clientUrl = process.env.CLIENT_URL;
+  const paidIn = getOrderCurrency(order.properties);
+
+  return requireStripe().checkout.sessions.create({
+    mode: 'payment',
+    payment_method_types: ['card'],
+    customer: customerId,
+    line_items: [
+      {
+        price_data: {
+          currency: paidIn.currency.toLowerCase(),
+          product_data: {
+            name: `Security Deposit - Order #${order.number}`,
+            description: 'Held on your card and released after the return inspection',
+          },
+          unit_amount: toChargeMinor(Math.round(deposit.amount * 100), paidIn),
+        },
+        quantity: 1,
+      },
+    ],
+    payment_intent_data: {
+      capture_method: 'manual',
+      setup_future_usage: 'off_session',
+      metadata: holdMetadata(order),
+    },
+    success_url: `${clientUrl}/orders?order=${order.id}&payment=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${clientUrl}/orders?order=${order.id}`,
+    metadata: holdMetadata(order),
+  });
+}
+
+// Record a hold authorised through Checkout. Safe to call more than once for the same session.
+export async function recordSecurityDepositSession(orderId: string, session: Stripe.Checkout.Session) {
+  const paymentIntentId = idOf(session.payment_intent);
+  if (!paymentIntentId) {
+    throw new Error(`Checkout session ${session.id} has no payment intent`);
+  }
+
+  const [{ order }, intent] = await Promise.all([
+    booqable.orders.get(orderId),
+    requireStripe().paymentIntents.retrieve(paymentIntentId),
+  ]);
+  const deposit = getSecurityDeposit(order);
+  if (!deposit || intent.status !== 'requires_capture' || deposit.payment_intent_id === intent.id) {
+    return deposit;
+  }
+
+  return updateDeposit(order, {
+    security_deposit_status: 'authorised',
+    security_deposit_payment_intent_id: intent.id,
+    security_deposit_authorised_at: new Date().toISOString(),
+    security_deposit_error: '',
+  });
+}
+
+// Settle the hold after the return inspection: capture the damage amount (Stripe releases the
+// rest of the authorisation) or cancel the hold entirely. If the hold has lapsed there is nothing
+// to release, and damage is charged to the hold card instead.
+// Throws SecurityDepositError when that charge can't be taken.
+export async function settleSecurityDeposit(order: BooqableOrder, inspection: ReturnInspection) {
+  const deposit = getSecurityDeposit(order);
+  if (!deposit) {
+    throw new Error(`Order ${order.id} has no security deposit`);
+  }
+
+  const capturePence = Math.round(inspection.capture_amount * 100);
+  const heldPence = Math.round(deposit.amount * 100);
+  if (capturePence < 0 || capturePence > heldPence) {
+    throw new RangeError(`Capture amount must be between £0.00 and £${deposit.amount.toFixed(2)}`);
+  }
+  if (capturePence > 0 && (deposit.status !== 'authorised' || !deposit.payment_intent_id)) {
+    throw new Error('There is no authorised hold to capture from');
+  }
+
+  let status: SecurityDepositStatus = 'released';
+  if (deposit.status === 'authorised' && deposit.payment_intent_id) {
+    const hold = await requireStripe().paymentIntents.retrieve(deposit.payment_intent_id);
+    const holdLive = hold.status === 'requires_capture';
+
+    if (capturePence > 0) {
+      if (holdLive) {
+        await requireStripe().paymentIntents.capture(deposit.payment_intent_id, {
+          amount_to_capture: toChargeMinor(capturePence, getOrderCurrency(order.properties)),
+        }, {
+          idempotencyKey: `security_deposit_capture_${order.id}_${capturePence}`,
+        });
+      } else {
+        await chargeLapsedDeposit(order, capturePence);
+      }
+      status = capturePence === heldPence ? 'captured' : 'partially_captured';
+    } else if (holdLive) {
+      await requireStripe().paymentIntents.cancel(deposit.payment_intent_id);
+    }
+  }
+
+  return updateDeposit(order, {
+    security_deposit_status: status,
+    security_deposit_captured_gbp: (capturePence / 100).toFixed(2),
+    damage_notes: inspection.damage_notes,
+    inspected_at: new Date().toISOString(),
+    inspected_by: inspection.inspected_by,
+  });
+}
+
+async function chargeLapsedDeposit(order: BooqableOrder, amountPence: number) {
+  const card = await findHoldCard(order);
+  if (!card) {
+    throw new SecurityDepositError('The security deposit hold has lapsed and there is no saved card to charge the damage to');
+  }
+
+  try {
+    const intent = await createDepositIntent(order, card, amountPence,
+      `security_deposit_charge_${order.id}_${amountPence}`, 'automatic');
+    if (intent.status !== 'succeeded') {
+      throw new SecurityDepositError(`The security deposit hold has lapsed and the damage charge was not completed (${intent.status})`);
+    }
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeCardError)) throw error;
+    throw new SecurityDepositError(`The security deposit hold has lapsed and the damage charge was declined: ${error.message}`);
+  }
+}
+
+// Drop the hold on a cancelled order; nothing is captured
+export async function releaseSecurityDeposit(order: BooqableOrder) {
+  const deposit = getSecurityDeposit(order);
+  if (!deposit || deposit.status === 'released' || deposit.status === 'captured' || deposit.status === 'partially_captured') {
+    return deposit;
+  }
+
+  if (deposit.status === 'authorised' && deposit.payment_intent_id) {
+    const hold = await requireStripe().paymentIntents.retrieve(deposit.payment_intent_id);
+    if (hold.status === 'requires_capture') {
+      await requireStripe().paymentIntents.cancel(deposit.payment_intent_id);
+    }
+  }
+  return updateDeposit(order, { security_deposit_status: 'released' });
+}
@@ -0,0 +1,15 @@
+// Shared Stripe client for server modules. Null when STRIPE_SECRET_KEY is not configured,
+// so callers can report a configuration error instead of crashing at import time.
+
+import Stripe from "stripe";
+
+const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
+
+if (!STRIPE_SECRET_KEY) {
+  console.error("STRIPE_SECRET_KEY environment variable is not set");
+}
+
+// Pinned to the API version of the installed SDK, which its types describe
+export const stripe = STRIPE_SECRET_KEY ? new Stripe(STRIPE_SECRET_KEY, {
+  apiVersion: "2025-07-30.basil",
+}) : null;
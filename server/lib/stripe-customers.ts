@@ -0,0 +1,123 @@
+// Stripe Customers linked to Firebase users. The customer id is kept on users/{uid} as
+// `stripeCustomerId`, so cards saved at checkout or from Settings can be reused for later payments.
+
+import Stripe from "stripe";
+import type { SavedPaymentMethod } from "@shared/api";
+import { adminDb } from "./firebase-admin";
+import { stripe } from "./stripe-client";
+
+function requireStripe() {
+  if (!stripe) {
+    throw new Error('Stripe is not configured');
+  }
+  return stripe;
+}
+
+export async function getStripeCustomerId(uid: string): Promise<string | null> {
+  const userDoc = await adminDb.collection('users').doc(uid).get();
+  const customerId = userDoc.exists ? userDoc.data()?.stripeCustomerId : null;
+  return customerId ? String(customerId) : null;
+}
+
+// Stripe Customer for a user, created and linked on first use
+export async function getOrCreateStripeCustomer(
+  uid: string,
+  details: { email?: string | null; name?: string | null } = {},
+): Promise<string> {
+  const existing = await getStripeCustomerId(uid);
+  if (existing) return existing;
+
+  const customer = await requireStripe().customers.create({
+    email: details.email || undefined,
+    name: details.name || undefined,
+    metadata: { firebase_uid: uid },
+  }, {
+    // Two requests racing to link the same user get the same customer back
+    idempotencyKey: `customer_${uid}`,
+  });
+
+  await adminDb.collection('users').doc(uid).set({ stripeCustomerId: customer.id }, { merge: true });
+  return customer.id;
+}
+
+const paymentMethodCustomer = (paymentMethod: Stripe.PaymentMethod) =>
+  typeof paymentMethod.customer === 'string' ? paymentMethod.customer : paymentMethod.customer?.id;
+
+// A payment method the customer can use; null if it is attached to someone else (or nobody)
+export async function getCustomerPaymentMethod(customerId: string, paymentMethodId: string) {
+  try {
+    const paymentMethod = await requireStripe().paymentMethods.retrieve(paymentMethodId);
+    return paymentMethodCustomer(paymentMethod) === customerId ? paymentMethod : null;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getDefaultPaymentMethodId(customerId: string) {
+  const customer = await requireStripe().customers.retrieve(customerId);
+  if (customer.deleted) return null;
+  const defaultMethod = (customer as Stripe.Customer).invoice_settings?.default_payment_method;
+  return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod?.id ?? null;
+}
+
+export async function listSavedCards(customerId: string): Promise<SavedPaymentMethod[]> {
+  const [paymentMethods, defaultId] = await Promise.all([
+    requireStripe().paymentMethods.list({ customer: customerId, type: 'card' }),
+    getDefaultPaymentMethodId(customerId),
+  ]);
+
+  return paymentMethods.data.map(pm => ({
+    id: pm.id,
+    type: pm.type,
+    card: {
+      brand: pm.card?.brand,
+      last4: pm.card?.last4,
+      exp_month: pm.card?.exp_month,
+      exp_year: pm.card?.exp_year
+    },
+    is_default: pm.id === defaultId,
+    created: pm.created
+  }));
+}
+
+export async function setDefaultCard(customerId: string, paymentMethodId: string) {
+  await requireStripe().customers.update(customerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+}
+
+// The card to charge off-session: the default card, or the most recently saved one
+export async function getChargeableCard(customerId: string) {
+  const cards = await listSavedCards(customerId);
+  return cards.find(card => card.is_default) ?? cards.sort((a, b) => b.created - a.created)[0] ?? null;
+}
+
+// Make a newly saved card the default if the customer doesn't have one yet
+export async function adoptDefaultCard(customerId: string, paymentMethodId: string) {
+  if (!(await getDefaultPaymentMethodId(customerId))) {
+    await setDefaultCard(customerId, paymentMethodId);
+  }
+}
+
+// A card saved through a setup-mode Checkout Session (Settings → Add card)
+export async function completeCardSetup(session: Stripe.Checkout.Session) {
+  const customerId = typeof session.customer === 'string' ? session.customer : session.customer?.id;
+  const setupIntentId = typeof session.setup_intent === 'string' ? session.setup_intent : session.setup_intent?.id;
+  if (!customerId || !setupIntentId) {
+    throw new Error(`Setup session ${session.id} has no customer or setup intent`);
+  }
+
+  const setupIntent = await requireStripe().setupIntents.retrieve(setupIntentId);
+  const paymentMethodId = typeof setupIntent.payment_method === 'string'
+    ? setupIntent.payment_method
+    : setupIntent.payment_method?.id;
+  if (setupIntent.status !== 'succeeded' || !paymentMethodId) {
+    return null;
+  }
+
+  await adoptDefaultCard(customerId, paymentMethodId);
+  return paymentMethodId;
+}
@@ -0,0 +1,54 @@
+// VAT on Stripe payments. Every amount we charge (deposits, balances) is a share of a VAT-inclusive
+// grand total, so payments carry an inclusive Stripe Tax Rate and Stripe's receipts show the VAT.
+// Set STRIPE_TAX_RATE_ID to use an existing rate; otherwise a matching rate is found or created once.
+
+import Stripe from "stripe";
+import { stripe } from "./stripe-client";
+import { TAX_POLICY } from "../../shared/tax";
+
+let taxRateId: Promise<string> | null = null;
+
+async function findOrCreateTaxRate(client: Stripe) {
+  const percentage = Math.round(TAX_POLICY.rate * 10000) / 100;
+  const existing = await client.taxRates.list({ active: true, inclusive: true, limit: 100 });
+  const match = existing.data.find(rate =>
+    rate.percentage === percentage && rate.country === TAX_POLICY.country && rate.display_name === TAX_POLICY.label
+  );
+  if (match) return match.id;
+
+  const created = await client.taxRates.create({
+    display_name: TAX_POLICY.label,
+    percentage,
+    inclusive: true,
+    country: TAX_POLICY.country,
+    jurisdiction: TAX_POLICY.country,
+    tax_type: 'vat',
+    description: `UK ${TAX_POLICY.label} on costume hire`,
+  }, {
+    idempotencyKey: `tax_rate_${TAX_POLICY.country}_${percentage}_inclusive`,
+  });
+  return created.id;
+}
+
+// Inclusive VAT rate for Checkout line items; null when Stripe isn't configured
+export async function getInclusiveTaxRateId(): Promise<string | null> {
+  if (process.env.STRIPE_TAX_RATE_ID) return process.env.STRIPE_TAX_RATE_ID;
+  if (!stripe) return null;
+
+  if (!taxRateId) {
+    taxRateId = findOrCreateTaxRate(stripe).catch(error => {
+      taxRateId = null;
+      throw error;
+    });
+  }
+  return taxRateId;
+}
+
+// Tax fields for a Checkout line item whose amount already includes VAT
+export async function inclusiveTaxFields() {
+  const rateId = await getInclusiveTaxRateId();
+  return {
+    priceData: { tax_behavior: 'inclusive' as const },
+    lineItem: rateId ? { tax_rates: [rateId] } : {},
+  };
+}
@@ -0,0 +1,193 @@
+// Firestore-backed ledger of Stripe webhook events.
+// Every event is recorded by its Stripe event id so retried deliveries are processed at most once,
+// and sessions that fail to reach Booqable are kept in a dead-letter list until replayed.
+
+import admin, { adminDb } from "./firebase-admin";
+
+const EVENTS_COLLECTION = 'stripe_webhook_events';
+const DEAD_LETTER_COLLECTION = 'stripe_webhook_dead_letters';
+const SESSION_ORDERS_COLLECTION = 'stripe_session_orders';
+
+// An event stuck in `processing` longer than this is assumed abandoned (e.g. the server restarted)
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventRecord {
+  event_id: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  session_id?: string | null;
+  error?: string | null;
+  result?: Record<string, any> | null;
+  received_at?: FirebaseFirestore.Timestamp;
+  processing_started_at?: FirebaseFirestore.Timestamp;
+  processed_at?: FirebaseFirestore.Timestamp;
+}
+
+export type DeadLetterStatus = 'pending' | 'resolved';
+
+export interface DeadLetterRecord {
+  session_id: string;
+  event_id: string;
+  event_type: string;
+  status: DeadLetterStatus;
+  error: string;
+  failure_count: number;
+  replay_count: number;
+  last_replay_error?: string | null;
+  result?: Record<string, any> | null;
+  first_failed_at?: FirebaseFirestore.Timestamp;
+  last_failed_at?: FirebaseFirestore.Timestamp;
+  resolved_at?: FirebaseFirestore.Timestamp;
+}
+
+// `claimed` - caller should process the event now
+// `duplicate` - already processed, acknowledge without doing anything
+// `in_progress` - another delivery is currently processing it
+export type ClaimResult = 'claimed' | 'duplicate' | 'in_progress';
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Atomically mark an event as being processed, unless it has already been handled
+export async function claimWebhookEvent(eventId: string, type: string, sessionId?: string | null): Promise<ClaimResult> {
+  const ref = adminDb.collection(EVENTS_COLLECTION).doc(eventId);
+
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? snap.data() as WebhookEventRecord : null;
+
+    if (existing?.status === 'processed') {
+      return 'duplicate';
+    }
+
+    if (existing?.status === 'processing') {
+      const startedAt = existing.processing_started_at?.toMillis() ?? 0;
+      if (Date.now() - startedAt < PROCESSING_LEASE_MS) {
+        return 'in_progress';
+      }
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    tx.set(ref, {
+      event_id: eventId,
+      type,
+      status: 'processing',
+      attempts: (existing?.attempts ?? 0) + 1,
+      session_id: sessionId ?? null,
+      error: null,
+      processing_started_at: now,
+      ...(existing ? {} : { received_at: now }),
+    }, { merge: true });
+
+    return 'claimed';
+  });
+}
+
+export async function markWebhookEventProcessed(eventId: string, result?: Record<string, any>) {
+  await adminDb.collection(EVENTS_COLLECTION).doc(eventId).set({
+    status: 'processed',
+    result: result ?? null,
+    error: null,
+    processed_at: admin.firestore.FieldValue.serverTimestamp(),
+  }, { merge: true });
+}
+
+export async function markWebhookEventFailed(eventId: string, error: unknown) {
+  await adminDb.collection(EVENTS_COLLECTION).doc(eventId).set({
+    status: 'failed',
+    error: errorMessage(error),
+  }, { merge: true });
+}
+
+// Add (or update) the dead-letter entry for a checkout session that could not be processed
+export async function recordDeadLetter(sessionId: string, eventId: string, eventType: string, error: unknown) {
+  const ref = adminDb.collection(DEAD_LETTER_COLLECTION).doc(sessionId);
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? snap.data() as DeadLetterRecord : null;
+
+    tx.set(ref, {
+      session_id: sessionId,
+      event_id: eventId,
+      event_type: eventType,
+      status: 'pending',
+      error: errorMessage(error),
+      failure_count: (existing?.failure_count ?? 0) + 1,
+      replay_count: existing?.replay_count ?? 0,
+      last_failed_at: now,
+      ...(existing ? {} : { first_failed_at: now }),
+    }, { merge: true });
+  });
+}
+
+export async function getDeadLetter(sessionId: string) {
+  const snap = await adminDb.collection(DEAD_LETTER_COLLECTION).doc(sessionId).get();
+  return snap.exists ? snap.data() as DeadLetterRecord : null;
+}
+
+export async function listDeadLetters(status: DeadLetterStatus = 'pending') {
+  const snap = await adminDb.collection(DEAD_LETTER_COLLECTION)
+    .where('status', '==', status)
+    .get();
+  return snap.docs.map(doc => doc.data() as DeadLetterRecord);
+}
+
+export async function resolveDeadLetter(sessionId: string, result?: Record<string, any>) {
+  const ref = adminDb.collection(DEAD_LETTER_COLLECTION).doc(sessionId);
+  const snap = await ref.get();
+  if (!snap.exists || (snap.data() as DeadLetterRecord).status === 'resolved') return;
+
+  await ref.update({
+    status: 'resolved',
+    result: result ?? null,
+    resolved_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Count a manual replay attempt against the dead-letter entry
+export async function recordDeadLetterReplay(sessionId: string, error?: unknown) {
+  await adminDb.collection(DEAD_LETTER_COLLECTION).doc(sessionId).update({
+    replay_count: admin.firestore.FieldValue.increment(1),
+    last_replay_error: error === undefined ? null : errorMessage(error),
+  });
+}
+
+// Booqable orders created for a paid checkout session. They are recorded as soon as they all exist,
+// so a retried delivery or a replay after a later step failed reuses them instead of booking twice.
+export async function recordSessionOrders(sessionId: string, orderIds: string[]) {
+  await adminDb.collection(SESSION_ORDERS_COLLECTION).doc(sessionId).set({
+    session_id: sessionId,
+    order_ids: orderIds,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+export async function getSessionOrderIds(sessionId: string): Promise<string[] | null> {
+  const snap = await adminDb.collection(SESSION_ORDERS_COLLECTION).doc(sessionId).get();
+  return snap.exists ? snap.data()!.order_ids as string[] : null;
+}
+
+// Where a checkout session is in fulfilment, for the confirmation page.
+// `pending` means the webhook has not finished (or not arrived) yet.
+export async function getSessionFulfilment(sessionId: string) {
+  const snap = await adminDb.collection(EVENTS_COLLECTION)
+    .where('session_id', '==', sessionId)
+    .get();
+  const events = snap.docs.map(doc => doc.data() as WebhookEventRecord);
+
+  const processed = events.find(event => event.status === 'processed');
+  if (processed) {
+    return { status: 'confirmed' as const, result: processed.result ?? null };
+  }
+
+  const deadLetter = await getDeadLetter(sessionId);
+  if (deadLetter?.status === 'pending') {
+    return { status: 'failed' as const, result: null };
+  }
+
+  return { status: 'pending' as const, result: null };
+}
@@ -1,4 +1,5 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "crypto";
 import { adminAuth } from "../lib/firebase-admin";
 
 export interface AuthenticatedRequest extends Request {
@@ -69,3 +70,58 @@ export const optionalAuth: RequestHandler = async (req: any, res, next) => {
     next();
   }
 };
+
+// Admin-only routes - requires a valid Firebase token carrying the `admin` custom claim
+export const requireAdmin: RequestHandler = async (req: any, res, next) => {
+  try {
+    const authHeader = req.headers.authorization;
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Access token is required'
+      });
+    }
+
+    const decodedToken = await adminAuth.verifyIdToken(token);
+
+    if (decodedToken.admin !== true) {
+      return res.status(403).json({
+        success: false,
+        error: 'Admin access required'
+      });
+    }
+
+    req.user = {
+      uid: decodedToken.uid,
+      email: decodedToken.email,
+      email_verified: decodedToken.email_verified
+    };
+
+    next();
+  } catch (error) {
+    console.error('Admin token verification failed:', error);
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid or expired token'
+    });
+  }
+};
+
+// Scheduled jobs - a scheduler may authenticate with the shared CRON_SECRET header,
+// otherwise the caller must be an admin
+export const requireSchedulerOrAdmin: RequestHandler = (req: any, res, next) => {
+  const cronSecret = process.env.CRON_SECRET;
+  const provided = req.headers['x-cron-secret'];
+  if (cronSecret && typeof provided === 'string' && secretsMatch(provided, cronSecret)) {
+    return next();
+  }
+  return requireAdmin(req, res, next);
+};
+
+// Constant-time comparison; hashing first gives equal lengths without revealing the secret's
+function secretsMatch(provided: string, expected: string) {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
@@ -0,0 +1,74 @@
+import { Request, RequestHandler } from "express";
+import { adminDb } from "../lib/firebase-admin";
+import { booqable, BooqableApiError, BooqableOrder } from "../lib/booqable-client";
+
+// Booqable customer linked to a Firebase user (stored on users/{uid} when the profile is created)
+export async function getBooqableCustomerId(uid: string): Promise<string | null> {
+  const userDoc = await adminDb.collection('users').doc(uid).get();
+  const customerId = userDoc.exists ? userDoc.data()?.booqableCustomerId : null;
+  return customerId ? String(customerId) : null;
+}
+
+export function orderBelongsToCustomer(order: BooqableOrder, customerId: string) {
+  const orderCustomerId = order.customer_id ?? order.customer?.id;
+  return !!orderCustomerId && String(orderCustomerId) === customerId;
+}
+
+// Same response whether the order doesn't exist or belongs to someone else,
+// so order ids can't be probed.
+const orderNotFound = (res: Parameters<RequestHandler>[1]) =>
+  res.status(404).json({
+    success: false,
+    error: 'Order not found'
+  });
+
+// Restricts a route to the owner of the Booqable order it targets.
+// Must run after authenticateToken. `getOrderId` pulls the order id out of the request.
+export const requireOrderAccess = (
+  getOrderId: (req: Request) => string | undefined = req => req.params.orderId,
+): RequestHandler => async (req: any, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const orderId = getOrderId(req);
+    if (!orderId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid order reference'
+      });
+    }
+
+    const customerId = await getBooqableCustomerId(req.user.uid);
+    if (!customerId) {
+      return orderNotFound(res);
+    }
+
+    let order: BooqableOrder | undefined;
+    try {
+      ({ order } = await booqable.orders.get(orderId));
+    } catch (error) {
+      if (error instanceof BooqableApiError && error.isNotFound) {
+        return orderNotFound(res);
+      }
+      throw error;
+    }
+
+    if (!order || !orderBelongsToCustomer(order, customerId)) {
+      console.warn(`Order access denied: user ${req.user.uid} requested order ${orderId}`);
+      return orderNotFound(res);
+    }
+
+    next();
+  } catch (error) {
+    console.error('Order access check failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify order access'
+    });
+  }
+};
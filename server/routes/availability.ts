@@ -1,4 +1,340 @@
-// Availability routes removed — legacy availability, ICS parsing and calendar endpoints have been deprecated.
-// This file intentionally left blank to avoid accidental exposure of availability endpoints.
+import { RequestHandler } from "express";
+import type { SizeAvailability } from "@shared/api";
+import { booqable, BooqableApiError } from "../lib/booqable-client";
+import {
+  addDaysToDate,
+  computeAvailability,
+  computeSizeAvailability,
+  DateRange,
+  eachDate,
+  findAlternativeDates,
+  getProductAvailability,
+  getReservations,
+  getStockCount,
+  getSuggestionSearchWindow,
+  getUnavailableRanges,
+  isValidDateString,
+  MAX_SUGGESTIONS,
+} from "../lib/availability";
+import { rentalDaysBetween } from "../lib/pricing";
+import { IcsEvent, parseIcs } from "../lib/ics";
+import { getCalendarFeed, isCalendarFeedConfigured } from "../lib/booqable-calendar";
+import { PAYMENT_POLICY } from "../../shared/payment-policy";
 
-export {};
+// Default and maximum span for calendar lookups
+const DEFAULT_CALENDAR_DAYS = 90;
+const MAX_CALENDAR_DAYS = 366;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Validate product/date/quantity input shared by the validate and suggestions endpoints
+function parseRangeRequest(body: any) {
+  const { product_id, start_date, end_date } = body || {};
+  const quantity = body?.quantity ?? 1;
+
+  if (!product_id || !start_date || !end_date) {
+    return { error: 'Product ID, start date, and end date are required' };
+  }
+  if (!isValidDateString(start_date) || !isValidDateString(end_date)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (end_date < start_date) {
+    return { error: 'End date must be on or after start date' };
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { error: 'Quantity must be a positive whole number' };
+  }
+
+  return {
+    product_id: String(product_id),
+    start_date: start_date as string,
+    end_date: end_date as string,
+    quantity: quantity as number,
+  };
+}
+
+function handleProductError(error: unknown, res: Parameters<RequestHandler>[1]) {
+  if (error instanceof BooqableApiError && error.isNotFound) {
+    res.status(404).json({
+      success: false,
+      error: 'Product not found'
+    });
+    return true;
+  }
+  return false;
+}
+
+// Per-day availability and unavailable date ranges for a product
+export const getUnavailableDates: RequestHandler = async (req, res) => {
+  try {
+    const { product_id } = req.params;
+    const from = (req.query.from as string) || today();
+    const to = (req.query.to as string) || addDaysToDate(from, DEFAULT_CALENDAR_DAYS - 1);
+    const quantity = Number(req.query.quantity) || 1;
+
+    if (!isValidDateString(from) || !isValidDateString(to) || to < from) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be YYYY-MM-DD dates with from on or before to'
+      });
+    }
+
+    if (rentalDaysBetween(from, to) > MAX_CALENDAR_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot exceed ${MAX_CALENDAR_DAYS} days`
+      });
+    }
+
+    const availability = await getProductAvailability(product_id, from, to);
+
+    res.json({
+      success: true,
+      data: {
+        product_id,
+        from,
+        to,
+        stock_count: availability.stock_count,
+        minimum_rental_days: PAYMENT_POLICY.minimumRentalDays,
+        unavailable_ranges: getUnavailableRanges(availability.daily, quantity),
+        days: availability.daily.map(day => ({
+          date: day.date,
+          available: day.available >= quantity,
+          available_quantity: day.available
+        }))
+      }
+    });
+  } catch (error) {
+    if (handleProductError(error, res)) return;
+    console.error('Error getting unavailable dates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get availability'
+    });
+  }
+};
+
+// Validate a rental range against the minimum rental rule and live availability
+export const validateDateRange: RequestHandler = async (req, res) => {
+  try {
+    const request = parseRangeRequest(req.body);
+    if ('error' in request) {
+      return res.status(400).json({
+        success: false,
+        error: request.error
+      });
+    }
+
+    const { product_id, start_date, end_date, quantity } = request;
+    const rentalDays = rentalDaysBetween(start_date, end_date);
+    const errors: string[] = [];
+
+    if (start_date < today()) {
+      errors.push('Start date cannot be in the past');
+    }
+    if (rentalDays < PAYMENT_POLICY.minimumRentalDays) {
+      errors.push(`Minimum rental period is ${PAYMENT_POLICY.minimumRentalDays} days`);
+    }
+
+    const availability = await getProductAvailability(product_id, start_date, end_date);
+    const conflictingDates = availability.daily
+      .filter(day => day.available < quantity)
+      .map(day => day.date);
+
+    if (conflictingDates.length > 0) {
+      errors.push('Product is not available for selected dates. Please choose different dates.');
+    }
+
+    const valid = errors.length === 0;
+
+    res.json({
+      success: true,
+      data: {
+        valid,
+        available: valid,
+        product_id,
+        start_date,
+        end_date,
+        quantity,
+        rental_days: rentalDays,
+        available_quantity: availability.available_quantity,
+        conflicting_dates: conflictingDates,
+        errors,
+        message: valid ? 'Product is available for selected dates' : errors[0]
+      }
+    });
+  } catch (error) {
+    if (handleProductError(error, res)) return;
+    console.error('Error validating date range:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to validate date range'
+    });
+  }
+};
+
+// Nearest alternative rental windows of the same length (at least the minimum rental period)
+export const getSuggestedDates: RequestHandler = async (req, res) => {
+  try {
+    const request = parseRangeRequest(req.body);
+    if ('error' in request) {
+      return res.status(400).json({
+        success: false,
+        error: request.error
+      });
+    }
+
+    const { product_id, start_date, end_date, quantity } = request;
+    const rentalDays = Math.max(rentalDaysBetween(start_date, end_date), PAYMENT_POLICY.minimumRentalDays);
+    const earliestStart = today();
+
+    const search = getSuggestionSearchWindow(start_date, rentalDays, earliestStart);
+    const availability = await getProductAvailability(product_id, search.from, search.to);
+
+    const suggestions = findAlternativeDates(availability, start_date, rentalDays, quantity, {
+      earliestStart,
+      limit: MAX_SUGGESTIONS,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        product_id,
+        requested: { start_date, end_date, quantity },
+        rental_days: rentalDays,
+        suggestions
+      }
+    });
+  } catch (error) {
+    if (handleProductError(error, res)) return;
+    console.error('Error getting suggested dates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get suggested dates'
+    });
+  }
+};
+
+// Free units of each size for a rental window, for choosing a group order's size breakdown
+export const getSizeAvailability: RequestHandler = async (req, res) => {
+  try {
+    const { product_id } = req.params;
+    const { start_date, end_date } = req.query;
+
+    if (!isValidDateString(start_date) || !isValidDateString(end_date) || end_date < start_date) {
+      return res.status(400).json({
+        success: false,
+        error: 'start_date and end_date must be YYYY-MM-DD dates with start_date on or before end_date'
+      });
+    }
+
+    const [{ product }, { orders, held }] = await Promise.all([
+      booqable.products.get(product_id),
+      getReservations(product_id, start_date, end_date),
+    ]);
+    const overall = computeAvailability(product_id, getStockCount(product), orders, start_date, end_date, held);
+
+    const data: SizeAvailability = {
+      product_id,
+      start_date,
+      end_date,
+      available_quantity: overall.available_quantity,
+      sizes: computeSizeAvailability(product, orders, start_date, end_date, held),
+    };
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    if (handleProductError(error, res)) return;
+    console.error('Error getting size availability:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get size availability'
+    });
+  }
+};
+
+// Events in the feed mention products by name (and sometimes SKU) in the summary or description
+function eventMentionsProduct(event: IcsEvent, terms: string[]) {
+  const text = `${event.summary}\n${event.description}`.toLowerCase();
+  return terms.some(term => text.includes(term));
+}
+
+// Booked periods for one product from the Booqable calendar feed. The feed is private (events carry
+// customer details), so only the booked date ranges are returned.
+export const getIcsEvents: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.query.productId;
+    if (typeof productId !== 'string' || !productId) {
+      return res.status(400).json({
+        success: false,
+        error: 'productId is required'
+      });
+    }
+
+    const from = (req.query.from as string) || today();
+    const to = (req.query.to as string) || addDaysToDate(from, DEFAULT_CALENDAR_DAYS - 1);
+
+    if (!isValidDateString(from) || !isValidDateString(to) || to < from) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be YYYY-MM-DD dates with from on or before to'
+      });
+    }
+
+    if (rentalDaysBetween(from, to) > MAX_CALENDAR_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Date range cannot exceed ${MAX_CALENDAR_DAYS} days`
+      });
+    }
+
+    if (!isCalendarFeedConfigured()) {
+      return res.status(503).json({
+        success: false,
+        error: 'Calendar feed is not configured'
+      });
+    }
+
+    const feed = await getCalendarFeed();
+    const { product } = await booqable.products.get(productId);
+    const terms = [product.name, product.sku]
+      .filter((term): term is string => !!term && term.trim().length > 0)
+      .map(term => term.trim().toLowerCase());
+    const events = parseIcs(feed.text, {
+      from: new Date(from + 'T00:00:00Z'),
+      to: new Date(addDaysToDate(to, 1) + 'T00:00:00Z'),
+    }).filter(event => event.status.toUpperCase() !== 'CANCELLED' && eventMentionsProduct(event, terms));
+
+    const bookedRanges: DateRange[] = [];
+    const bookedDates = new Set<string>();
+    for (const event of events) {
+      const start = event.start_date < from ? from : event.start_date;
+      const end = event.end_date > to ? to : event.end_date;
+      if (start > end) continue;
+      bookedRanges.push({ from: start, to: end });
+      eachDate(start, end).forEach(date => bookedDates.add(date));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        product_id: productId,
+        from,
+        to,
+        fetched_at: new Date(feed.fetchedAt).toISOString(),
+        booked_ranges: bookedRanges,
+        booked_dates: [...bookedDates].sort()
+      }
+    });
+  } catch (error) {
+    if (handleProductError(error, res)) return;
+    console.error('Error getting calendar feed events:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Failed to load calendar feed'
+    });
+  }
+};
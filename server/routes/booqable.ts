@@ -1,38 +1,8 @@
 import { RequestHandler } from "express";
-
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
-
-// Helper function to make authenticated requests to Booqable API with timeout
-async function booqableRequest(endpoint: string, options: RequestInit & { timeoutMs?: number } = {}) {
-  if (!BOOQABLE_BASE_URL) throw new Error('BOOQABLE_BASE_URL not configured');
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  const controller = new AbortController();
-  const timeoutMs = options.timeoutMs ?? 8000;
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Authorization': BOOQABLE_API_KEY ? `Bearer ${BOOQABLE_API_KEY}` : '',
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
-  } finally {
-    clearTimeout(timer);
-  }
-}
+import { booqable, BooqableApiError, isBooqableConfigured } from "../lib/booqable-client";
+import { PAYMENT_POLICY } from "../../shared/payment-policy";
+import { getProductAvailability, isValidDateString } from "../lib/availability";
+import { getCollectionNames, priceLine } from "../lib/pricing";
 
 // Get all collections (using collections endpoint)
 export const getCollections: RequestHandler = async (req, res) => {
@@ -87,11 +57,11 @@ export const getCollections: RequestHandler = async (req, res) => {
 
     try {
       // If Booqable is not configured, skip external call and return defaults immediately
-      if (!BOOQABLE_BASE_URL || !BOOQABLE_API_KEY) {
+      if (!isBooqableConfigured()) {
         console.warn('Booqable configuration missing (BOOQABLE_BASE_URL or BOOQABLE_API_KEY). Returning default collections.');
       } else {
         // Try to get collections from Booqable API
-        const data = await booqableRequest('/collections');
+        const data = await booqable.collections.list();
 
         if (data.collections && Array.isArray(data.collections)) {
           console.log('Found collections:', data.collections.length);
@@ -124,7 +94,7 @@ export const getCollections: RequestHandler = async (req, res) => {
 
     // Try to enhance 'all' count quickly, but do not block response
     try {
-      const productsData = await booqableRequest('/products?per_page=1', { timeoutMs: 2000 });
+      const productsData = await booqable.products.list({ per_page: 1 }, { timeoutMs: 2000, retries: 0 });
       if (productsData.meta?.total_count) {
         const allIndex = collections.findIndex(col => col.id === 'all');
         if (allIndex !== -1) {
@@ -200,7 +170,7 @@ export const getProducts: RequestHandler = async (req, res) => {
     const apiUrl = `/products?${fetchParams}`;
     console.log('Full Booqable API URL:', apiUrl);
 
-    const data = await booqableRequest(apiUrl);
+    const data = await booqable.products.list(fetchParams);
 
     console.log('Booqable API response metadata:', {
       total_products: data.products?.length,
@@ -453,7 +423,7 @@ export const getProduct: RequestHandler = async (req, res) => {
   try {
     const { id } = req.params;
 
-    const data = await booqableRequest(`/products/${id}?include=images,collections,properties`);
+    const data = await booqable.products.get(id, { include: 'images,collections,properties' });
 
     if (!data.product) {
       return res.status(404).json({
@@ -533,6 +503,12 @@ export const getProduct: RequestHandler = async (req, res) => {
     });
   } catch (error) {
     console.error('Error fetching product:', error);
+    if (error instanceof BooqableApiError && error.isNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch product'
@@ -540,6 +516,63 @@ export const getProduct: RequestHandler = async (req, res) => {
   }
 };
 
+// Price a product for a rental period with its price structure (first-week rate, extra days,
+// weekend rate), e.g. /api/products/123/quote?start_date=2025-10-03&end_date=2025-10-06&quantity=2.
+// This is the same line pricing checkout charges; amounts are GBP.
+export const getProductQuote: RequestHandler = async (req, res) => {
+  const { start_date, end_date } = req.query;
+  const quantity = req.query.quantity === undefined ? 1 : Number(req.query.quantity);
+
+  if (!isValidDateString(start_date) || !isValidDateString(end_date)) {
+    return res.status(400).json({
+      success: false,
+      error: 'start_date and end_date are required in YYYY-MM-DD format'
+    });
+  }
+  if (end_date < start_date) {
+    return res.status(400).json({
+      success: false,
+      error: 'End date must be on or after start date'
+    });
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return res.status(400).json({
+      success: false,
+      error: 'Quantity must be a positive whole number'
+    });
+  }
+
+  try {
+    const { id } = req.params;
+    const { product, included } = await booqable.products.get(id, { include: 'collections' });
+    if (!product || product.archived) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const line = await priceLine({ product_id: id, quantity, start_date, end_date }, product, getCollectionNames(product, included));
+
+    res.json({
+      success: true,
+      data: line
+    });
+  } catch (error) {
+    console.error('Error quoting product:', error);
+    if (error instanceof BooqableApiError && error.isNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to price product'
+    });
+  }
+};
+
 // Check availability for product and date range
 export const checkAvailability: RequestHandler = async (req, res) => {
   try {
@@ -557,20 +590,23 @@ export const checkAvailability: RequestHandler = async (req, res) => {
     const endDate = new Date(end_date + 'T00:00:00');
     const daysDiff = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
 
-    if (daysDiff < 8) {
+    if (daysDiff < PAYMENT_POLICY.minimumRentalDays) {
       return res.status(400).json({
         success: false,
-        error: 'Minimum rental period is 8 days'
+        error: `Minimum rental period is ${PAYMENT_POLICY.minimumRentalDays} days`
       });
     }
 
-    // Check availability via Booqable orders API for conflicts
+    // Check availability from stock counts and overlapping Booqable orders
+    const requestedQuantity = Number(req.body.quantity) || 1;
     let isAvailable = false;
+    let availableQuantity = 0;
     try {
-      const ordersData = await booqableRequest(`/orders?filter[item_id]=${product_id}&filter[starts_at_gteq]=${start_date}&filter[stops_at_lteq]=${end_date}`);
-      isAvailable = !(ordersData.orders && ordersData.orders.length > 0);
+      const availability = await getProductAvailability(product_id, start_date, end_date);
+      availableQuantity = availability.available_quantity;
+      isAvailable = availableQuantity >= requestedQuantity;
     } catch (apiErr) {
-      console.error('Booqable orders availability check failed:', apiErr);
+      console.error('Booqable availability check failed:', apiErr);
       isAvailable = false;
     }
 
@@ -578,6 +614,7 @@ export const checkAvailability: RequestHandler = async (req, res) => {
       success: true,
       data: {
         available: isAvailable,
+        available_quantity: availableQuantity,
         product_id,
         start_date,
         end_date,
@@ -626,10 +663,7 @@ export const createCustomer: RequestHandler = async (req, res) => {
       }
     };
 
-    const data = await booqableRequest('/customers', {
-      method: 'POST',
-      body: JSON.stringify(customerData)
-    });
+    const data = await booqable.customers.create(customerData.customer);
 
     if (!data.customer) {
       throw new Error('Failed to create customer in Booqable');
@@ -676,7 +710,7 @@ export const getProductsWithImages: RequestHandler = async (req, res) => {
       include: 'images,collections,properties'
     });
 
-    const data = await booqableRequest(`/products?${params}`);
+    const data = await booqable.products.list(params);
 
     // Return the raw data with included images for your frontend to process
     res.json({
@@ -742,10 +776,7 @@ export const createOrder: RequestHandler = async (req, res) => {
       }
     };
 
-    const data = await booqableRequest('/orders', {
-      method: 'POST',
-      body: JSON.stringify(orderData)
-    });
+    const data = await booqable.orders.create(orderData.order);
 
     if (!data.order) {
       throw new Error('Failed to create order in Booqable');
@@ -0,0 +1,121 @@
+import { RequestHandler } from "express";
+import type { CartItemValidation } from "@shared/api";
+import { booqable, BooqableApiError, BooqableProduct } from "../lib/booqable-client";
+import { computeLineAvailability, getReservations, isValidDateString } from "../lib/availability";
+import { amountsAgree, priceLine } from "../lib/pricing";
+
+const MAX_CART_ITEMS = 50;
+
+interface SavedCartItem {
+  id: string;
+  product_id?: string;
+  size?: string;
+  price_per_day: number;
+  // Price per unit for the whole rental, from the product quote
+  rental_price?: number;
+  quantity: number;
+  start_date?: string;
+  end_date?: string;
+}
+
+async function validateItem(item: SavedCartItem): Promise<CartItemValidation> {
+  const productId = item.product_id || item.id;
+
+  let product: BooqableProduct | undefined;
+  try {
+    ({ product } = await booqable.products.get(productId));
+  } catch (error) {
+    if (!(error instanceof BooqableApiError && error.isNotFound)) throw error;
+  }
+
+  if (!product || product.archived) {
+    return { id: item.id, status: 'archived', message: 'This costume is no longer available to hire' };
+  }
+
+  // Lines without dates can't be priced or checked yet; that happens once dates are chosen
+  if (!isValidDateString(item.start_date) || !isValidDateString(item.end_date)) {
+    return { id: item.id, status: 'ok' };
+  }
+
+  const [line, { orders, held }] = await Promise.all([
+    priceLine({ product_id: productId, quantity: item.quantity, start_date: item.start_date, end_date: item.end_date }, product),
+    getReservations(productId, item.start_date, item.end_date),
+  ]);
+  const availability = computeLineAvailability(product, orders, item.start_date, item.end_date, held, item.size);
+
+  if (availability.available_quantity < item.quantity) {
+    return {
+      id: item.id,
+      status: 'unavailable',
+      price_per_day: line.price_per_day,
+      rental_price: line.unit_price,
+      available_quantity: availability.available_quantity,
+      message: availability.available_quantity > 0
+        ? `Only ${availability.available_quantity} available for these dates`
+        : 'No longer available for these dates'
+    };
+  }
+
+  // Carts saved before rentals were quoted only have the price per day
+  const savedPrice = item.rental_price ?? item.price_per_day * line.rental_days;
+  if (!amountsAgree(savedPrice, line.unit_price)) {
+    return {
+      id: item.id,
+      status: 'price_changed',
+      price_per_day: line.price_per_day,
+      rental_price: line.unit_price,
+      available_quantity: availability.available_quantity,
+      message: `Price changed from £${Number(savedPrice).toFixed(2)} to £${line.unit_price.toFixed(2)} for these dates`
+    };
+  }
+
+  return {
+    id: item.id,
+    status: 'ok',
+    price_per_day: line.price_per_day,
+    rental_price: line.unit_price,
+    available_quantity: availability.available_quantity
+  };
+}
+
+// Re-check a saved cart against Booqable: archived products, price changes and dates
+// that have since been booked. Lines are checked independently so one bad line doesn't hide the rest.
+export const validateCart: RequestHandler = async (req, res) => {
+  try {
+    const { items } = req.body;
+
+    if (!Array.isArray(items) || items.length > MAX_CART_ITEMS) {
+      return res.status(400).json({
+        success: false,
+        error: `Items must be an array of at most ${MAX_CART_ITEMS} cart lines`
+      });
+    }
+
+    const validItems = items.filter((item: any): item is SavedCartItem =>
+      item && typeof item.id === 'string' && Number.isInteger(item.quantity) && item.quantity > 0
+    );
+
+    const results: CartItemValidation[] = [];
+    for (const item of validItems) {
+      try {
+        results.push(await validateItem(item));
+      } catch (error) {
+        // Leave the line alone if Booqable can't be reached; checkout re-checks everything
+        console.error(`Error validating cart item ${item.id}:`, error);
+        results.push({ id: item.id, status: 'ok' });
+      }
+    }
+
+    res.json({
+      success: true,
+      data: results
+    });
+
+  } catch (error) {
+    console.error('Error validating cart:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to validate cart'
+    });
+  }
+};
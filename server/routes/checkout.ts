@@ -1,48 +1,91 @@
 import { RequestHandler } from "express";
+import { randomUUID } from "crypto";
 import Stripe from "stripe";
+import { stripe } from "../lib/stripe-client";
+import type { AvailabilityConflict, CheckoutBooking, CheckoutPriceBreakdown, PricedLine } from "@shared/api";
+import { booqable, BooqableApiError, BooqableOrder } from "../lib/booqable-client";
+import { amountsAgree, applyVolumeDiscounts, BreakdownOptions, buildBreakdown, convertBreakdown, getCollectionNames, getProductSizes, priceLine, rentalDaysBetween } from "../lib/pricing";
+import { recordOrderPayment } from "../lib/payment-ledger";
+import { completeCardSetup, getOrCreateStripeCustomer } from "../lib/stripe-customers";
+import { recordSecurityDepositSession } from "../lib/security-deposits";
+import {
+  computeLineAvailability,
+  findAlternativeDates,
+  getOverlappingOrders,
+  getReservations,
+  getSuggestionSearchWindow,
+  isValidDateString,
+  MAX_SUGGESTIONS,
+} from "../lib/availability";
+import { applyPromoCode, confirmPromoRedemption, PromoCodeError, releasePromoRedemption, reservePromoCode } from "../lib/promo-codes";
+import {
+  checkoutExpiresAt,
+  convertInventoryHold,
+  findHoldByCancelToken,
+  getHolderSessions,
+  HeldLine,
+  placeInventoryHold,
+  releaseExpiredHolds,
+  releaseInventoryHold,
+} from "../lib/inventory-holds";
+import { inclusiveTaxFields } from "../lib/stripe-tax";
+import { getCheckoutCurrency, getOrderCurrency, toBasePence } from "../lib/exchange-rates";
+import {
+  claimQuoteAcceptance,
+  createQuote,
+  emailQuote,
+  getQuote,
+  getQuoteSummary,
+  QuoteError,
+  recordQuoteSession,
+  releaseQuoteAcceptance,
+} from "../lib/quotes";
+import { adminDb } from "../lib/firebase-admin";
+import { getBooqableCustomerId } from "../middleware/order-access";
+import { PAYMENT_POLICY, POLICY_TERMS } from "../../shared/payment-policy";
+import {
+  calculateDeliveryCharges,
+  DEFAULT_DELIVERY_METHOD,
+  DEFAULT_RETURN_METHOD,
+  DELIVERY_COUNTRIES,
+  DeliveryMethodId,
+  DeliverySelection,
+  getDeliveryMethod,
+  getReturnInstructions,
+  getReturnMethod,
+  ReturnMethodId,
+} from "../../shared/delivery";
+import { calculateTax, summariseTax, TAX_POLICY } from "../../shared/tax";
+import { formatMoney, resolveCurrency } from "../../shared/currency";
+import { getQuoteRentalPeriod } from "../../shared/quotes";
+import {
+  claimWebhookEvent,
+  getDeadLetter,
+  getSessionFulfilment,
+  getSessionOrderIds,
+  listDeadLetters,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+  recordDeadLetter,
+  recordDeadLetterReplay,
+  recordSessionOrders,
+  resolveDeadLetter,
+} from "../lib/webhook-ledger";
 
-const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
 const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
 
-if (!STRIPE_SECRET_KEY) {
-  console.error("STRIPE_SECRET_KEY environment variable is not set");
-}
-
-const stripe = STRIPE_SECRET_KEY ? new Stripe(STRIPE_SECRET_KEY, {
-  apiVersion: '2024-06-20',
-}) : null;
-
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
 interface CartItem {
   product_id: string;
+  size?: string;
   quantity: number;
   start_date: string;
   end_date: string;
-  rental_days: number;
-  price_per_day: number;
+  rental_days?: number;
+  // Client-side prices are only used to detect stale carts, never to charge
+  price_per_day?: number;
+  // Quoted price per unit for the whole rental (GBP)
+  rental_price?: number;
+  expected_line_total?: number;
 }
 
 interface CheckoutSession {
@@ -60,10 +103,206 @@ interface CheckoutSession {
     country: string;
   };
   special_instructions?: string;
+  promo_code?: string;
+  currency?: string;
+  delivery_method?: DeliveryMethodId;
+  return_method?: ReturnMethodId;
+  expected_total?: number;
+}
+
+// Delivery options from a quote or checkout request; missing methods fall back to the defaults
+function parseDeliverySelection(body: any): DeliverySelection {
+  return {
+    delivery_method: body?.delivery_method || DEFAULT_DELIVERY_METHOD,
+    return_method: body?.return_method || DEFAULT_RETURN_METHOD,
+    country: body?.delivery_address?.country,
+    postcode: body?.delivery_address?.postal_code,
+  };
+}
+
+// Re-price the submitted cart lines from Booqable. Client prices are never trusted.
+// Group order volume discounts come off the line prices before promo codes and delivery.
+// A promo code that can't be used leaves the prices undiscounted, with the reason in `promo_error`;
+// delivery options that can't be priced yet are quoted as standard delivery, with `delivery_error`.
+async function priceCheckoutItems(
+  items: CartItem[],
+  { promo = {}, delivery }: { promo?: { code?: string; email?: string }; delivery?: DeliverySelection } = {},
+): Promise<{
+  breakdown?: CheckoutPriceBreakdown;
+  error?: { status: number; message: string };
+}> {
+  if (!items || !Array.isArray(items) || items.length === 0) {
+    return { error: { status: 400, message: 'Items are required' } };
+  }
+
+  const listed: PricedLine[] = [];
+
+  for (const item of items) {
+    if (!item.product_id || !item.start_date || !item.end_date) {
+      return { error: { status: 400, message: 'Each item requires a product ID, start date and end date' } };
+    }
+
+    if (!isValidDateString(item.start_date) || !isValidDateString(item.end_date)) {
+      return { error: { status: 400, message: `Dates must be in YYYY-MM-DD format for product ${item.product_id}` } };
+    }
+
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return { error: { status: 400, message: `Invalid quantity for product ${item.product_id}` } };
+    }
+
+    // Validate minimum rental period from the dates rather than the client's rental_days
+    if (rentalDaysBetween(item.start_date, item.end_date) < PAYMENT_POLICY.minimumRentalDays) {
+      return { error: { status: 400, message: `Minimum rental period is ${PAYMENT_POLICY.minimumRentalDays} days for product ${item.product_id}` } };
+    }
+
+    let product;
+    let included: any[] | undefined;
+    try {
+      const productData = await booqable.products.get(item.product_id, { include: 'collections' });
+      product = productData.product;
+      included = productData.included;
+    } catch (error) {
+      if (!(error instanceof BooqableApiError && error.isNotFound)) throw error;
+    }
+
+    if (!product || product.archived) {
+      return { error: { status: 404, message: `Product ${item.product_id} not found` } };
+    }
+
+    // Costumes offered in sizes need one chosen, so the warehouse knows what to pack
+    const sizes = getProductSizes(product);
+    if (sizes.length > 0 && (!item.size || !sizes.includes(item.size))) {
+      return {
+        error: {
+          status: 400,
+          message: item.size
+            ? `Size ${item.size} is not available for ${product.name}`
+            : `Please choose a size for ${product.name}`
+        }
+      };
+    }
+
+    const priceable = { ...item, size: sizes.length > 0 ? item.size : undefined };
+    listed.push(await priceLine(priceable, product, getCollectionNames(product, included)));
+  }
+
+  const lines = applyVolumeDiscounts(listed);
+
+  const subtotal = lines.reduce((sum, line) => sum + Math.round(line.line_total * 100), 0) / 100;
+  const charges = delivery ? calculateDeliveryCharges(delivery, subtotal) : null;
+  const options: BreakdownOptions = {};
+  const notices: Pick<CheckoutPriceBreakdown, 'promo_error' | 'delivery_error'> = {};
+
+  if (charges) {
+    if ('error' in charges) {
+      notices.delivery_error = charges.error;
+    } else {
+      options.delivery = { ...charges, delivery_method: delivery!.delivery_method, return_method: delivery!.return_method };
+    }
+  }
+
+  if (promo.code?.trim()) {
+    try {
+      const { promo: promoCode, discount } = await applyPromoCode(promo.code, lines, { email: promo.email });
+      options.promo = { code: promoCode.code, discount };
+    } catch (error) {
+      if (!(error instanceof PromoCodeError)) throw error;
+      notices.promo_error = error.message;
+    }
+  }
+
+  return { breakdown: { ...buildBreakdown(lines, options), ...notices } };
+}
+
+// Check every priced line against live availability (orders and other customers' checkout holds),
+// with alternative dates for any line that no longer fits. Lines for the same product share its
+// stock, so earlier lines in the cart count against later ones; sizes with their own stock count
+// (see getSizeStockCounts) are checked per size as well. `heldLines`, when given, are the holds to
+// count (read in the transaction placing this checkout's hold) instead of reading them again.
+async function findAvailabilityConflicts(lines: PricedLine[], heldLines?: HeldLine[]): Promise<AvailabilityConflict[]> {
+  const earliestStart = new Date().toISOString().slice(0, 10);
+  const conflicts: AvailabilityConflict[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    const search = getSuggestionSearchWindow(line.start_date, line.rental_days, earliestStart);
+    const from = [search.from, line.start_date].sort()[0];
+    const [{ product }, { orders, held }] = await Promise.all([
+      booqable.products.get(line.product_id),
+      heldLines
+        ? getOverlappingOrders(line.product_id, from, search.to).then(orders => ({
+          orders,
+          held: heldLines.filter(held => held.product_id === line.product_id),
+        }))
+        : getReservations(line.product_id, from, search.to),
+    ]);
+
+    const earlierLines = lines.slice(0, index).filter(other => other.product_id === line.product_id);
+    const availability = computeLineAvailability(product, orders, from, search.to, [...held, ...earlierLines], line.size);
+    const requestedDays = availability.daily.filter(day => day.date >= line.start_date && day.date <= line.end_date);
+    const conflictingDates = requestedDays.filter(day => day.available < line.quantity).map(day => day.date);
+    if (conflictingDates.length === 0) continue;
+
+    conflicts.push({
+      line_index: index,
+      product_id: line.product_id,
+      ...(line.size && { size: line.size }),
+      name: line.name,
+      quantity: line.quantity,
+      start_date: line.start_date,
+      end_date: line.end_date,
+      available_quantity: Math.min(...requestedDays.map(day => day.available)),
+      conflicting_dates: conflictingDates,
+      suggestions: findAlternativeDates(availability, line.start_date, line.rental_days, line.quantity, {
+        earliestStart,
+        limit: MAX_SUGGESTIONS,
+      }),
+    });
+  }
+
+  return conflicts;
+}
+
+// Currency the customer sees and pays in: their choice or saved preference (sent by the client),
+// otherwise their browser's locale
+function checkoutCurrency(req: { body?: any; headers: Record<string, string | string[] | undefined> }) {
+  const locale = req.headers['accept-language'];
+  return getCheckoutCurrency(resolveCurrency({
+    preferred: req.body?.currency,
+    locale: Array.isArray(locale) ? locale[0] : locale,
+  }));
 }
 
+// Quote the cart: returns the authoritative price breakdown shown on the checkout page,
+// in the customer's currency
+export const quoteCheckout: RequestHandler = async (req, res) => {
+  try {
+    const { breakdown, error } = await priceCheckoutItems(req.body?.items, {
+      promo: { code: req.body?.promo_code, email: req.body?.customer_email },
+      delivery: parseDeliverySelection(req.body)
+    });
+
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.json({
+      success: true,
+      data: convertBreakdown(breakdown, await checkoutCurrency(req))
+    });
+  } catch (error) {
+    console.error('Error quoting checkout:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to calculate prices'
+    });
+  }
+};
+
 // Create Stripe Checkout Session
-export const createCheckoutSession: RequestHandler = async (req, res) => {
+export const createCheckoutSession: RequestHandler = async (req: any, res) => {
   try {
     if (!stripe) {
       return res.status(500).json({
@@ -72,171 +311,571 @@ export const createCheckoutSession: RequestHandler = async (req, res) => {
       });
     }
 
-    const { items, customer, delivery_address, special_instructions }: CheckoutSession = req.body;
+    const { items, customer, delivery_address, special_instructions, promo_code, expected_total }: CheckoutSession = req.body;
 
-    if (!items || !Array.isArray(items) || items.length === 0) {
+    if (!customer || !customer.email || !customer.name) {
       return res.status(400).json({
         success: false,
-        error: 'Items are required'
+        error: 'Customer name and email are required'
       });
     }
 
-    if (!customer || !customer.email || !customer.name) {
+    const delivery = parseDeliverySelection(req.body);
+    const needsAddress = getDeliveryMethod(delivery.delivery_method)?.requiresAddress
+      || getReturnMethod(delivery.return_method)?.requiresAddress;
+
+    if (needsAddress && (!delivery_address?.line1 || !delivery_address.city || !delivery_address.postal_code)) {
       return res.status(400).json({
         success: false,
-        error: 'Customer name and email are required'
+        error: 'A delivery address is required for the chosen delivery or return option'
+      });
+    }
+
+    // A signed-in customer checking out again has abandoned their earlier checkout (closed the tab
+    // or used the back button); free its stock and promo code use before pricing this one
+    if (req.user?.uid) {
+      for (const sessionId of await getHolderSessions(req.user.uid)) {
+        await abandonCheckoutSession(sessionId).catch(abandonError =>
+          console.warn(`Could not release earlier checkout ${sessionId}:`, abandonError));
+      }
+    }
+
+    const { breakdown, error } = await priceCheckoutItems(items, {
+      promo: { code: promo_code, email: customer.email },
+      delivery
+    });
+
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (breakdown.delivery_error) {
+      return res.status(400).json({
+        success: false,
+        error: breakdown.delivery_error
+      });
+    }
+
+    // Everything below is priced in GBP; the customer is shown and charged `charged`
+    const chargeCurrency = await checkoutCurrency(req);
+    const charged = convertBreakdown(breakdown, chargeCurrency);
+
+    if (breakdown.promo_error) {
+      return res.status(400).json({
+        success: false,
+        error: breakdown.promo_error,
+        data: {
+          price_breakdown: charged
+        }
+      });
+    }
+
+    // Reject the request if the totals the client displayed disagree with the server prices
+    // (expected totals are in the customer's currency, cart prices in GBP). A flat price per day
+    // only describes lines priced per day; tiered and weekend rates are checked via rental_price.
+    const mismatchedProducts = breakdown.lines
+      .filter((line, index) => {
+        const item = items[index];
+        if (item.expected_line_total !== undefined) return !amountsAgree(item.expected_line_total, charged.lines[index].line_total);
+        if (item.rental_price !== undefined) return !amountsAgree(item.rental_price * item.quantity, line.line_total);
+        if (item.price_per_day === undefined || line.pricing_method !== 'per_day') return false;
+        return !amountsAgree(item.price_per_day * item.quantity * (item.rental_days ?? line.rental_days), line.line_total);
+      })
+      .map(line => line.product_id);
+    const totalMismatch = expected_total !== undefined && !amountsAgree(expected_total, charged.grand_total);
+
+    if (mismatchedProducts.length > 0 || totalMismatch) {
+      console.warn('Checkout rejected due to price mismatch:', { mismatchedProducts, expected_total, grand_total: charged.grand_total, currency: charged.currency });
+      return res.status(409).json({
+        success: false,
+        error: 'Prices have changed since your cart was updated. Please review the updated totals.',
+        data: {
+          price_breakdown: charged,
+          mismatched_products: mismatchedProducts
+        }
       });
     }
 
-    // Validate all items and get product details
-    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-    let orderTotal = 0;
-    const productDetails: Array<{
-      product_id: string;
-      name: string;
-      sku: string;
-      quantity: number;
-      rental_days: number;
-      start_date: string;
-      end_date: string;
-      price_per_day: number;
-      total_price: number;
-    }> = [];
-
-    for (const item of items) {
-      // Validate minimum rental period
-      if (item.rental_days < 8) {
+    const rejectConflicts = (conflicts: AvailabilityConflict[]) => res.status(400).json({
+      success: false,
+      error: conflicts.length === 1
+        ? `${conflicts[0].name} is no longer available for your dates. Please choose different dates.`
+        : 'Some items are no longer available for your dates. Please choose different dates.',
+      data: {
+        conflicts
+      }
+    });
+
+    // Someone may have booked the same costume since it went in the cart
+    const conflicts = await findAvailabilityConflicts(breakdown.lines);
+    if (conflicts.length > 0) {
+      return rejectConflicts(conflicts);
+    }
+
+    // Coming back from Stripe without paying releases the hold (see cancelCheckoutSession)
+    const cancelToken = randomUUID();
+    const session = await createDepositSession({
+      breakdown,
+      charged,
+      customer,
+      delivery_address,
+      special_instructions,
+      uid: req.user?.uid,
+      cancel_url: `${CLIENT_URL}/cart?checkout_cancelled=${cancelToken}`,
+    });
+
+    // Reserve the promo code use and hold the stock while the customer pays, checking the stock
+    // again against other holds as it is held. If either fails the session must not be used.
+    try {
+      if (breakdown.promo_code) {
+        await reservePromoCode(breakdown.promo_code, session.id, { email: customer.email, uid: req.user?.uid }, breakdown.discount);
+      }
+      const held = await placeInventoryHold(session.id, breakdown.lines, session.expires_at, {
+        holder: req.user?.uid,
+        cancel_token: cancelToken,
+        findConflicts: held => findAvailabilityConflicts(breakdown.lines, held),
+      });
+      if (held.conflicts.length > 0) {
+        await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+        await releasePromoRedemption(session.id).catch(() => undefined);
+        return rejectConflicts(held.conflicts);
+      }
+    } catch (reserveError) {
+      await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+      await releasePromoRedemption(session.id).catch(() => undefined);
+      if (reserveError instanceof PromoCodeError) {
         return res.status(400).json({
           success: false,
-          error: `Minimum rental period is 8 days for product ${item.product_id}`
+          error: reserveError.message
         });
       }
+      throw reserveError;
+    }
 
-      // Get product details from Booqable
-      const productData = await booqableRequest(`/products/${item.product_id}`);
-      
-      if (!productData.product) {
-        return res.status(404).json({
-          success: false,
-          error: `Product ${item.product_id} not found`
-        });
+    res.json({
+      success: true,
+      data: {
+        session_id: session.id,
+        checkout_url: session.url,
+        expires_at: new Date(session.expires_at * 1000).toISOString(),
+        currency: charged.currency,
+        order_total: charged.subtotal,
+        discount: charged.discount,
+        delivery_fee: charged.delivery_fee,
+        return_fee: charged.return_fee,
+        grand_total: charged.grand_total,
+        deposit: charged.deposit,
+        balance_due: charged.balance_due,
+        price_breakdown: charged
       }
+    });
+
+  } catch (error) {
+    console.error('Error creating checkout session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create checkout session'
+    });
+  }
+};
 
-      const product = productData.product;
-      const itemTotal = item.price_per_day * item.quantity * item.rental_days;
-      orderTotal += itemTotal;
-
-      // Add to product details for order creation
-      productDetails.push({
-        product_id: item.product_id,
-        name: product.name,
-        sku: product.sku || '',
-        quantity: item.quantity,
-        rental_days: item.rental_days,
-        start_date: item.start_date,
-        end_date: item.end_date,
-        price_per_day: item.price_per_day,
-        total_price: itemTotal
-      });
-
-      // Create Stripe line item
-      lineItems.push({
+// The deposit Checkout Session for a priced cart or an accepted quote (`breakdown` in GBP, `charged`
+// in the customer's currency). The lines, delivery and VAT go in the metadata for the webhook.
+async function createDepositSession({
+  breakdown,
+  charged,
+  customer,
+  delivery_address,
+  special_instructions,
+  uid,
+  cancel_url,
+  metadata = {},
+}: {
+  breakdown: CheckoutPriceBreakdown;
+  charged: CheckoutPriceBreakdown;
+  customer: CheckoutSession['customer'];
+  delivery_address?: CheckoutSession['delivery_address'];
+  special_instructions?: string;
+  uid?: string;
+  cancel_url: string;
+  metadata?: Record<string, string>;
+}) {
+  if (!stripe) throw new Error('Stripe is not configured');
+
+  const needsAddress = getDeliveryMethod(breakdown.delivery_method)?.requiresAddress
+    || getReturnMethod(breakdown.return_method)?.requiresAddress;
+
+  const stripeCurrency = charged.currency.toLowerCase();
+  const productDetails = breakdown.lines.map(line => ({
+    product_id: line.product_id,
+    ...(line.size && { size: line.size }),
+    name: line.name,
+    sku: line.sku,
+    quantity: line.quantity,
+    rental_days: line.rental_days,
+    start_date: line.start_date,
+    end_date: line.end_date,
+    price_per_day: line.price_per_day,
+    total_price: line.line_total,
+    ...(line.discount && { discount: line.discount }),
+    ...(line.volume_discount && { volume_discount: line.volume_discount, volume_discount_percent: line.volume_discount_percent }),
+    ...(line.security_deposit > 0 && { security_deposit: line.security_deposit })
+  }));
+
+  // Deposit in the customer's currency (pence for GBP), as calculated by the pricing module from the payment policy
+  const grandTotal = breakdown.grand_total;
+  const depositMinor = Math.round(charged.deposit * 100);
+
+  const securityDepositPence = Math.round(breakdown.security_deposit * 100);
+
+  // Signed-in customers pay as their Stripe Customer and keep the card for the balance payment
+  const stripeCustomerId = uid
+    ? await getOrCreateStripeCustomer(uid, { email: customer.email, name: customer.name })
+    : null;
+  // Guests get a Stripe Customer too when a security deposit has to be held on their card later
+  const saveCard = !!stripeCustomerId || securityDepositPence > 0;
+
+  // The deposit is a share of the VAT-inclusive total, so Stripe shows the VAT it contains
+  const depositTax = await inclusiveTaxFields();
+
+  // Create Stripe Checkout Session for deposit only
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    line_items: [
+      {
         price_data: {
-          currency: 'gbp',
+          currency: stripeCurrency,
           product_data: {
-            name: `${product.name} (${item.rental_days}-day rental)`,
-            description: `Rental period: ${item.start_date} to ${item.end_date}`,
-            images: product.photo_url ? [product.photo_url] : [],
-            metadata: {
-              product_id: item.product_id,
-              rental_days: item.rental_days.toString(),
-              start_date: item.start_date,
-              end_date: item.end_date,
-            }
+            name: `Rental Deposit (${Math.round(PAYMENT_POLICY.depositRate * 100)}%)`,
+            description: POLICY_TERMS.balance
           },
-          unit_amount: Math.round(item.price_per_day * item.rental_days * 100), // Convert to pence
+          unit_amount: depositMinor,
+          ...depositTax.priceData,
         },
-        quantity: item.quantity,
+        quantity: 1,
+        ...depositTax.lineItem,
+      }
+    ],
+    mode: 'payment',
+    // The cart is held for as long as the session is open
+    expires_at: checkoutExpiresAt(),
+    success_url: `${CLIENT_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url,
+    ...(stripeCustomerId
+      ? { customer: stripeCustomerId }
+      : { customer_email: customer.email, ...(saveCard && { customer_creation: 'always' as const }) }),
+    ...(saveCard && { payment_intent_data: { setup_future_usage: 'off_session' as const } }),
+    ...(securityDepositPence > 0 && {
+      custom_text: {
+        submit: {
+          message: `A refundable security deposit of ${formatMoney(charged.security_deposit, charged.currency)} will be held on this card ${PAYMENT_POLICY.securityDepositHoldDaysBeforeRental} days before your rental and released after the return inspection.`
+        }
+      }
+    }),
+    metadata: {
+      order_type: 'rental',
+      customer_name: customer.name,
+      customer_phone: customer.phone || '',
+      delivery_address: needsAddress && delivery_address ? JSON.stringify(delivery_address) : '',
+      delivery_method: breakdown.delivery_method,
+      return_method: breakdown.return_method,
+      delivery_zone: breakdown.delivery_zone || '',
+      delivery_fee_gbp: breakdown.delivery_fee.toFixed(2),
+      return_fee_gbp: breakdown.return_fee.toFixed(2),
+      special_instructions: special_instructions || '',
+      ...splitMetadata('product_details', JSON.stringify(productDetails)),
+      order_total_gbp: grandTotal.toFixed(2),
+      deposit_gbp: breakdown.deposit.toFixed(2),
+      balance_gbp: breakdown.balance_due.toFixed(2),
+      security_deposit_gbp: (securityDepositPence / 100).toFixed(2),
+      promo_code: breakdown.promo_code || '',
+      discount_gbp: breakdown.discount.toFixed(2),
+      vat_rate: breakdown.tax.rate.toString(),
+      prices_include_vat: breakdown.tax.inclusive ? 'true' : 'false',
+      vat_gbp: breakdown.tax.tax.toFixed(2),
+      currency: charged.currency,
+      exchange_rate: charged.exchange_rate.toString(),
+      ...metadata,
+    },
+    shipping_address_collection: !needsAddress || delivery_address ? undefined : {
+      allowed_countries: DELIVERY_COUNTRIES as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[],
+    },
+    phone_number_collection: {
+      enabled: true,
+    },
+  });
+
+  return session;
+}
+
+// Request a quote for the cart (signed-in customers): priced like a checkout but without promo codes,
+// created in Booqable as a concept order that holds no stock, and emailed as a PDF
+export const requestQuote: RequestHandler = async (req: any, res) => {
+  try {
+    const { items, delivery_address, special_instructions, reference } = req.body || {};
+    const customer: CheckoutSession['customer'] = {
+      ...req.body?.customer,
+      email: req.body?.customer?.email || req.user.email,
+    };
+
+    if (!customer.email || !customer.name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Customer name and email are required'
       });
     }
 
-    // Add delivery fee if applicable
-    const deliveryFee = orderTotal >= 100 ? 0 : 10;
-    if (deliveryFee > 0) {
-      lineItems.push({
-        price_data: {
-          currency: 'gbp',
-          product_data: {
-            name: 'Delivery Fee',
-            description: 'Free delivery on orders over £100'
-          },
-          unit_amount: deliveryFee * 100, // Convert to pence
-        },
-        quantity: 1,
+    const delivery = parseDeliverySelection(req.body);
+    const needsAddress = getDeliveryMethod(delivery.delivery_method)?.requiresAddress
+      || getReturnMethod(delivery.return_method)?.requiresAddress;
+
+    if (needsAddress && (!delivery_address?.line1 || !delivery_address.city || !delivery_address.postal_code)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A delivery address is required for the chosen delivery or return option'
+      });
+    }
+
+    if (Array.isArray(items) && items.length > 0 && !getQuoteRentalPeriod(items)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A quote covers one rental period. Please request a separate quote for each set of dates.'
       });
     }
 
-    // Calculate 10% deposit in pence
-    const grandTotal = orderTotal + deliveryFee;
-    const depositPence = Math.max(1, Math.round(grandTotal * 100 * 0.10));
+    const { breakdown, error } = await priceCheckoutItems(items, { delivery });
 
-    // Create Stripe Checkout Session for deposit only
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'gbp',
-            product_data: {
-              name: 'Rental Deposit (10%)',
-              description: 'Balance due before pickup/dispatch'
-            },
-            unit_amount: depositPence,
-          },
-          quantity: 1,
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (breakdown.delivery_error) {
+      return res.status(400).json({
+        success: false,
+        error: breakdown.delivery_error
+      });
+    }
+
+    // There's no point quoting costumes that are already booked for these dates
+    const conflicts = await findAvailabilityConflicts(breakdown.lines);
+    if (conflicts.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: conflicts.length === 1
+          ? `${conflicts[0].name} is not available for your dates. Please choose different dates.`
+          : 'Some items are not available for your dates. Please choose different dates.',
+        data: {
+          conflicts
         }
-      ],
-      mode: 'payment',
-      success_url: `${CLIENT_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${CLIENT_URL}/cart`,
-      customer_email: customer.email,
-      metadata: {
-        order_type: 'rental',
-        customer_name: customer.name,
-        customer_phone: customer.phone || '',
-        delivery_address: delivery_address ? JSON.stringify(delivery_address) : '',
+      });
+    }
+
+    // The quote must belong to the user's Booqable customer so they can accept it from My Orders.
+    // Linking grants access to every order of that customer (see requireOrderAccess), so an existing
+    // customer is only linked by the account's verified email, never by the contact email sent here.
+    let customerId = await getBooqableCustomerId(req.user.uid);
+    if (!customerId) {
+      const existing = req.user.email && req.user.email_verified
+        ? (await booqable.customers.list({ 'filter[email]': req.user.email })).customers?.[0]
+        : undefined;
+      customerId = existing?.id
+        ?? (await booqable.customers.create({ name: customer.name, email: req.user.email || customer.email, phone: customer.phone || '' })).customer.id;
+      await adminDb.collection('users').doc(req.user.uid).set({
+        booqableCustomerId: customerId,
+        updatedAt: new Date()
+      }, { merge: true });
+    }
+
+    const currency = await checkoutCurrency(req);
+    const order = await createQuote({
+      customerId,
+      breakdown,
+      currency,
+      request: {
+        customer,
+        ...(needsAddress && { delivery_address }),
         special_instructions: special_instructions || '',
-        product_details: JSON.stringify(productDetails),
-        order_total_gbp: grandTotal.toFixed(2),
-        deposit_gbp: (depositPence / 100).toFixed(2),
-        balance_gbp: (grandTotal - depositPence / 100).toFixed(2),
-      },
-      shipping_address_collection: delivery_address ? undefined : {
-        allowed_countries: ['GB'],
-      },
-      phone_number_collection: {
-        enabled: true,
+        reference: typeof reference === 'string' ? reference.trim().slice(0, 100) : '',
       },
     });
 
+    // The quote stands even if the email can't be queued; it can be downloaded from My Orders
+    let emailed = true;
+    try {
+      await emailQuote(order.id);
+    } catch (emailError) {
+      console.error('Failed to email quote:', order.id, emailError);
+      emailed = false;
+    }
+
     res.json({
+      success: true,
+      data: {
+        order_id: order.id,
+        number: order.number != null ? String(order.number) : null,
+        quote: getQuoteSummary(order.properties),
+        emailed,
+        price_breakdown: convertBreakdown(breakdown, currency)
+      }
+    });
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error requesting quote:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create quote'
+    });
+  }
+};
+
+// Accept a quote (owner only): opens the deposit checkout at the quoted prices and currency.
+// Paying it confirms the quote's Booqable order (see processAcceptedQuote).
+export const acceptQuote: RequestHandler = async (req: any, res) => {
+  try {
+    if (!stripe) {
+      return res.status(500).json({
+        success: false,
+        error: 'Stripe is not configured'
+      });
+    }
+
+    const { orderId } = req.params;
+    const { order } = await booqable.orders.get(orderId);
+    const quote = getQuote(order);
+
+    if (!quote) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quote not found'
+      });
+    }
+
+    if (quote.summary.status === 'accepted' || order.status !== 'concept') {
+      return res.status(409).json({
+        success: false,
+        error: quote.summary.status === 'accepted' ? 'This quote has already been accepted' : 'This quote is no longer available'
+      });
+    }
+
+    if (quote.summary.status === 'expired') {
+      return res.status(400).json({
+        success: false,
+        error: `This quote expired on ${new Date(quote.summary.expires_at).toLocaleDateString('en-GB')}. Please request a new quote.`
+      });
+    }
+
+    const { breakdown, request } = quote;
+    const charged = convertBreakdown(breakdown, quote.currency);
+    const sessionResponse = (session: Stripe.Checkout.Session) => res.json({
       success: true,
       data: {
         session_id: session.id,
         checkout_url: session.url,
-        order_total: orderTotal,
-        delivery_fee: deliveryFee,
-        grand_total: grandTotal,
-        deposit: depositPence / 100,
-        balance_due: grandTotal - depositPence / 100
+        expires_at: new Date(session.expires_at * 1000).toISOString(),
+        deposit: charged.deposit,
+        price_breakdown: charged
       }
     });
 
+    // Retries and double-clicks get the checkout already open for this quote
+    const claim = await claimQuoteAcceptance(order.id);
+    if (claim.status === 'in_progress') {
+      return res.status(409).json({
+        success: false,
+        error: 'This quote is already being accepted. Please try again in a moment.'
+      });
+    }
+    if (claim.status === 'open') {
+      const open = await stripe.checkout.sessions.retrieve(claim.session_id);
+      if (open.status === 'open') {
+        return sessionResponse(open);
+      }
+      if (open.status === 'complete') {
+        return res.status(409).json({
+          success: false,
+          error: 'This quote has already been accepted'
+        });
+      }
+      // Expired early; let the next attempt start afresh
+      await releaseQuoteAcceptance(order.id, open.id);
+      return res.status(409).json({
+        success: false,
+        error: 'Your previous checkout for this quote has closed. Please try again.'
+      });
+    }
+
+    const rejectConflicts = async (conflicts: AvailabilityConflict[]) => {
+      await releaseQuoteAcceptance(order.id);
+      return res.status(400).json({
+        success: false,
+        error: conflicts.length === 1
+          ? `${conflicts[0].name} is no longer available for the quoted dates. Please request a new quote.`
+          : 'Some items are no longer available for the quoted dates. Please request a new quote.',
+        data: {
+          conflicts
+        }
+      });
+    };
+
+    let session: Stripe.Checkout.Session;
+    try {
+      // Quotes don't hold stock, so check the costumes are still free
+      const conflicts = await findAvailabilityConflicts(breakdown.lines);
+      if (conflicts.length > 0) {
+        return rejectConflicts(conflicts);
+      }
+
+      session = await createDepositSession({
+        breakdown,
+        charged,
+        customer: request.customer,
+        delivery_address: request.delivery_address,
+        special_instructions: request.special_instructions,
+        uid: req.user.uid,
+        cancel_url: `${CLIENT_URL}/orders?order=${order.id}`,
+        metadata: {
+          quote_order_id: order.id,
+          quote_number: quote.summary.quote_number,
+        },
+      });
+    } catch (sessionError) {
+      await releaseQuoteAcceptance(order.id).catch(() => undefined);
+      throw sessionError;
+    }
+
+    try {
+      const held = await placeInventoryHold(session.id, breakdown.lines, session.expires_at, {
+        findConflicts: held => findAvailabilityConflicts(breakdown.lines, held),
+      });
+      if (held.conflicts.length > 0) {
+        await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+        return rejectConflicts(held.conflicts);
+      }
+      await recordQuoteSession(order.id, session.id, session.expires_at);
+    } catch (holdError) {
+      await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+      await releaseInventoryHold(session.id).catch(() => undefined);
+      await releaseQuoteAcceptance(order.id).catch(() => undefined);
+      throw holdError;
+    }
+
+    sessionResponse(session);
   } catch (error) {
-    console.error('Error creating checkout session:', error);
+    console.error('Error accepting quote:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create checkout session'
+      error: 'Failed to accept quote'
     });
   }
 };
@@ -265,16 +904,44 @@ export const handleStripeWebhook: RequestHandler = async (req, res) => {
       return res.status(400).json({ error: 'Invalid signature' });
     }
 
-    if (event.type === 'checkout.session.completed') {
+    if (event.type === 'checkout.session.expired') {
+      // Abandoned checkout: free the held stock (releasing twice is harmless)
       const session = event.data.object as Stripe.Checkout.Session;
-      
-      try {
-        await processSuccessfulPayment(session);
-        console.log('Order processed successfully for session:', session.id);
-      } catch (error) {
-        console.error('Error processing successful payment:', error);
-        // Don't return error to Stripe - we don't want to retry
+      await releaseInventoryHold(session.id);
+      await releasePromoRedemption(session.id);
+      if (session.metadata?.quote_order_id) {
+        await releaseQuoteAcceptance(session.metadata.quote_order_id, session.id);
       }
+      return res.json({ received: true });
+    }
+
+    if (event.type !== 'checkout.session.completed') {
+      return res.json({ received: true });
+    }
+
+    const session = event.data.object as Stripe.Checkout.Session;
+
+    // Stripe delivers events at least once; the ledger makes sure each is processed at most once
+    const claim = await claimWebhookEvent(event.id, event.type, session.id);
+    if (claim === 'duplicate') {
+      return res.json({ received: true, duplicate: true });
+    }
+    if (claim === 'in_progress') {
+      // Another delivery is still working on it; a non-2xx makes Stripe retry later
+      return res.status(409).json({ error: 'Event is already being processed' });
+    }
+
+    try {
+      const result = await fulfilCheckoutSession(session);
+      await markWebhookEventProcessed(event.id, result);
+      await resolveDeadLetter(session.id, result);
+      console.log('Order processed successfully for session:', session.id);
+    } catch (error) {
+      console.error('Error processing successful payment:', error);
+      await markWebhookEventFailed(event.id, error);
+      await recordDeadLetter(session.id, event.id, event.type, error);
+      // Let Stripe retry; the session stays in the dead-letter list until processed or replayed
+      return res.status(500).json({ error: 'Failed to process checkout session' });
     }
 
     res.json({ received: true });
@@ -284,6 +951,220 @@ export const handleStripeWebhook: RequestHandler = async (req, res) => {
   }
 };
 
+// Create the Booqable order(s) for a paid session and summarise the result for the ledger.
+// Deposit/balance and security deposit sessions for an existing order are recorded against that order,
+// and setup sessions (cards saved from Settings) only update the customer's default card.
+async function fulfilCheckoutSession(session: Stripe.Checkout.Session) {
+  if (session.mode === 'setup') {
+    // A card added from Settings; nothing to book
+    await completeCardSetup(session);
+    return {
+      session_id: session.id,
+      booqable_order_ids: [] as string[],
+      bookings: [] as CheckoutBooking[],
+    };
+  }
+
+  const { order_id, payment_type } = session.metadata || {};
+  if (order_id && payment_type === 'security_deposit') {
+    await recordSecurityDepositSession(order_id, session);
+    return {
+      session_id: session.id,
+      booqable_order_ids: [order_id],
+      bookings: [] as CheckoutBooking[],
+    };
+  }
+  if (order_id && (payment_type === 'deposit' || payment_type === 'final')) {
+    await recordOrderPayment(order_id, payment_type, session);
+    return {
+      session_id: session.id,
+      booqable_order_ids: [order_id],
+      bookings: [] as CheckoutBooking[],
+    };
+  }
+
+  const orders = session.metadata?.quote_order_id
+    ? [await processAcceptedQuote(session)]
+    : await processSuccessfulPayment(session);
+  // The Booqable orders reserve the stock from here on, and the promo code use is final
+  await convertInventoryHold(session.id);
+  await confirmPromoRedemption(session.id, orders.map(order => order.id));
+  return {
+    session_id: session.id,
+    booqable_order_ids: orders.map(order => order.id),
+    bookings: orders.map((order): CheckoutBooking => ({
+      order_id: order.id,
+      number: order.number != null ? String(order.number) : null,
+      start_date: order.starts_at,
+      end_date: order.stops_at,
+    })),
+  };
+}
+
+// Close a checkout the customer abandoned: expire the Stripe session and free its stock and promo
+// code use. A session paid in the meantime is left alone.
+async function abandonCheckoutSession(sessionId: string) {
+  if (!stripe) throw new Error('Stripe is not configured');
+
+  const session = await stripe.checkout.sessions.retrieve(sessionId);
+  if (session.status === 'complete') return false;
+  if (session.status === 'open') {
+    await stripe.checkout.sessions.expire(sessionId);
+  }
+  await releaseInventoryHold(sessionId, 'abandoned');
+  await releasePromoRedemption(sessionId);
+  return true;
+}
+
+// The customer came back to the cart from Stripe without paying (the session's cancel URL)
+export const cancelCheckoutSession: RequestHandler = async (req, res) => {
+  try {
+    const { cancel_token } = req.body;
+    if (typeof cancel_token !== 'string' || !cancel_token) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cancel token is required'
+      });
+    }
+
+    const sessionId = await findHoldByCancelToken(cancel_token);
+    const released = sessionId ? await abandonCheckoutSession(sessionId) : false;
+
+    res.json({
+      success: true,
+      data: {
+        released
+      }
+    });
+
+  } catch (error) {
+    console.error('Error cancelling checkout session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel checkout session'
+    });
+  }
+};
+
+// Release holds and promo code uses left behind by sessions that expired without a webhook (scheduler or admin)
+export const releaseExpiredInventoryHolds: RequestHandler = async (_req, res) => {
+  try {
+    const result = await releaseExpiredHolds();
+    for (const sessionId of result.session_ids) {
+      await releasePromoRedemption(sessionId);
+    }
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error releasing expired inventory holds:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to release expired inventory holds'
+    });
+  }
+};
+
+// List checkout sessions whose webhook processing failed (admin only)
+export const getFailedCheckoutSessions: RequestHandler = async (_req, res) => {
+  try {
+    const deadLetters = await listDeadLetters('pending');
+    res.json({
+      success: true,
+      data: deadLetters
+    });
+  } catch (error) {
+    console.error('Error listing failed checkout sessions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list failed checkout sessions'
+    });
+  }
+};
+
+// Replay a failed checkout session into Booqable once the cause has been fixed (admin only)
+export const replayFailedCheckoutSession: RequestHandler = async (req, res) => {
+  try {
+    if (!stripe) {
+      return res.status(500).json({
+        success: false,
+        error: 'Stripe is not configured'
+      });
+    }
+
+    const { session_id } = req.params;
+    const deadLetter = await getDeadLetter(session_id);
+
+    if (!deadLetter) {
+      return res.status(404).json({
+        success: false,
+        error: 'No failed webhook recorded for this session'
+      });
+    }
+
+    if (deadLetter.status === 'resolved') {
+      return res.json({
+        success: true,
+        data: { ...deadLetter.result, already_processed: true }
+      });
+    }
+
+    // Re-use the ledger lock on the original event so a replay cannot race a Stripe retry
+    const claim = await claimWebhookEvent(deadLetter.event_id, deadLetter.event_type, session_id);
+    if (claim === 'in_progress') {
+      return res.status(409).json({
+        success: false,
+        error: 'This session is currently being processed'
+      });
+    }
+    if (claim === 'duplicate') {
+      await resolveDeadLetter(session_id);
+      return res.json({
+        success: true,
+        data: { session_id, already_processed: true }
+      });
+    }
+
+    // Fetch the session afresh from Stripe rather than trusting the stored event payload
+    const session = await stripe.checkout.sessions.retrieve(session_id);
+    if (session.payment_status !== 'paid') {
+      await markWebhookEventFailed(deadLetter.event_id, `Session payment status is ${session.payment_status}`);
+      return res.status(400).json({
+        success: false,
+        error: `Session has not been paid (payment status: ${session.payment_status})`
+      });
+    }
+
+    try {
+      const result = await fulfilCheckoutSession(session);
+      await markWebhookEventProcessed(deadLetter.event_id, result);
+      await recordDeadLetterReplay(session_id);
+      await resolveDeadLetter(session_id, result);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Replay of checkout session failed:', session_id, error);
+      await markWebhookEventFailed(deadLetter.event_id, error);
+      await recordDeadLetterReplay(session_id, error);
+
+      res.status(502).json({
+        success: false,
+        error: `Replay failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  } catch (error) {
+    console.error('Error replaying checkout session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay checkout session'
+    });
+  }
+};
+
 // Process successful payment and create order in Booqable
 async function processSuccessfulPayment(session: Stripe.Checkout.Session) {
   const metadata = session.metadata;
@@ -292,15 +1173,29 @@ async function processSuccessfulPayment(session: Stripe.Checkout.Session) {
     throw new Error('No metadata found in session');
   }
 
-  const productDetails = JSON.parse(metadata.product_details || '[]');
+  const productDetails: ProductDetail[] = JSON.parse(joinMetadata(metadata, 'product_details') || '[]');
+
+  if (productDetails.length === 0) {
+    throw new Error('No products found in session metadata');
+  }
+
+  // Already booked by an earlier delivery of this session, which failed after creating the orders
+  const existingOrderIds = await getSessionOrderIds(session.id);
+  if (existingOrderIds) {
+    return Promise.all(existingOrderIds.map(async orderId => (await booqable.orders.get(orderId)).order));
+  }
+
   const deliveryAddress = metadata.delivery_address ? JSON.parse(metadata.delivery_address) : null;
 
+  // Sessions paid as a Stripe Customer carry the email in customer_details instead
+  const customerEmail = session.customer_email || session.customer_details?.email;
+
   // Create or find customer in Booqable
   let customerId: string;
   
   try {
     // Try to find existing customer by email
-    const customersData = await booqableRequest(`/customers?filter[email]=${session.customer_email}`);
+    const customersData = await booqable.customers.list({ 'filter[email]': customerEmail });
     
     if (customersData.customers && customersData.customers.length > 0) {
       customerId = customersData.customers[0].id;
@@ -310,7 +1205,7 @@ async function processSuccessfulPayment(session: Stripe.Checkout.Session) {
       const customerData = {
         customer: {
           name: metadata.customer_name,
-          email: session.customer_email,
+          email: customerEmail,
           phone: metadata.customer_phone || '',
           ...(deliveryAddress && {
             address_line_1: deliveryAddress.line1,
@@ -322,10 +1217,7 @@ async function processSuccessfulPayment(session: Stripe.Checkout.Session) {
         }
       };
 
-      const newCustomerData = await booqableRequest('/customers', {
-        method: 'POST',
-        body: JSON.stringify(customerData)
-      });
+      const newCustomerData = await booqable.customers.create(customerData.customer);
 
       customerId = newCustomerData.customer.id;
       console.log('Created new customer:', customerId);
@@ -335,62 +1227,262 @@ async function processSuccessfulPayment(session: Stripe.Checkout.Session) {
     throw error;
   }
 
-  // Create order in Booqable for each product (they might have different rental periods)
-  const orders = [];
-  
-  for (const item of productDetails) {
+  // One Booqable order per rental period, holding every cart line for those dates
+  const groups = groupByRentalPeriod(productDetails);
+  const orders: BooqableOrder[] = [];
+
+  for (const group of groups) {
+    const subtotalPence = group.items.reduce((sum, item) => sum + Math.round((item.total_price || 0) * 100), 0);
+    const discountPence = group.items.reduce((sum, item) => sum + Math.round((item.discount || 0) * 100), 0);
+    const volumeDiscountPence = group.items.reduce((sum, item) => sum + Math.round((item.volume_discount || 0) * 100), 0);
+    // Booqable prices the lines at list price, so its order discount covers group discounts too
+    const listSubtotalPence = subtotalPence + volumeDiscountPence;
+    const orderDiscountPence = discountPence + volumeDiscountPence;
+
     try {
-      const orderData = {
-        order: {
-          customer_id: customerId,
-          starts_at: item.start_date,
-          stops_at: item.end_date,
-          status: 'confirmed',
-          payment_status: 'unpaid',
-          lines_attributes: [{
-            item_id: item.product_id,
-            quantity: item.quantity,
-            price_structure_id: null
-          }],
-          properties: {
-            stripe_session_id: session.id,
-            stripe_payment_intent_id: session.payment_intent,
-            special_instructions: metadata.special_instructions || '',
-            total_amount_paid: session.amount_total ? (session.amount_total / 100).toString() : '0',
-            order_total_gbp: metadata.order_total_gbp || '',
-            deposit_gbp: metadata.deposit_gbp || '',
-            balance_gbp: metadata.balance_gbp || ''
-          },
-          ...(deliveryAddress && {
-            delivery_address_line_1: deliveryAddress.line1,
-            delivery_address_line_2: deliveryAddress.line2 || '',
-            delivery_address_city: deliveryAddress.city,
-            delivery_address_zipcode: deliveryAddress.postal_code,
-            delivery_address_country: deliveryAddress.country
+      const orderResponse = await booqable.orders.create({
+        customer_id: customerId,
+        starts_at: group.start_date,
+        stops_at: group.end_date,
+        status: 'confirmed',
+        payment_status: 'unpaid',
+        // Booqable applies the promo code as an order discount so its totals match what was charged
+        ...(orderDiscountPence > 0 && listSubtotalPence > 0 && {
+          discount_percentage: Math.round(orderDiscountPence / listSubtotalPence * 10000) / 100
+        }),
+        lines_attributes: group.items.map(item => ({
+          item_id: item.product_id,
+          quantity: item.quantity,
+          price_structure_id: null,
+          // The size goes on the line so it shows on the packing slip (and counts against that size's stock)
+          ...((item.size || item.volume_discount_percent) && {
+            properties: {
+              ...(item.size && { size: item.size }),
+              ...(item.volume_discount_percent && { volume_discount_percent: item.volume_discount_percent.toString() })
+            }
           })
-        }
-      };
-
-      const orderResponse = await booqableRequest('/orders', {
-        method: 'POST',
-        body: JSON.stringify(orderData)
+        })),
+        properties: bookingProperties(session, group.items, groups.length, group.end_date),
+        ...(deliveryAddress && {
+          delivery_address_line_1: deliveryAddress.line1,
+          delivery_address_line_2: deliveryAddress.line2 || '',
+          delivery_address_city: deliveryAddress.city,
+          delivery_address_zipcode: deliveryAddress.postal_code,
+          delivery_address_country: deliveryAddress.country
+        })
       });
 
       orders.push(orderResponse.order);
-      console.log('Created order in Booqable:', orderResponse.order.id);
+      console.log('Created order in Booqable:', orderResponse.order.id, `(${group.items.length} lines)`);
     } catch (error) {
-      console.error('Error creating order for item:', item.product_id, error);
-      // Continue with other items even if one fails
+      console.error(`Error creating order for rental period ${group.start_date} - ${group.end_date}:`, error);
+      // The deposit covers the whole checkout, so never leave a partial booking behind
+      await rollBackOrders(orders, session.id);
+      throw error;
     }
   }
 
-  if (orders.length === 0) {
-    throw new Error('Failed to create any orders in Booqable');
+  try {
+    await recordSessionOrders(session.id, orders.map(order => order.id));
+  } catch (error) {
+    // Unrecorded orders would be booked again on the retry
+    await rollBackOrders(orders, session.id);
+    throw error;
   }
 
   return orders;
 }
 
+// An accepted quote: its concept order becomes the booking once the deposit is paid
+async function processAcceptedQuote(session: Stripe.Checkout.Session) {
+  const metadata = session.metadata!;
+  const { order } = await booqable.orders.get(metadata.quote_order_id);
+
+  // Already confirmed by an earlier delivery of this event
+  if (order.properties?.stripe_session_id === session.id) {
+    return order;
+  }
+
+  const productDetails: ProductDetail[] = JSON.parse(joinMetadata(metadata, 'product_details') || '[]');
+  const { order: confirmed } = await booqable.orders.update(order.id, {
+    status: 'confirmed',
+    payment_status: 'unpaid',
+    properties: {
+      ...order.properties,
+      quote_status: 'accepted',
+      quote_accepted_at: new Date().toISOString(),
+      ...bookingProperties(session, productDetails, 1, order.stops_at)
+    }
+  });
+
+  console.log('Confirmed quote in Booqable:', order.id, metadata.quote_number);
+  return confirmed;
+}
+
+// Payment, pricing, delivery and VAT details kept on a booking's Booqable order.
+// Booqable amounts stay in GBP; the currency and rate the customer paid at are kept on the order.
+function bookingProperties(session: Stripe.Checkout.Session, items: ProductDetail[], bookingCount: number, rentalEndDate: string): Record<string, string> {
+  const metadata = session.metadata || {};
+  const paidIn = getOrderCurrency(metadata);
+  const subtotalPence = items.reduce((sum, item) => sum + Math.round((item.total_price || 0) * 100), 0);
+  const discountPence = items.reduce((sum, item) => sum + Math.round((item.discount || 0) * 100), 0);
+  const volumeDiscountPence = items.reduce((sum, item) => sum + Math.round((item.volume_discount || 0) * 100), 0);
+
+  return {
+    stripe_session_id: session.id,
+    stripe_payment_intent_id: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id || '',
+    special_instructions: metadata.special_instructions || '',
+    total_amount_paid: session.amount_total ? (toBasePence(session.amount_total, paidIn) / 100).toString() : '0',
+    currency: paidIn.currency,
+    exchange_rate: paidIn.exchange_rate.toString(),
+    order_total_gbp: metadata.order_total_gbp || '',
+    deposit_gbp: metadata.deposit_gbp || '',
+    balance_gbp: metadata.balance_gbp || '',
+    booking_count: bookingCount.toString(),
+    booking_subtotal_gbp: ((subtotalPence - discountPence) / 100).toFixed(2),
+    stripe_customer_id: typeof session.customer === 'string' ? session.customer : session.customer?.id || '',
+    ...(discountPence > 0 && {
+      promo_code: metadata.promo_code || '',
+      discount_gbp: (discountPence / 100).toFixed(2)
+    }),
+    ...(volumeDiscountPence > 0 && {
+      volume_discount_gbp: (volumeDiscountPence / 100).toFixed(2)
+    }),
+    ...deliveryProperties(metadata, rentalEndDate),
+    ...vatProperties(metadata, items),
+    ...securityDepositProperties(items)
+  };
+}
+
+interface ProductDetail {
+  product_id: string;
+  size?: string;
+  name?: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  total_price?: number;
+  discount?: number;
+  volume_discount?: number;
+  volume_discount_percent?: number;
+  security_deposit?: number;
+}
+
+// Stripe metadata values are limited to 500 characters; longer values (such as a group order's
+// product details) are split over numbered keys: product_details_0, product_details_1, ...
+const METADATA_VALUE_LIMIT = 500;
+
+function splitMetadata(key: string, value: string): Record<string, string> {
+  if (value.length <= METADATA_VALUE_LIMIT) return { [key]: value };
+  const parts: Record<string, string> = {};
+  for (let index = 0; index * METADATA_VALUE_LIMIT < value.length; index++) {
+    parts[`${key}_${index}`] = value.slice(index * METADATA_VALUE_LIMIT, (index + 1) * METADATA_VALUE_LIMIT);
+  }
+  return parts;
+}
+
+function joinMetadata(metadata: Stripe.Metadata, key: string) {
+  if (metadata[key] !== undefined) return metadata[key];
+  let value = '';
+  for (let index = 0; metadata[`${key}_${index}`] !== undefined; index++) {
+    value += metadata[`${key}_${index}`];
+  }
+  return value;
+}
+
+// How the order reaches the customer and comes back; fees are for the whole checkout, like order_total_gbp
+function deliveryProperties(metadata: Stripe.Metadata, rentalEndDate: string): Record<string, string> {
+  const deliveryMethod = getDeliveryMethod(metadata.delivery_method || DEFAULT_DELIVERY_METHOD);
+  const returnMethod = getReturnMethod(metadata.return_method || DEFAULT_RETURN_METHOD);
+  return {
+    delivery_method: deliveryMethod?.id || DEFAULT_DELIVERY_METHOD,
+    delivery_method_label: deliveryMethod?.label || '',
+    delivery_zone: metadata.delivery_zone || '',
+    delivery_fee_gbp: metadata.delivery_fee_gbp || '',
+    return_method: returnMethod?.id || DEFAULT_RETURN_METHOD,
+    return_method_label: returnMethod?.label || '',
+    return_fee_gbp: metadata.return_fee_gbp || '',
+    return_instructions: getReturnInstructions(returnMethod?.id || DEFAULT_RETURN_METHOD, rentalEndDate.slice(0, 10)),
+  };
+}
+
+// VAT on an order's lines (after any promo discount) in the rate and mode they were charged at.
+// Delivery and return VAT stay in the checkout total (vat_total_gbp) like the fees themselves.
+function vatProperties(metadata: Stripe.Metadata, items: ProductDetail[]): Record<string, string> {
+  const options = {
+    rate: metadata.vat_rate ? parseFloat(metadata.vat_rate) : TAX_POLICY.rate,
+    inclusive: metadata.prices_include_vat ? metadata.prices_include_vat === 'true' : TAX_POLICY.pricesIncludeTax,
+  };
+  const lines = items.map(item => ({
+    product_id: item.product_id,
+    ...(item.size && { size: item.size }),
+    ...calculateTax((item.total_price || 0) - (item.discount || 0), options),
+  }));
+  const summary = summariseTax(lines, options);
+
+  return {
+    vat_rate: options.rate.toString(),
+    prices_include_vat: options.inclusive ? 'true' : 'false',
+    vat_net_gbp: summary.net.toFixed(2),
+    vat_gbp: summary.tax.toFixed(2),
+    vat_gross_gbp: summary.gross.toFixed(2),
+    vat_total_gbp: metadata.vat_gbp || '',
+    vat_breakdown: JSON.stringify(lines),
+  };
+}
+
+// Security deposit for an order's lines; the hold itself is placed shortly before dispatch
+function securityDepositProperties(items: ProductDetail[]): Record<string, string> {
+  const amountPence = items.reduce((sum, item) => sum + Math.round((item.security_deposit || 0) * 100), 0);
+  if (amountPence <= 0) return {};
+  return {
+    security_deposit_gbp: (amountPence / 100).toFixed(2),
+    security_deposit_status: 'scheduled',
+  };
+}
+
+// Group checkout lines that share a rental period so each period becomes a single Booqable order
+function groupByRentalPeriod(items: ProductDetail[]) {
+  const groups = new Map<string, { start_date: string; end_date: string; items: ProductDetail[] }>();
+
+  for (const item of items) {
+    const key = `${item.start_date}|${item.end_date}`;
+    if (!groups.has(key)) {
+      groups.set(key, { start_date: item.start_date, end_date: item.end_date, items: [] });
+    }
+    groups.get(key)!.items.push(item);
+  }
+
+  return [...groups.values()];
+}
+
+// Cancel orders created earlier in a checkout that could not be completed.
+// Orders that cannot be cancelled are flagged in the error so the dead-letter entry shows them.
+async function rollBackOrders(orders: BooqableOrder[], sessionId: string) {
+  const failed: string[] = [];
+
+  for (const order of orders) {
+    try {
+      await booqable.orders.update(order.id, {
+        status: 'cancelled',
+        properties: {
+          ...order.properties,
+          cancellation_reason: `Checkout ${sessionId} could not be completed`,
+          cancelled_at: new Date().toISOString()
+        }
+      });
+      console.log('Rolled back Booqable order:', order.id);
+    } catch (error) {
+      console.error('Failed to roll back Booqable order:', order.id, error);
+      failed.push(order.id);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Checkout ${sessionId} failed and orders ${failed.join(', ')} could not be rolled back; they need manual review`);
+  }
+}
+
 // Get checkout session details
 export const getCheckoutSession: RequestHandler = async (req, res) => {
   try {
@@ -411,16 +1503,19 @@ export const getCheckoutSession: RequestHandler = async (req, res) => {
     }
 
     const session = await stripe.checkout.sessions.retrieve(session_id);
+    const fulfilment = await getSessionFulfilment(session.id);
 
     res.json({
       success: true,
       data: {
         session_id: session.id,
         payment_status: session.payment_status,
-        customer_email: session.customer_email,
+        customer_email: session.customer_email || session.customer_details?.email || null,
         amount_total: session.amount_total ? session.amount_total / 100 : 0,
         currency: session.currency,
-        metadata: session.metadata
+        metadata: session.metadata,
+        booking_status: fulfilment.status,
+        bookings: (fulfilment.result?.bookings || []) as CheckoutBooking[]
       }
     });
 
@@ -0,0 +1,55 @@
+import { RequestHandler } from "express";
+import { ExchangeRateError, getExchangeRates, saveExchangeRates } from "../lib/exchange-rates";
+import { CURRENCIES, resolveCurrency } from "../../shared/currency";
+
+// Exchange rates and the currency suggested for this visitor's locale
+export const getCurrencyRates: RequestHandler = async (req, res) => {
+  try {
+    const rates = await getExchangeRates();
+    res.json({
+      success: true,
+      data: {
+        ...rates,
+        currencies: Object.values(CURRENCIES),
+        suggested_currency: resolveCurrency({ locale: req.headers['accept-language'] }),
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch exchange rates'
+    });
+  }
+};
+
+// Admin: set the rates (per 1 GBP) used for new checkouts, e.g. { "rates": { "EUR": 1.16 } }
+export const updateCurrencyRates: RequestHandler = async (req: any, res) => {
+  const updates = req.body?.rates;
+  if (!updates || typeof updates !== 'object' || Object.keys(updates).length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'rates is required'
+    });
+  }
+
+  try {
+    const rates = await saveExchangeRates(updates, req.user?.email || req.user?.uid || 'admin');
+    res.json({
+      success: true,
+      data: rates
+    });
+  } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Error saving exchange rates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save exchange rates'
+    });
+  }
+};
@@ -1,52 +1,22 @@
 import { RequestHandler } from "express";
-
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
-
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Helper function to check if order can be modified based on business rules
+import admin, { adminDb } from "../lib/firebase-admin";
+import { booqable } from "../lib/booqable-client";
+import { getOrderTotalPence } from "../lib/payment-ledger";
+import { updateOrderProperties } from "../lib/order-properties";
+import { formatOrderAmount } from "../lib/exchange-rates";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { RefundError, refundOrderPayments, RefundResult } from "../lib/refunds";
+import { releaseSecurityDeposit, SecurityDeposit } from "../lib/security-deposits";
+import { calculateRefundAmount as refundForDays, getOrderPermissions, getRefundRate, PAYMENT_POLICY, POLICY_TERMS } from "../../shared/payment-policy";
+
+// Helper function to check if order can be modified based on the shared payment policy
 function validateOrderModification(order: any) {
-  const now = new Date();
-  const rentalStart = new Date(order.starts_at);
-  const daysUntilRental = Math.ceil((rentalStart.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  
-  return {
-    canModify: daysUntilRental > 28,
-    canCancel: daysUntilRental > 28 && order.status !== 'cancelled',
-    canReschedule: daysUntilRental > 14 && order.status === 'confirmed',
-    daysUntilRental
-  };
+  return getOrderPermissions(order.starts_at, order.status);
 }
 
-// Calculate refund amount based on cancellation timing
+// Calculate refund amount based on cancellation timing (refund tiers from the payment policy)
 function calculateRefundAmount(order: any, daysUntilRental: number) {
-  const totalAmount = parseFloat(order.total_in_cents) / 100;
-  
-  if (daysUntilRental > 28) return totalAmount;
-  if (daysUntilRental > 14) return totalAmount * 0.8; // 20% fee
-  if (daysUntilRental > 7) return totalAmount * 0.5; // 50% fee
-  return 0; // No refund within 7 days
+  return refundForDays(getOrderTotalPence(order) / 100, daysUntilRental);
 }
 
 // Modify an existing order
@@ -63,7 +33,7 @@ export const modifyOrder: RequestHandler = async (req, res) => {
     }
 
     // First, get the current order to validate modification rules
-    const currentOrder = await booqableRequest(`/orders/${orderId}?include=lines`);
+    const currentOrder = await booqable.orders.get(orderId, { include: 'lines' });
     
     if (!currentOrder.order) {
       return res.status(404).json({
@@ -77,7 +47,7 @@ export const modifyOrder: RequestHandler = async (req, res) => {
     if (!canModify) {
       return res.status(400).json({
         success: false,
-        error: `Cannot modify order. Only ${daysUntilRental} days until rental (minimum 28 days required).`
+        error: `Cannot modify order. Only ${daysUntilRental} days until rental (minimum ${PAYMENT_POLICY.modificationCutoffDays} days required).`
       });
     }
 
@@ -104,10 +74,7 @@ export const modifyOrder: RequestHandler = async (req, res) => {
       }));
     }
 
-    const updatedOrder = await booqableRequest(`/orders/${orderId}`, {
-      method: 'PUT',
-      body: JSON.stringify(updateData)
-    });
+    const updatedOrder = await booqable.orders.update(orderId, updateData.order);
 
     // Log the modification for audit purposes
     console.log(`Order ${orderId} modified by user. Changes:`, {
@@ -142,10 +109,10 @@ export const modifyOrder: RequestHandler = async (req, res) => {
 };
 
 // Cancel an existing order
-export const cancelOrder: RequestHandler = async (req, res) => {
+export const cancelOrder: RequestHandler = async (req: AuthenticatedRequest, res) => {
   try {
     const { orderId } = req.params;
-    const { reason, refund_amount } = req.body;
+    const { reason } = req.body;
 
     if (!orderId) {
       return res.status(400).json({
@@ -155,7 +122,7 @@ export const cancelOrder: RequestHandler = async (req, res) => {
     }
 
     // Get the current order
-    const currentOrder = await booqableRequest(`/orders/${orderId}`);
+    const currentOrder = await booqable.orders.get(orderId);
     
     if (!currentOrder.order) {
       return res.status(404).json({
@@ -175,35 +142,92 @@ export const cancelOrder: RequestHandler = async (req, res) => {
 
     // Calculate refund amount
     const calculatedRefund = calculateRefundAmount(currentOrder.order, daysUntilRental);
-    
-    // Cancel the order in Booqable
-    const cancelledOrder = await booqableRequest(`/orders/${orderId}`, {
-      method: 'PUT',
-      body: JSON.stringify({
-        order: {
-          status: 'cancelled',
-          properties: {
-            ...currentOrder.order.properties,
-            cancellation_reason: reason,
-            refund_amount: calculatedRefund,
-            cancelled_at: new Date().toISOString()
-          }
-        }
-      })
-    });
+    // Amounts are GBP; customers see them in the currency they paid in
+    const orderAmount = (amount: number) => formatOrderAmount(currentOrder.order.properties, amount);
+
+    // Refund before cancelling so a failed refund leaves the order cancellable for a retry
+    let refund: RefundResult;
+    try {
+      refund = await refundOrderPayments(currentOrder.order, calculatedRefund);
+    } catch (error) {
+      console.error(`Refund failed for order ${orderId}:`, error);
+      // Refunds issued before the failure stand; a retry only refunds the rest
+      const refunded = error instanceof RefundError ? error.result.amount_refunded : 0;
+      return res.status(502).json({
+        success: false,
+        error: refunded > 0
+          ? `We refunded ${orderAmount(refunded)} of your ${orderAmount(calculatedRefund)} refund but could not process the rest, so the order has not been cancelled. Please try again or contact us.`
+          : 'We could not process your refund, so the order has not been cancelled. Please try again or contact us.'
+      });
+    }
+
+    // Drop any security deposit hold; an unreleased hold lapses on its own after 7 days
+    let securityDeposit: SecurityDeposit | null = null;
+    try {
+      securityDeposit = await releaseSecurityDeposit(currentOrder.order);
+    } catch (error) {
+      console.error(`Failed to release security deposit for order ${orderId}:`, error);
+    }
 
-    // TODO: Process refund through Stripe
-    // This would typically involve creating a refund via Stripe API
-    console.log(`Order ${orderId} cancelled. Refund amount: £${calculatedRefund}`);
+    const cancelledAt = new Date().toISOString();
+    const refundIds = refund.refunds.map(r => r.id);
+
+    // Cancel the order in Booqable, keeping payment and deposit details written since it was read
+    const cancelledOrder = await updateOrderProperties(orderId, () => ({
+      status: 'cancelled',
+      properties: {
+        cancellation_reason: reason,
+        refund_amount: refund.amount_refunded,
+        refund_ids: refundIds.join(','),
+        refund_status: refund.status,
+        ...(securityDeposit && { security_deposit_status: securityDeposit.status }),
+        cancelled_at: cancelledAt
+      }
+    }));
+
+    console.log(`Order ${orderId} cancelled. Refund: ${orderAmount(refund.amount_refunded)} of ${orderAmount(calculatedRefund)} (${refund.status})`);
+
+    // Record the refund on the user's order and let them know it's on its way
+    try {
+      const userRef = adminDb.collection('users').doc(req.user.uid);
+      await userRef.collection('orders').doc(orderId).set({
+        booqableOrderId: orderId,
+        status: 'cancelled',
+        refund: {
+          amount: refund.amount_refunded,
+          status: refund.status,
+          ids: refundIds,
+          refunds: refund.refunds
+        },
+        cancelledAt: new Date(cancelledAt),
+        updatedAt: new Date(cancelledAt)
+      }, { merge: true });
+
+      if (refund.refunds.length > 0) {
+        await userRef.collection('notifications').doc().set({
+          title: 'Refund issued',
+          message: `A refund of ${orderAmount(refund.amount_refunded)} for order #${cancelledOrder.number} has been issued to your original payment method. It usually arrives within 5-10 business days.`,
+          type: 'refund',
+          orderId,
+          isRead: false,
+          createdAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+    } catch (e) {
+      console.warn('Failed to record refund in Firestore:', e);
+    }
 
     res.json({
       success: true,
       data: {
-        id: cancelledOrder.order.id,
-        number: cancelledOrder.order.number,
+        id: cancelledOrder.id,
+        number: cancelledOrder.number,
         status: 'cancelled',
-        refund_amount: calculatedRefund,
-        cancelled_at: new Date().toISOString()
+        refund_amount: refund.amount_refunded,
+        refund_status: refund.status,
+        refund_ids: refundIds,
+        amount_paid: refund.amount_paid,
+        cancelled_at: cancelledAt
       }
     });
 
@@ -230,7 +254,7 @@ export const rescheduleOrder: RequestHandler = async (req, res) => {
     }
 
     // Get the current order
-    const currentOrder = await booqableRequest(`/orders/${orderId}`);
+    const currentOrder = await booqable.orders.get(orderId);
     
     if (!currentOrder.order) {
       return res.status(404).json({
@@ -244,7 +268,7 @@ export const rescheduleOrder: RequestHandler = async (req, res) => {
     if (!canReschedule) {
       return res.status(400).json({
         success: false,
-        error: `Cannot reschedule order. Only ${daysUntilRental} days until rental (minimum 14 days required).`
+        error: `Cannot reschedule order. Only ${daysUntilRental} days until rental (minimum ${PAYMENT_POLICY.rescheduleCutoffDays} days required).`
       });
     }
 
@@ -262,20 +286,15 @@ export const rescheduleOrder: RequestHandler = async (req, res) => {
     }
 
     // Update the order dates in Booqable
-    const rescheduledOrder = await booqableRequest(`/orders/${orderId}`, {
-      method: 'PUT',
-      body: JSON.stringify({
-        order: {
-          starts_at: new_start_date,
-          stops_at: new_end_date,
-          properties: {
-            ...currentOrder.order.properties,
-            rescheduled_at: new Date().toISOString(),
-            original_start_date: currentOrder.order.starts_at,
-            original_end_date: currentOrder.order.stops_at
-          }
-        }
-      })
+    const rescheduledOrder = await booqable.orders.update(orderId, {
+      starts_at: new_start_date,
+      stops_at: new_end_date,
+      properties: {
+        ...currentOrder.order.properties,
+        rescheduled_at: new Date().toISOString(),
+        original_start_date: currentOrder.order.starts_at,
+        original_end_date: currentOrder.order.stops_at
+      }
     });
 
     console.log(`Order ${orderId} rescheduled from ${currentOrder.order.starts_at} to ${new_start_date}`);
@@ -314,7 +333,7 @@ export const getOrderModificationOptions: RequestHandler = async (req, res) => {
     }
 
     // Get the current order
-    const currentOrder = await booqableRequest(`/orders/${orderId}`);
+    const currentOrder = await booqable.orders.get(orderId);
     
     if (!currentOrder.order) {
       return res.status(404).json({
@@ -335,11 +354,11 @@ export const getOrderModificationOptions: RequestHandler = async (req, res) => {
         canReschedule: validation.canReschedule,
         daysUntilRental: validation.daysUntilRental,
         refundAmount,
-        refundPercentage: Math.round((refundAmount / (parseFloat(currentOrder.order.total_in_cents) / 100)) * 100),
+        refundPercentage: Math.round(getRefundRate(validation.daysUntilRental) * 100),
         businessRules: {
-          modificationDeadline: '28 days before rental',
-          cancellationDeadline: '28 days before rental (with fees after)',
-          rescheduleDeadline: '14 days before rental'
+          modificationDeadline: POLICY_TERMS.modificationDeadline,
+          cancellationDeadline: POLICY_TERMS.cancellationDeadline,
+          rescheduleDeadline: POLICY_TERMS.rescheduleDeadline
         }
       }
     });
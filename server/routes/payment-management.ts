@@ -1,62 +1,34 @@
 import { RequestHandler } from "express";
 import Stripe from "stripe";
-
-const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
-const stripe = STRIPE_SECRET_KEY ? new Stripe(STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16",
-}) : null;
-
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
-
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Calculate payment schedule based on order total and rental date
-function calculatePaymentSchedule(orderTotal: number, rentalStartDate: string) {
-  const now = new Date();
-  const rentalStart = new Date(rentalStartDate);
-  const daysUntilRental = Math.ceil((rentalStart.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  
-  // 30% deposit, 70% final payment
-  const depositAmount = orderTotal * 0.3;
-  const finalAmount = orderTotal * 0.7;
-  
-  // Deposit due within 24 hours of booking
-  const depositDueDate = new Date();
-  depositDueDate.setDate(depositDueDate.getDate() + 1);
-  
-  // Final payment due 7 days before rental
-  const finalDueDate = new Date(rentalStart);
-  finalDueDate.setDate(finalDueDate.getDate() - 7);
-  
-  return {
-    deposit_amount: depositAmount,
-    deposit_due_date: depositDueDate.toISOString(),
-    final_amount: finalAmount,
-    final_due_date: finalDueDate.toISOString(),
-    total_amount: orderTotal
-  };
-}
+import { stripe } from "../lib/stripe-client";
+import { booqable, BooqableOrder, isBooqableConfigured } from "../lib/booqable-client";
+import admin, { adminDb } from "../lib/firebase-admin";
+import { queueEmail } from "../lib/mailer";
+import { getPaymentLedger, PaymentLedger, PaymentType, recordOrderPayment, recordOrderPaymentIntent } from "../lib/payment-ledger";
+import {
+  completeCardSetup,
+  getChargeableCard,
+  getCustomerPaymentMethod,
+  getOrCreateStripeCustomer,
+  getStripeCustomerId,
+  listSavedCards,
+  setDefaultCard,
+} from "../lib/stripe-customers";
+import {
+  authoriseSecurityDeposit,
+  createSecurityDepositCheckout,
+  getSecurityDeposit,
+  renewSecurityDeposit,
+  SecurityDeposit,
+  SecurityDepositError,
+  settleSecurityDeposit,
+} from "../lib/security-deposits";
+import { inclusiveTaxFields } from "../lib/stripe-tax";
+import { formatOrderAmount, getOrderCurrency, toChargeMinor } from "../lib/exchange-rates";
+import { daysUntil, PAYMENT_POLICY } from "../../shared/payment-policy";
+import { documentId, getInvoiceNumber, hasReceivedPayment, parseDocumentId, renderOrderDocument } from "../lib/documents";
+import { updateOrderProperties } from "../lib/order-properties";
+import { AuthenticatedRequest } from "../middleware/auth";
 
 // Get payment details for an order
 export const getOrderPayments: RequestHandler = async (req, res) => {
@@ -81,11 +53,8 @@ export const getOrderPayments: RequestHandler = async (req, res) => {
     }
 
     // Check environment variables
-    if (!BOOQABLE_BASE_URL || !BOOQABLE_API_KEY) {
-      console.error('Missing Booqable configuration:', {
-        BOOQABLE_BASE_URL: !!BOOQABLE_BASE_URL,
-        BOOQABLE_API_KEY: !!BOOQABLE_API_KEY
-      });
+    if (!isBooqableConfigured()) {
+      console.error('Missing Booqable configuration (BOOQABLE_BASE_URL or BOOQABLE_API_KEY)');
       return res.status(500).json({
         success: false,
         error: 'Booqable API configuration is missing'
@@ -97,7 +66,7 @@ export const getOrderPayments: RequestHandler = async (req, res) => {
 
     let orderData;
     try {
-      orderData = await booqableRequest(`/orders/${orderId}`);
+      orderData = await booqable.orders.get(orderId);
       console.log('Booqable order response:', orderData);
     } catch (booqableError) {
       console.error('Booqable API error:', booqableError);
@@ -116,72 +85,71 @@ export const getOrderPayments: RequestHandler = async (req, res) => {
     }
 
     const order = orderData.order;
-    const orderTotal = parseFloat(order.total_in_cents) / 100;
-    
-    // Calculate payment schedule
-    const schedule = calculatePaymentSchedule(orderTotal, order.starts_at);
-    
-    // Get payment status from order properties
     const properties = order.properties || {};
-    const depositPaid = properties.deposit_paid === 'true' || properties.deposit_paid === true;
-    const finalPaid = properties.final_paid === 'true' || properties.final_paid === true;
-    
+
+    // Paid/outstanding amounts come from the Stripe payments recorded against the order
+    const ledger = await getPaymentLedger(order);
+    const depositPaid = ledger.deposit_outstanding === 0 && ledger.net_paid > 0;
+    const finalPaid = ledger.outstanding === 0 && ledger.net_paid > 0;
+    const paidDate = (type: 'deposit' | 'final') =>
+      properties[`${type}_paid_date`] || ledger.entries.filter(entry => entry.type === type).map(entry => entry.paid_at).pop();
+
     const paymentSchedule = {
-      ...schedule,
+      deposit_amount: ledger.deposit_amount,
+      deposit_due_date: ledger.deposit_due_date,
+      final_amount: ledger.balance_amount,
+      final_due_date: ledger.final_due_date,
+      total_amount: ledger.total_amount,
       deposit_paid: depositPaid,
-      deposit_paid_date: properties.deposit_paid_date,
+      deposit_paid_date: depositPaid ? paidDate('deposit') : undefined,
       final_paid: finalPaid,
-      final_paid_date: properties.final_paid_date
+      final_paid_date: finalPaid ? paidDate('final') || paidDate('deposit') : undefined
     };
 
-    // Generate mock invoices (in production, these would be stored in database)
     const invoices = [];
-    
+
     if (depositPaid) {
       invoices.push({
-        id: `dep_${orderId}`,
+        id: documentId('deposit', orderId),
         type: 'deposit',
-        amount: schedule.deposit_amount,
-        issued_date: properties.deposit_paid_date || new Date().toISOString(),
-        due_date: schedule.deposit_due_date,
-        paid_date: properties.deposit_paid_date,
+        amount: ledger.deposit_amount,
+        issued_date: paymentSchedule.deposit_paid_date || order.created_at,
+        due_date: ledger.deposit_due_date,
+        paid_date: paymentSchedule.deposit_paid_date,
         status: 'paid',
-        stripe_payment_intent_id: properties.deposit_payment_intent_id
+        stripe_payment_intent_id: ledger.entries.find(entry => entry.type === 'deposit')?.payment_intent_id
       });
     }
-    
-    if (finalPaid) {
+
+    if (depositPaid && ledger.balance_amount > 0) {
       invoices.push({
-        id: `final_${orderId}`,
+        id: documentId('balance', orderId),
         type: 'final',
-        amount: schedule.final_amount,
-        issued_date: properties.final_paid_date || new Date().toISOString(),
-        due_date: schedule.final_due_date,
-        paid_date: properties.final_paid_date,
-        status: 'paid',
-        stripe_payment_intent_id: properties.final_payment_intent_id
+        amount: ledger.balance_amount,
+        issued_date: paymentSchedule.final_paid_date || order.created_at,
+        due_date: ledger.final_due_date,
+        paid_date: paymentSchedule.final_paid_date,
+        status: finalPaid ? 'paid' : ledger.overdue ? 'overdue' : 'pending',
+        stripe_payment_intent_id: ledger.entries.find(entry => entry.type === 'final')?.payment_intent_id
       });
     }
 
-    // Calculate outstanding balance
+    // Whatever is still owed: the deposit first, then the balance
     let outstandingBalance = null;
-    const now = new Date();
-    
-    if (!depositPaid) {
-      const daysOverdue = Math.max(0, Math.ceil((now.getTime() - new Date(schedule.deposit_due_date).getTime()) / (1000 * 60 * 60 * 24)));
+    if (ledger.deposit_outstanding > 0) {
+      const daysOverdue = Math.ceil((Date.now() - new Date(ledger.deposit_due_date).getTime()) / (1000 * 60 * 60 * 24));
       outstandingBalance = {
-        amount: schedule.deposit_amount,
-        due_date: schedule.deposit_due_date,
+        amount: ledger.deposit_outstanding,
+        due_date: ledger.deposit_due_date,
         type: 'deposit',
         days_overdue: daysOverdue > 0 ? daysOverdue : undefined
       };
-    } else if (!finalPaid && new Date(schedule.final_due_date) <= now) {
-      const daysOverdue = Math.ceil((now.getTime() - new Date(schedule.final_due_date).getTime()) / (1000 * 60 * 60 * 24));
+    } else if (ledger.outstanding > 0) {
       outstandingBalance = {
-        amount: schedule.final_amount,
-        due_date: schedule.final_due_date,
+        amount: ledger.outstanding,
+        due_date: ledger.final_due_date,
         type: 'final',
-        days_overdue: daysOverdue > 0 ? daysOverdue : undefined
+        days_overdue: ledger.overdue ? ledger.days_overdue : undefined
       };
     }
 
@@ -190,7 +158,9 @@ export const getOrderPayments: RequestHandler = async (req, res) => {
       data: {
         schedule: paymentSchedule,
         invoices,
-        outstanding_balance: outstandingBalance
+        outstanding_balance: outstandingBalance,
+        ledger,
+        security_deposit: getSecurityDeposit(order)
       }
     });
 
@@ -207,21 +177,71 @@ export const getOrderPayments: RequestHandler = async (req, res) => {
   }
 };
 
-// Process a payment (deposit or final)
-export const processPayment: RequestHandler = async (req, res) => {
+// Stripe Checkout for a deposit/balance payment; the card is saved to the customer for next time
+// `amount` is GBP; the customer pays it in the order's currency
+async function createPaymentCheckout(order: BooqableOrder, paymentType: PaymentType, amount: number, customerId: string) {
+  const clientUrl = process.env.CLIENT_URL;
+  const paidIn = getOrderCurrency(order.properties);
+  const label = paymentType === 'deposit' ? 'Deposit' : 'Balance';
+  // Deposits and balances are shares of the VAT-inclusive order total
+  const tax = await inclusiveTaxFields();
+
+  return stripe!.checkout.sessions.create({
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: paidIn.currency.toLowerCase(),
+          product_data: {
+            name: `${label} Payment - Order #${order.number}`,
+            description: `${label} payment for costume rental order`,
+          },
+          unit_amount: toChargeMinor(Math.round(amount * 100), paidIn), // Minor units of the order's currency
+          ...tax.priceData,
+        },
+        quantity: 1,
+        ...tax.lineItem,
+      },
+    ],
+    mode: 'payment',
+    success_url: `${clientUrl}/orders?order=${order.id}&payment=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${clientUrl}/orders?order=${order.id}`,
+    metadata: {
+      order_id: order.id,
+      payment_type: paymentType,
+      booqable_order_number: String(order.number ?? '')
+    },
+    customer: customerId,
+    payment_intent_data: {
+      setup_future_usage: 'off_session',
+    },
+  });
+}
+
+// Process a payment (deposit or final) for exactly what is still owed.
+// With `use_saved_card` (or a `payment_method_id`) the saved card is charged off-session;
+// if the bank asks for 3D Secure the customer is sent to Checkout instead.
+export const processPayment: RequestHandler = async (req: AuthenticatedRequest, res) => {
   try {
     const { orderId } = req.params;
-    const { payment_type, amount } = req.body;
+    const { payment_type, use_saved_card, payment_method_id } = req.body;
+
+    if (!orderId || !payment_type) {
+      return res.status(400).json({
+        success: false,
+        error: 'Order ID and payment type are required'
+      });
+    }
 
-    if (!orderId || !payment_type || !amount) {
+    if (payment_type !== 'deposit' && payment_type !== 'final') {
       return res.status(400).json({
         success: false,
-        error: 'Order ID, payment type, and amount are required'
+        error: 'Payment type must be deposit or final'
       });
     }
 
     // Get order details
-    const orderData = await booqableRequest(`/orders/${orderId}`);
+    const orderData = await booqable.orders.get(orderId, { include: 'customer' });
     
     if (!orderData.order) {
       return res.status(404).json({
@@ -235,38 +255,100 @@ export const processPayment: RequestHandler = async (req, res) => {
     if (!stripe) {
       return res.status(500).json({ success: false, error: 'Stripe is not configured' });
     }
-    // Create Stripe Checkout Session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'gbp',
-            product_data: {
-              name: `${payment_type.charAt(0).toUpperCase() + payment_type.slice(1)} Payment - Order #${order.number}`,
-              description: `${payment_type} payment for costume rental order`,
-            },
-            unit_amount: Math.round(amount * 100), // Convert to pence
-          },
-          quantity: 1,
-        },
-      ],
-      mode: 'payment',
-      success_url: `${process.env.CLIENT_URL}/orders/${orderId}/payment-success?session_id={CHECKOUT_SESSION_ID}&type=${payment_type}`,
-      cancel_url: `${process.env.CLIENT_URL}/orders/${orderId}`,
-      metadata: {
-        order_id: orderId,
-        payment_type,
-        booqable_order_number: order.number
-      },
-      customer_email: order.customer?.email,
+
+    const ledger = await getPaymentLedger(order);
+    const amount = payment_type === 'deposit' ? ledger.deposit_outstanding : ledger.outstanding;
+
+    if (amount <= 0) {
+      return res.status(409).json({
+        success: false,
+        error: payment_type === 'deposit' ? 'The deposit has already been paid' : 'Nothing is outstanding on this order'
+      });
+    }
+
+    const { user } = req;
+    const customerId = await getOrCreateStripeCustomer(user.uid, {
+      email: order.customer?.email || user.email,
+      name: order.customer?.name,
     });
 
+    // Charge a saved card without sending the customer through Checkout
+    if (use_saved_card || payment_method_id) {
+      const card = payment_method_id
+        ? await getCustomerPaymentMethod(customerId, payment_method_id)
+        : await getChargeableCard(customerId);
+      if (!card) {
+        return res.status(400).json({
+          success: false,
+          error: 'Saved card not found'
+        });
+      }
+
+      const amountPence = Math.round(amount * 100);
+      const paidIn = getOrderCurrency(order.properties);
+      try {
+        const intent = await stripe.paymentIntents.create({
+          amount: toChargeMinor(amountPence, paidIn),
+          currency: paidIn.currency.toLowerCase(),
+          customer: customerId,
+          payment_method: card.id,
+          off_session: true,
+          confirm: true,
+          description: `${payment_type === 'deposit' ? 'Deposit' : 'Balance'} payment - Order #${order.number}`,
+          metadata: {
+            order_id: orderId,
+            booqable_order_id: orderId,
+            payment_type,
+          },
+        }, {
+          // Repeated clicks charge once; a new payment on the order gets a new key
+          idempotencyKey: `charge_${orderId}_${payment_type}_${amountPence}_${card.id}_${ledger.entries.length}`,
+        });
+
+        if (intent.status === 'succeeded') {
+          const updatedLedger = await recordOrderPaymentIntent(orderId, payment_type, intent);
+          return res.json({
+            success: true,
+            data: {
+              status: 'paid',
+              payment_intent_id: intent.id,
+              amount,
+              ledger: updatedLedger
+            }
+          });
+        }
+      } catch (error) {
+        const cardError = error instanceof Stripe.errors.StripeCardError ? error : null;
+        if (!cardError) throw error;
+        if (cardError.code !== 'authentication_required') {
+          return res.status(402).json({
+            success: false,
+            error: cardError.message || 'Your card was declined'
+          });
+        }
+        // The bank wants 3D Secure: fall through to Checkout, where the customer can authenticate
+      }
+
+      const session = await createPaymentCheckout(order, payment_type, amount, customerId);
+      return res.json({
+        success: true,
+        data: {
+          status: 'requires_action',
+          checkout_url: session.url,
+          session_id: session.id,
+          amount
+        }
+      });
+    }
+
+    const session = await createPaymentCheckout(order, payment_type, amount, customerId);
+
     res.json({
       success: true,
       data: {
         checkout_url: session.url,
-        session_id: session.id
+        session_id: session.id,
+        amount
       }
     });
 
@@ -279,7 +361,7 @@ export const processPayment: RequestHandler = async (req, res) => {
   }
 };
 
-// Handle successful payment webhook
+// Confirm a completed deposit/balance Checkout Session (the Stripe webhook records it as well)
 export const handlePaymentSuccess: RequestHandler = async (req, res) => {
   try {
     const { session_id, order_id, payment_type } = req.body;
@@ -304,53 +386,25 @@ export const handlePaymentSuccess: RequestHandler = async (req, res) => {
       });
     }
 
-    // Get order details
-    const orderData = await booqableRequest(`/orders/${order_id}`);
-    
-    if (!orderData.order) {
-      return res.status(404).json({
+    if (session.metadata?.order_id !== order_id || session.metadata?.payment_type !== payment_type) {
+      return res.status(400).json({
         success: false,
-        error: 'Order not found'
+        error: 'Checkout session does not belong to this order payment'
       });
     }
 
-    const order = orderData.order;
-    const properties = order.properties || {};
-
-    // Update order with payment information
-    const updatedProperties = {
-      ...properties,
-      [`${payment_type}_paid`]: 'true',
-      [`${payment_type}_paid_date`]: new Date().toISOString(),
-      [`${payment_type}_payment_intent_id`]: session.payment_intent,
-      [`${payment_type}_amount`]: session.amount_total / 100
-    };
-
-    // Update payment status in order
-    if (payment_type === 'final' || (payment_type === 'deposit' && properties.final_paid)) {
-      updatedProperties.payment_status = 'paid';
-    } else if (payment_type === 'deposit') {
-      updatedProperties.payment_status = 'partially_paid';
-    }
-
-    await booqableRequest(`/orders/${order_id}`, {
-      method: 'PUT',
-      body: JSON.stringify({
-        order: {
-          properties: updatedProperties,
-          payment_status: updatedProperties.payment_status
-        }
-      })
-    });
+    const ledger = await recordOrderPayment(order_id, payment_type, session);
 
-    console.log(`${payment_type} payment completed for order ${order_id}: £${session.amount_total / 100}`);
+    console.log(`${payment_type} payment completed for order ${order_id}: ${session.amount_total / 100} ${session.currency}`);
 
     res.json({
       success: true,
       data: {
         payment_type,
         amount: session.amount_total / 100,
-        paid_date: new Date().toISOString()
+        currency: session.currency?.toUpperCase(),
+        paid_date: new Date().toISOString(),
+        ledger
       }
     });
 
@@ -363,59 +417,59 @@ export const handlePaymentSuccess: RequestHandler = async (req, res) => {
   }
 };
 
-// Download invoice/receipt
+// Download an invoice, receipt, packing slip or quote as a PDF
 export const downloadInvoice: RequestHandler = async (req, res) => {
   try {
     const { invoiceId } = req.params;
+    const parsed = parseDocumentId(invoiceId);
 
-    if (!invoiceId) {
+    if (!parsed) {
       return res.status(400).json({
         success: false,
-        error: 'Invoice ID is required'
+        error: 'Invalid invoice ID format'
       });
     }
 
-    // Extract order ID and payment type from invoice ID
-    const [type, orderId] = invoiceId.split('_');
-    
-    if (!orderId) {
-      return res.status(400).json({
+    const { type, orderId } = parsed;
+    const orderData = await booqable.orders.get(orderId, { include: 'customer,lines' });
+
+    if (!orderData.order) {
+      return res.status(404).json({
         success: false,
-        error: 'Invalid invoice ID format'
+        error: 'Order not found'
       });
     }
 
-    // Get order details
-    const orderData = await booqableRequest(`/orders/${orderId}`);
-    
-    if (!orderData.order) {
+    if (type === 'receipt' && !hasReceivedPayment(orderData.order)) {
+      return res.status(409).json({
+        success: false,
+        error: 'No payments have been received for this order yet'
+      });
+    }
+
+    const quoteNumber = orderData.order.properties?.quote_number;
+    if (type === 'quote' && !quoteNumber) {
       return res.status(404).json({
         success: false,
-        error: 'Order not found'
+        error: 'No quote was issued for this order'
       });
     }
 
-    // In a real implementation, you would generate a PDF invoice here
-    // For now, we'll return a simple JSON response
-    const invoice = {
-      invoice_id: invoiceId,
-      order_number: orderData.order.number,
-      type: type === 'dep' ? 'deposit' : 'final',
-      amount: type === 'dep' 
-        ? parseFloat(orderData.order.total_in_cents) / 100 * 0.3
-        : parseFloat(orderData.order.total_in_cents) / 100 * 0.7,
-      issued_date: new Date().toISOString(),
-      customer: orderData.order.customer
-    };
+    // Quotes are numbered when issued; invoices and receipts on first download
+    const invoiceNumber = type === 'quote' ? String(quoteNumber)
+      : type === 'packing' ? undefined : await getInvoiceNumber(invoiceId, orderId, type);
+    const filename = `${invoiceNumber || `packing-slip-${orderData.order.number ?? orderId}`}.pdf`;
 
-    res.json({
-      success: true,
-      data: invoice,
-      message: 'In production, this would generate and return a PDF invoice'
-    });
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    renderOrderDocument({ type, order: orderData.order, invoiceNumber }, res);
 
   } catch (error) {
     console.error('Error downloading invoice:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to download invoice'
@@ -423,47 +477,562 @@ export const downloadInvoice: RequestHandler = async (req, res) => {
   }
 };
 
-// Get payment methods for a customer
-export const getCustomerPaymentMethods: RequestHandler = async (req, res) => {
+// Cards saved on the current user's Stripe Customer
+export const getCustomerPaymentMethods: RequestHandler = async (req: any, res) => {
   try {
-    const { customerId } = req.params;
+    if (!stripe) {
+      return res.status(500).json({ success: false, error: 'Stripe is not configured' });
+    }
 
+    const customerId = await getStripeCustomerId(req.user.uid);
     if (!customerId) {
+      return res.json({ success: true, data: [] });
+    }
+
+    res.json({
+      success: true,
+      data: await listSavedCards(customerId)
+    });
+
+  } catch (error) {
+    console.error('Error fetching payment methods:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch payment methods'
+    });
+  }
+};
+
+// Start adding a card: a setup-mode Checkout Session collects the card through a SetupIntent
+export const createPaymentMethodSetup: RequestHandler = async (req: any, res) => {
+  try {
+    if (!stripe) {
+      return res.status(500).json({ success: false, error: 'Stripe is not configured' });
+    }
+
+    const customerId = await getOrCreateStripeCustomer(req.user.uid, { email: req.user.email });
+    const clientUrl = process.env.CLIENT_URL;
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'setup',
+      payment_method_types: ['card'],
+      customer: customerId,
+      currency: 'gbp',
+      success_url: `${clientUrl}/settings?tab=billing&card=added&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${clientUrl}/settings?tab=billing`,
+      metadata: { firebase_uid: req.user.uid },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        checkout_url: session.url,
+        session_id: session.id
+      }
+    });
+
+  } catch (error) {
+    console.error('Error starting card setup:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start adding a card'
+    });
+  }
+};
+
+// Confirm a finished card setup on return from Checkout (the webhook does the same)
+export const confirmPaymentMethodSetup: RequestHandler = async (req: any, res) => {
+  try {
+    const { session_id } = req.body;
+
+    if (!session_id) {
       return res.status(400).json({
         success: false,
-        error: 'Customer ID is required'
+        error: 'Session ID is required'
       });
     }
 
     if (!stripe) {
       return res.status(500).json({ success: false, error: 'Stripe is not configured' });
     }
-    // Get payment methods from Stripe
-    const paymentMethods = await stripe.paymentMethods.list({
-      customer: customerId,
-      type: 'card',
+
+    const [session, customerId] = await Promise.all([
+      stripe.checkout.sessions.retrieve(session_id),
+      getStripeCustomerId(req.user.uid),
+    ]);
+    const sessionCustomer = typeof session.customer === 'string' ? session.customer : session.customer?.id;
+
+    if (session.mode !== 'setup' || !customerId || sessionCustomer !== customerId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Card setup not found'
+      });
+    }
+
+    const paymentMethodId = await completeCardSetup(session);
+    if (!paymentMethodId) {
+      return res.status(409).json({
+        success: false,
+        error: 'The card has not been saved yet'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await listSavedCards(customerId)
     });
 
+  } catch (error) {
+    console.error('Error confirming card setup:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm the new card'
+    });
+  }
+};
+
+// Resolve `:paymentMethodId` to a card on the current user's customer, or respond 404
+async function findUserCard(req: any, res: Parameters<RequestHandler>[1]) {
+  const customerId = await getStripeCustomerId(req.user.uid);
+  const paymentMethod = customerId
+    ? await getCustomerPaymentMethod(customerId, req.params.paymentMethodId)
+    : null;
+
+  if (!customerId || !paymentMethod) {
+    res.status(404).json({
+      success: false,
+      error: 'Payment method not found'
+    });
+    return null;
+  }
+  return { customerId, paymentMethod };
+}
+
+export const setDefaultPaymentMethod: RequestHandler = async (req: any, res) => {
+  try {
+    if (!stripe) {
+      return res.status(500).json({ success: false, error: 'Stripe is not configured' });
+    }
+
+    const found = await findUserCard(req, res);
+    if (!found) return;
+
+    await setDefaultCard(found.customerId, found.paymentMethod.id);
+
     res.json({
       success: true,
-      data: paymentMethods.data.map(pm => ({
-        id: pm.id,
-        type: pm.type,
-        card: {
-          brand: pm.card?.brand,
-          last4: pm.card?.last4,
-          exp_month: pm.card?.exp_month,
-          exp_year: pm.card?.exp_year
-        },
-        created: pm.created
-      }))
+      data: await listSavedCards(found.customerId)
     });
 
   } catch (error) {
-    console.error('Error fetching payment methods:', error);
+    console.error('Error setting default payment method:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch payment methods'
+      error: 'Failed to update the default card'
+    });
+  }
+};
+
+export const removePaymentMethod: RequestHandler = async (req: any, res) => {
+  try {
+    if (!stripe) {
+      return res.status(500).json({ success: false, error: 'Stripe is not configured' });
+    }
+
+    const found = await findUserCard(req, res);
+    if (!found) return;
+
+    await stripe.paymentMethods.detach(found.paymentMethod.id);
+
+    // Promote the newest remaining card so off-session payments still have one to use
+    const cards = await listSavedCards(found.customerId);
+    const replacement = cards.some(card => card.is_default)
+      ? null
+      : [...cards].sort((a, b) => b.created - a.created)[0];
+    if (replacement) {
+      await setDefaultCard(found.customerId, replacement.id);
+      replacement.is_default = true;
+    }
+
+    res.json({
+      success: true,
+      data: cards
+    });
+
+  } catch (error) {
+    console.error('Error removing payment method:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove the card'
+    });
+  }
+};
+
+// Orders starting in this window can have a balance coming due or overdue
+const REMINDER_LOOKBACK_DAYS = 30;
+const REMINDER_ORDERS_PAGE_SIZE = 100;
+const REMINDER_SKIP_STATUSES = new Set(['new', 'concept', 'canceled', 'cancelled', 'stopped', 'archived']);
+
+async function findUserIdForCustomer(customerId: string | undefined) {
+  if (!customerId) return null;
+  const snap = await adminDb.collection('users').where('booqableCustomerId', '==', customerId).limit(1).get();
+  return snap.empty ? null : snap.docs[0].id;
+}
+
+async function notifyBalance(order: any, ledger: PaymentLedger, overdue: boolean) {
+  const amount = formatOrderAmount(order.properties, ledger.outstanding);
+  const dueDate = new Date(ledger.final_due_date).toLocaleDateString('en-GB');
+  const title = overdue ? 'Balance overdue' : 'Balance due soon';
+  const message = overdue
+    ? `The balance of ${amount} for order #${order.number} was due on ${dueDate}. Please pay now to keep your booking.`
+    : `The balance of ${amount} for order #${order.number} is due on ${dueDate}.`;
+
+  const email = order.customer?.email;
+  if (email) {
+    await queueEmail({
+      to: email,
+      subject: `${title} – order #${order.number}`,
+      text: `${message}\n\nPay online: ${process.env.CLIENT_URL}/orders?order=${order.id}`,
+    });
+  }
+
+  const userId = await findUserIdForCustomer(order.customer_id);
+  if (userId) {
+    const userRef = adminDb.collection('users').doc(userId);
+    await userRef.collection('notifications').doc().set({
+      title,
+      message,
+      type: 'order',
+      orderId: order.id,
+      isRead: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await userRef.collection('orders').doc(order.id).set({
+      balanceOutstanding: ledger.outstanding,
+      balanceDueDate: ledger.final_due_date,
+      balanceOverdue: overdue,
+      updatedAt: new Date()
+    }, { merge: true });
+  }
+}
+
+// Scheduled job: remind customers before their balance is due and flag overdue orders.
+// Each reminder is sent once per order; the markers live on the Booqable order properties.
+export const sendBalanceReminders: RequestHandler = async (_req, res) => {
+  try {
+    const now = new Date();
+    const from = new Date(now.getTime() - REMINDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const to = new Date(now.getTime() + (PAYMENT_POLICY.balanceDueDaysBeforeRental + PAYMENT_POLICY.balanceReminderDaysBeforeDue + 1) * 24 * 60 * 60 * 1000);
+
+    let ordersChecked = 0;
+    let remindersSent = 0;
+    let overdueFlagged = 0;
+
+    for (let page = 1; ; page++) {
+      const data = await booqable.orders.list({
+        'filter[starts_at_gteq]': from.toISOString(),
+        'filter[starts_at_lteq]': to.toISOString(),
+        include: 'customer',
+        per: REMINDER_ORDERS_PAGE_SIZE,
+        page,
+      });
+      const orders = data.orders || [];
+
+      for (const order of orders) {
+        if (REMINDER_SKIP_STATUSES.has(order.status)) continue;
+        ordersChecked++;
+
+        try {
+          const ledger = await getPaymentLedger(order, now);
+          if (ledger.outstanding <= 0 || ledger.net_paid <= 0) continue;
+
+          const properties = order.properties || {};
+          const timestamp = now.toISOString();
+
+          // Only the reminder fields are written, so a payment recorded meanwhile isn't overwritten
+          if (ledger.overdue) {
+            if (properties.balance_overdue_notified_at) continue;
+            await notifyBalance(order, ledger, true);
+            await updateOrderProperties(order.id, (current) => current.properties?.final_paid === 'true' ? null : {
+              properties: { balance_overdue: 'true', balance_overdue_notified_at: timestamp }
+            });
+            overdueFlagged++;
+          } else if (daysUntil(ledger.final_due_date, now) <= PAYMENT_POLICY.balanceReminderDaysBeforeDue && !properties.balance_reminder_sent_at) {
+            await notifyBalance(order, ledger, false);
+            await updateOrderProperties(order.id, () => ({
+              properties: { balance_reminder_sent_at: timestamp }
+            }));
+            remindersSent++;
+          }
+        } catch (error) {
+          console.error(`Error checking balance for order ${order.id}:`, error);
+        }
+      }
+
+      const totalPages = data.meta?.total_pages;
+      if (orders.length < REMINDER_ORDERS_PAGE_SIZE || (totalPages && page >= totalPages)) break;
+    }
+
+    console.log(`Balance reminders: ${ordersChecked} orders checked, ${remindersSent} reminders, ${overdueFlagged} overdue`);
+
+    res.json({
+      success: true,
+      data: {
+        orders_checked: ordersChecked,
+        reminders_sent: remindersSent,
+        overdue_flagged: overdueFlagged
+      }
+    });
+
+  } catch (error) {
+    console.error('Error sending balance reminders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send balance reminders'
+    });
+  }
+};
+
+async function notifySecurityDeposit(order: any, title: string, message: string) {
+  const email = order.customer?.email;
+  if (email) {
+    await queueEmail({
+      to: email,
+      subject: `${title} – order #${order.number}`,
+      text: `${message}\n\nView your order: ${process.env.CLIENT_URL}/orders?order=${order.id}`,
+    });
+  }
+
+  const userId = await findUserIdForCustomer(order.customer_id);
+  if (userId) {
+    await adminDb.collection('users').doc(userId).collection('notifications').doc().set({
+      title,
+      message,
+      type: 'order',
+      orderId: order.id,
+      isRead: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+// Customer authorises their security deposit hold through Checkout (when the off-session hold failed)
+export const authoriseSecurityDepositHold: RequestHandler = async (req: any, res) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!stripe) {
+      return res.status(500).json({ success: false, error: 'Stripe is not configured' });
+    }
+
+    const { order } = await booqable.orders.get(orderId, { include: 'customer' });
+    const deposit = getSecurityDeposit(order);
+
+    if (!deposit) {
+      return res.status(404).json({
+        success: false,
+        error: 'This order has no security deposit'
+      });
+    }
+
+    if (deposit.status !== 'scheduled' && deposit.status !== 'action_required') {
+      return res.status(409).json({
+        success: false,
+        error: `The security deposit is already ${deposit.status.replace('_', ' ')}`
+      });
+    }
+
+    const customerId = await getOrCreateStripeCustomer(req.user.uid, {
+      email: order.customer?.email || req.user.email,
+      name: order.customer?.name,
+    });
+    const session = await createSecurityDepositCheckout(order, customerId);
+
+    res.json({
+      success: true,
+      data: {
+        checkout_url: session.url,
+        session_id: session.id,
+        amount: deposit.amount
+      }
+    });
+
+  } catch (error) {
+    console.error('Error starting security deposit authorisation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start security deposit authorisation'
+    });
+  }
+};
+
+// Scheduled job: place security deposit holds for rentals starting soon. Card authorisations
+// lapse after 7 days, so holds are placed close to dispatch rather than at checkout.
+export const placeSecurityDepositHolds: RequestHandler = async (_req, res) => {
+  try {
+    const now = new Date();
+    const to = new Date(now.getTime() + PAYMENT_POLICY.securityDepositHoldDaysBeforeRental * 24 * 60 * 60 * 1000);
+    // Rentals still out, or back but awaiting inspection, keep their holds renewed
+    const returnedSince = new Date(now.getTime() - PAYMENT_POLICY.securityDepositInspectionDays * 24 * 60 * 60 * 1000);
+
+    let ordersChecked = 0;
+    let authorised = 0;
+    let renewed = 0;
+    let actionRequired = 0;
+
+    for (let page = 1; ; page++) {
+      const data = await booqable.orders.list({
+        'filter[starts_at_lteq]': to.toISOString(),
+        'filter[stops_at_gteq]': returnedSince.toISOString(),
+        include: 'customer',
+        per: REMINDER_ORDERS_PAGE_SIZE,
+        page,
+      });
+      const orders = data.orders || [];
+
+      for (const order of orders) {
+        if (REMINDER_SKIP_STATUSES.has(order.status)) continue;
+        const deposit = getSecurityDeposit(order);
+        if (deposit?.status !== 'scheduled' && deposit?.status !== 'authorised') continue;
+        ordersChecked++;
+
+        try {
+          if (deposit.status === 'authorised') {
+            const result = await renewSecurityDeposit(order, now);
+            if (result?.status === 'authorised' && result.payment_intent_id !== deposit.payment_intent_id) {
+              renewed++;
+            } else if (result?.status === 'action_required') {
+              actionRequired++;
+              await notifySecurityDeposit(
+                order,
+                'Security deposit needs your approval',
+                `Card holds expire after a week, and we couldn't renew the ${formatOrderAmount(order.properties, result.amount)} security deposit hold for order #${order.number} on your card. Please authorise it again from My Orders.`,
+              );
+            }
+            continue;
+          }
+
+          const result = await authoriseSecurityDeposit(order, now);
+          if (result?.status === 'authorised') {
+            authorised++;
+          } else if (result?.status === 'action_required') {
+            actionRequired++;
+            await notifySecurityDeposit(
+              order,
+              'Security deposit needs your approval',
+              `We couldn't place the ${formatOrderAmount(order.properties, result.amount)} security deposit hold for order #${order.number} on your card. Please authorise it before your rental starts.`,
+            );
+          }
+        } catch (error) {
+          console.error(`Error placing security deposit hold for order ${order.id}:`, error);
+        }
+      }
+
+      const totalPages = data.meta?.total_pages;
+      if (orders.length < REMINDER_ORDERS_PAGE_SIZE || (totalPages && page >= totalPages)) break;
+    }
+
+    console.log(`Security deposits: ${ordersChecked} orders checked, ${authorised} authorised, ${renewed} renewed, ${actionRequired} need action`);
+
+    res.json({
+      success: true,
+      data: {
+        orders_checked: ordersChecked,
+        authorised,
+        renewed,
+        action_required: actionRequired
+      }
+    });
+
+  } catch (error) {
+    console.error('Error placing security deposit holds:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to place security deposit holds'
+    });
+  }
+};
+
+// Return inspection (admin): record damage notes and capture part or all of the security deposit
+export const recordReturnInspection: RequestHandler = async (req: any, res) => {
+  try {
+    const { orderId } = req.params;
+    const { damage_notes, capture_amount = 0 } = req.body;
+    const captureAmount = Number(capture_amount);
+
+    if (!Number.isFinite(captureAmount) || captureAmount < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Capture amount must be a positive number'
+      });
+    }
+
+    if (captureAmount > 0 && (typeof damage_notes !== 'string' || !damage_notes.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Damage notes are required when capturing from the security deposit'
+      });
+    }
+
+    const { order } = await booqable.orders.get(orderId, { include: 'customer' });
+    const current = getSecurityDeposit(order);
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: 'This order has no security deposit'
+      });
+    }
+
+    if (captureAmount > 0 && current.status !== 'authorised') {
+      return res.status(409).json({
+        success: false,
+        error: `There is no authorised hold to capture from (the deposit is ${current.status.replace('_', ' ')})`
+      });
+    }
+
+    let deposit: SecurityDeposit;
+    try {
+      deposit = await settleSecurityDeposit(order, {
+        capture_amount: captureAmount,
+        damage_notes: typeof damage_notes === 'string' ? damage_notes.trim() : '',
+        inspected_by: req.user.email || req.user.uid,
+      });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if (error instanceof SecurityDepositError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+      throw error;
+    }
+
+    const held = formatOrderAmount(order.properties, deposit.amount);
+    const captured = formatOrderAmount(order.properties, deposit.captured_amount);
+    await notifySecurityDeposit(
+      order,
+      deposit.captured_amount > 0 ? 'Security deposit settled' : 'Security deposit released',
+      deposit.captured_amount > 0
+        ? `We found damage when order #${order.number} was returned, so ${captured} of your ${held} security deposit has been charged: ${deposit.damage_notes}. The rest of the hold has been released.`
+        : `Your ${held} security deposit hold for order #${order.number} has been released. Thank you for returning everything in good condition.`,
+    );
+
+    res.json({
+      success: true,
+      data: deposit
+    });
+
+  } catch (error) {
+    console.error('Error recording return inspection:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record the return inspection'
     });
   }
 };
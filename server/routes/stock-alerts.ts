@@ -1,30 +1,8 @@
 import { RequestHandler } from "express";
 
 import admin, { adminDb } from "../lib/firebase-admin";
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
-
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
+import { BooqableApiError } from "../lib/booqable-client";
+import { getProductAvailability, ProductAvailability } from "../lib/availability";
 
 // Stock alert data model
 interface StockAlert {
@@ -40,34 +18,22 @@ interface StockAlert {
   created_at: string;
   triggered_at?: string;
   status: 'active' | 'triggered' | 'expired';
+  // Units the customer wants (defaults to 1)
+  quantity?: number;
+  // Units free for the window when last checked; an alert only fires when this goes up
+  last_available_quantity?: number;
+  last_checked_at?: string;
+  // Recorded when the alert fires
+  available_quantity?: number;
+  freed_quantity?: number;
 }
 
-// Check if a product is available for given dates
-async function checkProductAvailability(productId: string, startDate: string, endDate: string): Promise<boolean> {
-  try {
-    // This is a simplified availability check
-    // In production, you'd check against the actual Booqable calendar/availability API
-    const response = await booqableRequest(`/products/${productId}`);
-    
-    if (!response.product) {
-      return false;
-    }
-
-    // Mock availability check - in production, integrate with calendar API
-    // For demo purposes, assume 80% availability
-    return Math.random() > 0.2;
-  } catch (error) {
-    console.error('Error checking product availability:', error);
-    return false;
-  }
-}
-
-
 // Create a new stock alert
 export const createStockAlert: RequestHandler = async (req, res) => {
   try {
     const userId = req.user?.uid;
     const { product_id, product_name, product_image, start_date, end_date, email, phone } = req.body;
+    const quantity = req.body.quantity ?? 1;
 
     if (!userId) {
       return res.status(401).json({
@@ -119,16 +85,35 @@ export const createStockAlert: RequestHandler = async (req, res) => {
       });
     }
 
-    // Verify product exists
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'Quantity must be a positive whole number'
+      });
+    }
+
+    // Verify product exists and record current availability as the baseline
+    let availability: ProductAvailability;
     try {
-      await booqableRequest(`/products/${product_id}`);
+      availability = await getProductAvailability(product_id, start_date, end_date);
     } catch (error) {
+      if (error instanceof BooqableApiError && !error.isNotFound) {
+        throw error;
+      }
       return res.status(404).json({
         success: false,
         error: 'Product not found'
       });
     }
 
+    if (availability.available_quantity >= quantity) {
+      return res.status(409).json({
+        success: false,
+        error: 'This product is already available for the selected dates',
+        data: { available_quantity: availability.available_quantity }
+      });
+    }
+
     // Create new alert
     const alertsRef = adminDb.collection('users').doc(userId).collection('stock_alerts');
     const docRef = alertsRef.doc();
@@ -143,7 +128,10 @@ export const createStockAlert: RequestHandler = async (req, res) => {
       email,
       phone,
       created_at: new Date().toISOString(),
-      status: 'active'
+      status: 'active',
+      quantity,
+      last_available_quantity: availability.available_quantity,
+      last_checked_at: new Date().toISOString()
     };
 
     await docRef.set(newAlert);
@@ -264,20 +252,47 @@ export const checkAllAlertsAvailability: RequestHandler = async (req, res) => {
     
     const snap = await adminDb.collectionGroup('stock_alerts').where('status', '==', 'active').get();
     let notificationsTriggered = 0;
+    const today = new Date().toISOString().slice(0, 10);
+
+    // Alerts for the same product and window share one availability lookup per run
+    const availabilityCache = new Map<string, Promise<ProductAvailability>>();
+    const lookup = (alert: StockAlert) => {
+      const key = `${alert.product_id}|${alert.start_date}|${alert.end_date}`;
+      if (!availabilityCache.has(key)) {
+        availabilityCache.set(key, getProductAvailability(alert.product_id, alert.start_date, alert.end_date));
+      }
+      return availabilityCache.get(key)!;
+    };
 
     for (const d of snap.docs) {
       const alert = d.data() as StockAlert;
       try {
-        const isAvailable = await checkProductAvailability(alert.product_id, alert.start_date, alert.end_date);
+        if (alert.end_date.slice(0, 10) < today) {
+          await d.ref.update({ status: 'expired' });
+          continue;
+        }
+
+        const availability = await lookup(alert);
+        const wanted = alert.quantity ?? 1;
+        const previous = alert.last_available_quantity ?? 0;
+        const available = availability.available_quantity;
+        const checkedAt = new Date().toISOString();
+
+        // Only fire when units have actually been freed up since the last check
+        if (available >= wanted && available > previous) {
+          const freed = available - previous;
 
-        if (isAvailable) {
-          // Create Firestore in-app notification
           try {
             const nref = adminDb.collection('users').doc(alert.user_id).collection('notifications').doc();
             await nref.set({
               title: 'Wishlist Item Available',
-              message: `The item '${alert.product_name}' is back in stock.`,
+              message: `${available === 1 ? '1 unit' : `${available} units`} of '${alert.product_name}' ${available === 1 ? 'is' : 'are'} now available from ${alert.start_date} to ${alert.end_date}.`,
               type: 'wishlist',
+              productId: alert.product_id,
+              availableQuantity: available,
+              freedQuantity: freed,
+              startDate: alert.start_date,
+              endDate: alert.end_date,
               isRead: false,
               createdAt: admin.firestore.FieldValue.serverTimestamp(),
             });
@@ -285,10 +300,18 @@ export const checkAllAlertsAvailability: RequestHandler = async (req, res) => {
             console.warn('Failed to write wishlist notification to Firestore:', e);
           }
 
-          // Update alert status
-          await d.ref.update({ status: 'triggered', triggered_at: new Date().toISOString() });
+          await d.ref.update({
+            status: 'triggered',
+            triggered_at: checkedAt,
+            last_checked_at: checkedAt,
+            last_available_quantity: available,
+            available_quantity: available,
+            freed_quantity: freed
+          });
           notificationsTriggered++;
-          console.log(`✅ Notification created for ${alert.product_name} to ${alert.email}`);
+          console.log(`✅ Notification created for ${alert.product_name} to ${alert.email} (${freed} freed, ${available} available)`);
+        } else {
+          await d.ref.update({ last_available_quantity: available, last_checked_at: checkedAt });
         }
       } catch (error) {
         console.error(`Error checking alert ${alert.id}:`, error);
@@ -1,39 +1,13 @@
 import { RequestHandler } from "express";
 import { adminDb } from "../lib/firebase-admin";
+import { booqable } from "../lib/booqable-client";
+import { getOrderCurrency } from "../lib/exchange-rates";
 
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
-
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
 
 // Get customer by email from Booqable
 async function getBooqableCustomerByEmail(email: string) {
   try {
-    const params = new URLSearchParams({
-      'filter[email]': email
-    });
-    
-    const data = await booqableRequest(`/customers?${params}`);
+    const data = await booqable.customers.list({ 'filter[email]': email });
     return data.customers?.[0] || null;
   } catch (error) {
     console.error('Error fetching customer by email:', error);
@@ -72,10 +46,7 @@ async function createBooqableCustomer(payload: {
     customerData.customer.address_country = payload.address.country || 'GB';
   }
 
-  const data = await booqableRequest('/customers', {
-    method: 'POST',
-    body: JSON.stringify(customerData)
-  });
+  const data = await booqable.customers.create(customerData.customer);
 
   return data.customer;
 }
@@ -104,10 +75,7 @@ async function updateBooqableCustomer(customerId: string, payload: {
     updateData.customer.address_country = payload.address.country || 'GB';
   }
 
-  const data = await booqableRequest(`/customers/${customerId}`, {
-    method: 'PUT',
-    body: JSON.stringify(updateData)
-  });
+  const data = await booqable.customers.update(customerId, updateData.customer);
 
   return data.customer;
 }
@@ -180,7 +148,7 @@ export const getDashboardData: RequestHandler = async (req: any, res) => {
       'sort': '-created_at'
     });
 
-    const ordersData = await booqableRequest(`/orders?${ordersParams}`);
+    const ordersData = await booqable.orders.list(ordersParams);
     const orders = ordersData.orders || [];
 
     console.log(`Found ${orders.length} orders for customer`);
@@ -210,7 +178,7 @@ export const getDashboardData: RequestHandler = async (req: any, res) => {
         for (const line of order.lines) {
           if (line.item) {
             try {
-              const productData = await booqableRequest(`/products/${line.item.id}?include=images,collections,properties`);
+              const productData = await booqable.products.get(line.item.id, { include: 'images,collections,properties' });
               if (productData.product) {
                 let productImages = ['/placeholder.svg'];
                 if (productData.included) {
@@ -261,7 +229,7 @@ export const getDashboardData: RequestHandler = async (req: any, res) => {
         start_date: order.starts_at,
         end_date: order.stops_at,
         total_amount: orderTotal,
-        currency: 'GBP',
+        ...getOrderCurrency(order.properties),
         items: orderItems,
         primary_product_name: primaryProductName,
         primary_product_image: primaryProductImage,
@@ -1,8 +1,9 @@
 import { RequestHandler } from "express";
 import admin, { adminDb } from "../lib/firebase-admin";
-
-const BOOQABLE_BASE_URL = process.env.BOOQABLE_BASE_URL;
-const BOOQABLE_API_KEY = process.env.BOOQABLE_API_KEY;
+import { booqable } from "../lib/booqable-client";
+import { calculateDeposit } from "../../shared/payment-policy";
+import { getOrderCurrency } from "../lib/exchange-rates";
+import { getQuoteSummary } from "../lib/quotes";
 
 // Preferences (users/{uid}/preferences)
 export const getUserPreferences: RequestHandler = async (req: any, res) => {
@@ -62,28 +63,6 @@ export const getUserNotes: RequestHandler = async (req: any, res) => {
   }
 };
 
-// Helper function to make authenticated requests to Booqable API
-async function booqableRequest(endpoint: string, options: RequestInit = {}) {
-  const url = `${BOOQABLE_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${BOOQABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Booqable API error: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`Booqable API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
 // Get user profile from Firestore
 export const getUserProfile: RequestHandler = async (req: any, res) => {
   try {
@@ -143,12 +122,11 @@ export const getUserOrders: RequestHandler = async (req: any, res) => {
       include: 'lines,lines.item'
     });
 
-    const data = await booqableRequest(`/orders?${params}`);
+    const data = await booqable.orders.list(params);
 
     const orders = (data.orders || []).map((order: any) => {
       const total = parseFloat(order.total_in_cents) / 100;
-      const deposit = parseFloat((total * 0.1).toFixed(2));
-      const balance = parseFloat((total - deposit).toFixed(2));
+      const { deposit, balance } = calculateDeposit(total);
       return {
         id: order.id,
         number: order.number,
@@ -157,7 +135,10 @@ export const getUserOrders: RequestHandler = async (req: any, res) => {
         start_date: order.starts_at,
         end_date: order.stops_at,
         total_amount: total,
-        currency: 'GBP',
+        // Amounts are GBP; shown converted at the rate the order was paid at
+        ...getOrderCurrency(order.properties),
+        // Set when the order started as a quote (see lib/quotes)
+        quote: getQuoteSummary(order.properties),
         items: order.lines?.map((line: any) => ({
           id: line.id,
           product_id: line.item?.id,
@@ -208,7 +189,14 @@ export const getUserOrders: RequestHandler = async (req: any, res) => {
 
       if (!existing.exists) {
         const nref = notifsCol.doc();
-        batch.set(nref, {
+        batch.set(nref, o.quote && o.quote.status !== 'accepted' ? {
+          title: 'Quote Sent',
+          message: `Your quote ${o.quote.quote_number} has been sent. Accept it from My Orders by ${new Date(o.quote.expires_at).toLocaleDateString('en-GB')}.`,
+          type: 'order',
+          orderId: o.id,
+          isRead: false,
+          createdAt: admin.firestore.FieldValue.serverTimestamp()
+        } : {
           title: 'Order Confirmed',
           message: `Your order #${o.number} has been placed successfully.`,
           type: 'order',
@@ -340,7 +328,7 @@ export const getUserWishlist: RequestHandler = async (req: any, res) => {
 
       if (price === 0 || image === '/placeholder.svg') {
         try {
-          const productData = await booqableRequest(`/products/${d.productId}?include=images,collections,properties`);
+          const productData = await booqable.products.get(d.productId, { include: 'images,collections,properties' });
           if (productData.product) {
             if (price === 0) {
               if (productData.product.base_price_in_cents) price = parseFloat(productData.product.base_price_in_cents) / 100;
@@ -4,9 +4,189 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type { DeliveryMethodId, ReturnMethodId } from "./delivery";
+import type { TaxSummary } from "./tax";
+import type { CurrencyCode } from "./currency";
+import type { PricingMethod, RentalPriceComponent } from "./rental-pricing";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * A single cart line as priced by the server (amounts in GBP); also returned by /api/products/:id/quote
+ */
+export interface PricedLine {
+  product_id: string;
+  size?: string;
+  name: string;
+  sku: string;
+  image?: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  rental_days: number;
+  price_per_day: number;
+  unit_price: number;
+  line_total: number;
+  pricing_method: PricingMethod;
+  /** How the unit price was reached, e.g. the first week plus extra days (see shared/rental-pricing), before any volume discount */
+  price_components?: RentalPriceComponent[];
+  /** Group order discount already taken off unit_price (see shared/group-orders) */
+  volume_discount_percent?: number;
+  volume_discount?: number;
+  /** Refundable security deposit for the whole line, held on the card before dispatch */
+  security_deposit: number;
+  /** Booqable collections the product is in (used for collection-restricted promo codes) */
+  collections?: string[];
+  /** Promo code discount taken off this line */
+  discount?: number;
+  /** VAT on the line after any discount (included in or added to the price, see CheckoutPriceBreakdown.tax) */
+  tax?: number;
+}
+
+/**
+ * Price breakdown returned by /api/checkout/quote and /api/checkout/create-session
+ */
+export interface CheckoutPriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  /** Group order discounts, already taken off the line prices and so the subtotal */
+  volume_discount: number;
+  /** Promo code discount, already taken off grand_total */
+  discount: number;
+  promo_code: string | null;
+  /** Why the requested promo code was not applied */
+  promo_error?: string;
+  delivery_method: DeliveryMethodId;
+  return_method: ReturnMethodId;
+  /** Delivery zone the fees were priced for; null when no address was needed */
+  delivery_zone: string | null;
+  delivery_fee: number;
+  /** Prepaid return-by-post label */
+  return_fee: number;
+  /** Why the chosen delivery options could not be priced (standard delivery is quoted instead) */
+  delivery_error?: string;
+  /** VAT on the lines and fees; added to grand_total only when prices exclude VAT */
+  tax: TaxSummary;
+  grand_total: number;
+  deposit: number;
+  balance_due: number;
+  /** Total refundable security deposit; authorised separately, not part of grand_total */
+  security_deposit: number;
+  /** Currency every amount above is in; the customer's, converted from Booqable's GBP prices */
+  currency: CurrencyCode;
+  /** Units of `currency` per 1 GBP (1 for GBP) */
+  exchange_rate: number;
+}
+
+/**
+ * A Booqable order created from a checkout (one per rental period)
+ */
+export interface CheckoutBooking {
+  order_id: string;
+  number: string | null;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Response type for /api/checkout/session/:session_id
+ */
+export interface CheckoutSessionResponse {
+  session_id: string;
+  payment_status: string;
+  customer_email: string | null;
+  amount_total: number;
+  currency: string | null;
+  metadata: Record<string, string> | null;
+  booking_status: 'confirmed' | 'pending' | 'failed';
+  bookings: CheckoutBooking[];
+}
+
+/**
+ * A card saved on the user's Stripe Customer, as listed by /api/user/payment-methods
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  type: string;
+  card: {
+    brand?: string;
+    last4?: string;
+    exp_month?: number;
+    exp_year?: number;
+  };
+  is_default: boolean;
+  created: number;
+}
+
+/**
+ * A saved cart line checked against current Booqable data by /api/cart/validate
+ */
+export interface CartItemValidation {
+  id: string;
+  status: 'ok' | 'price_changed' | 'archived' | 'unavailable';
+  /** Current price per day (GBP) when the line is still for sale */
+  price_per_day?: number;
+  /** Current price per unit (GBP) for the line's whole rental, when it has dates */
+  rental_price?: number;
+  /** Units free for the line's dates, when they were checked */
+  available_quantity?: number;
+  message?: string;
+}
+
+/**
+ * Free stock of one size of a costume over a rental window
+ */
+export interface SizeStock {
+  size: string;
+  /** Units of this size; null when the costume's stock isn't split by size */
+  stock_count: number | null;
+  /** Units of this size free for the whole window, never more than the costume has free */
+  available_quantity: number;
+}
+
+/**
+ * Response of /api/availability/:product_id/sizes, used to choose a group order's size breakdown
+ */
+export interface SizeAvailability {
+  product_id: string;
+  start_date: string;
+  end_date: string;
+  /** Units free across all sizes */
+  available_quantity: number;
+  sizes: SizeStock[];
+}
+
+/**
+ * An alternative rental window of the same length suggested when the requested dates are booked
+ */
+export interface SuggestedDates {
+  start_date: string;
+  end_date: string;
+  rental_days: number;
+  available_quantity: number;
+  /** Days from the requested start date (negative = earlier) */
+  offset_days: number;
+}
+
+/**
+ * A checkout line that can no longer be booked for its dates, returned by /api/checkout/create-session
+ */
+export interface AvailabilityConflict {
+  /** Position of the line in the submitted items */
+  line_index: number;
+  product_id: string;
+  size?: string;
+  name: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  /** Fewest units free on any day of the requested dates */
+  available_quantity: number;
+  conflicting_dates: string[];
+  suggestions: SuggestedDates[];
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertFromBase,
+  convertToBase,
+  currencyForLocale,
+  DEFAULT_EXCHANGE_RATES,
+  formatMoney,
+  getExchangeRate,
+  resolveCurrency,
+} from "./currency";
+
+describe("currency", () => {
+  it("picks the currency from the locale", () => {
+    expect(currencyForLocale("en-IE")).toBe("EUR");
+    expect(currencyForLocale("fr")).toBe("EUR");
+    expect(currencyForLocale("en-GB,en;q=0.9")).toBe("GBP");
+    expect(currencyForLocale("fr-CH")).toBe("GBP");
+    expect(currencyForLocale("")).toBe("GBP");
+  });
+
+  it("prefers an explicit choice over the locale", () => {
+    expect(resolveCurrency({ preferred: "gbp", locale: "de-DE" })).toBe("GBP");
+    expect(resolveCurrency({ preferred: "USD", locale: "de-DE" })).toBe("EUR");
+  });
+
+  it("converts to and from the base currency", () => {
+    expect(convertFromBase(10.01, 1.17)).toBe(11.71);
+    expect(convertToBase(11.71, 1.17)).toBe(10.01);
+    expect(getExchangeRate(DEFAULT_EXCHANGE_RATES, "GBP")).toBe(1);
+  });
+
+  it("formats amounts with the currency symbol", () => {
+    expect(formatMoney(12.5)).toBe("£12.50");
+    expect(formatMoney(14.6, "EUR")).toBe("€14.60");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Currencies shared between client and server.
+ * Booqable prices are in the base currency (GBP) and stay the reference for every rule (delivery
+ * thresholds, promo minimums, the payment ledger). Customers in Ireland and the EU see and pay the
+ * same amounts converted at a stored exchange rate, which is locked onto the order at checkout.
+ */
+
+export type CurrencyCode = 'GBP' | 'EUR';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  label: string;
+  symbol: string;
+  /** Locale used to format amounts when the customer's own locale isn't known */
+  locale: string;
+}
+
+export const BASE_CURRENCY: CurrencyCode = 'GBP';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  GBP: { code: 'GBP', label: 'Pound sterling', symbol: '£', locale: 'en-GB' },
+  EUR: { code: 'EUR', label: 'Euro', symbol: '€', locale: 'en-IE' },
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export interface ExchangeRates {
+  base: CurrencyCode;
+  /** Units of each currency per one unit of the base currency */
+  rates: Record<CurrencyCode, number>;
+  updated_at: string | null;
+}
+
+/** Used until rates have been saved by an admin */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  base: BASE_CURRENCY,
+  rates: { GBP: 1, EUR: 1.17 },
+  updated_at: null,
+};
+
+// Countries whose customers pay in euro
+const EUROZONE_COUNTRIES = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+];
+// Languages mostly spoken inside the eurozone, for locales without a country ("de", "fr")
+const EUROZONE_LANGUAGES = ['de', 'el', 'es', 'et', 'fi', 'fr', 'ga', 'hr', 'it', 'lt', 'lv', 'mt', 'nl', 'pt', 'sk', 'sl'];
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+export function isSupportedCurrency(code: unknown): code is CurrencyCode {
+  return typeof code === 'string' && (SUPPORTED_CURRENCIES as string[]).includes(code);
+}
+
+export function normaliseCurrency(code: unknown): CurrencyCode | null {
+  const upper = typeof code === 'string' ? code.trim().toUpperCase() : '';
+  return isSupportedCurrency(upper) ? upper : null;
+}
+
+/**
+ * Currency for a locale such as "en-IE", "fr" or an Accept-Language header; the base currency otherwise
+ */
+export function currencyForLocale(locale: string | null | undefined): CurrencyCode {
+  const first = (locale || '').split(',')[0].split(';')[0].trim();
+  const [language, ...rest] = first.replace('_', '-').split('-');
+  const country = rest.find(part => /^[A-Za-z]{2}$/.test(part))?.toUpperCase();
+
+  if (country) return EUROZONE_COUNTRIES.includes(country) ? 'EUR' : BASE_CURRENCY;
+  return EUROZONE_LANGUAGES.includes(language.toLowerCase()) ? 'EUR' : BASE_CURRENCY;
+}
+
+/**
+ * The customer's currency: an explicit choice or saved preference wins, then their locale
+ */
+export function resolveCurrency({ preferred, locale }: { preferred?: unknown; locale?: string | null }): CurrencyCode {
+  return normaliseCurrency(preferred) ?? currencyForLocale(locale);
+}
+
+export function getExchangeRate(rates: ExchangeRates, currency: CurrencyCode) {
+  if (currency === rates.base) return 1;
+  const rate = rates.rates[currency] ?? DEFAULT_EXCHANGE_RATES.rates[currency];
+  return rate > 0 ? rate : 1;
+}
+
+/**
+ * A base-currency amount in another currency, rounded to the cent
+ */
+export function convertFromBase(amount: number, rate: number) {
+  return Math.round(toPence(amount) * rate) / 100;
+}
+
+/**
+ * An amount in another currency back in the base currency, rounded to the penny
+ */
+export function convertToBase(amount: number, rate: number) {
+  return Math.round(toPence(amount) / rate) / 100;
+}
+
+/**
+ * "£12.50", "€14.63"
+ */
+export function formatMoney(amount: number, currency: CurrencyCode = BASE_CURRENCY, locale?: string) {
+  return new Intl.NumberFormat(locale || CURRENCIES[currency].locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * A base-currency amount shown in the currency an order or customer pays in
+ */
+export function formatConverted(amount: number, currency: CurrencyCode, rate: number, locale?: string) {
+  return formatMoney(currency === BASE_CURRENCY ? amount : convertFromBase(amount, rate), currency, locale);
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { calculateDeliveryCharges, findDeliveryZone, getReturnInstructions } from "./delivery";
+
+describe("delivery options", () => {
+  it("matches postcodes to the most specific zone", () => {
+    expect(findDeliveryZone("GB", "hs1 2ab")?.id).toBe("gb_highlands_islands");
+    expect(findDeliveryZone("GB", "SW1A 1AA")?.id).toBe("gb_mainland");
+    expect(findDeliveryZone("FR", "75001")).toBeNull();
+  });
+
+  it("prices courier delivery by zone and order value", () => {
+    const courier = { delivery_method: "courier", return_method: "in_store", country: "GB" } as const;
+    expect(calculateDeliveryCharges({ ...courier, postcode: "M1 1AA" }, 99.99))
+      .toEqual({ delivery_fee: 10, return_fee: 0, zone: "gb_mainland" });
+    expect(calculateDeliveryCharges({ ...courier, postcode: "M1 1AA" }, 100))
+      .toEqual({ delivery_fee: 0, return_fee: 0, zone: "gb_mainland" });
+    expect(calculateDeliveryCharges({ ...courier, postcode: "KW1 4YT" }, 500))
+      .toEqual({ delivery_fee: 25, return_fee: 0, zone: "gb_highlands_islands" });
+  });
+
+  it("charges nothing for collection and prices the return label by zone", () => {
+    expect(calculateDeliveryCharges({ delivery_method: "collection", return_method: "in_store" }, 20))
+      .toEqual({ delivery_fee: 0, return_fee: 0, zone: null });
+    expect(calculateDeliveryCharges({ delivery_method: "collection", return_method: "post_label", country: "GB" }, 20))
+      .toEqual({ error: "Please enter your postcode" });
+    expect(calculateDeliveryCharges({ delivery_method: "collection", return_method: "post_label", country: "GB", postcode: "LS1 1UR" }, 20))
+      .toEqual({ delivery_fee: 0, return_fee: 6, zone: "gb_mainland" });
+  });
+
+  it("gives the return-by date as the day after the rental ends", () => {
+    expect(getReturnInstructions("in_store", "2025-06-20")).toMatch(/^Return by Saturday 21 June\./);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Delivery and return options shared between client and server.
+ * The checkout page offers exactly these methods and prices them with the same functions the
+ * server uses to charge, so the fee shown is the fee taken.
+ */
+
+import { PAYMENT_POLICY } from "./payment-policy";
+
+export type DeliveryMethodId = 'courier' | 'collection';
+export type ReturnMethodId = 'in_store' | 'post_label';
+
+export interface DeliveryMethod {
+  id: DeliveryMethodId;
+  label: string;
+  description: string;
+  /** Whether the order is sent to the customer's address */
+  requiresAddress: boolean;
+}
+
+export interface ReturnMethod {
+  id: ReturnMethodId;
+  label: string;
+  description: string;
+  /** Whether the customer's address is needed (to price and print the label) */
+  requiresAddress: boolean;
+  /** Told to the customer and printed on the order, before the return-by date */
+  instructions: string;
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  /** ISO country codes the zone covers */
+  countries: string[];
+  /** Postcode areas (the leading letters, e.g. "HS") the zone is limited to; empty means the whole country */
+  postcodeAreas: string[];
+  /** Courier fee (GBP) */
+  courierFee: number;
+  /** Courier delivery is free at or above this subtotal (GBP); null means never free */
+  freeCourierThreshold: number | null;
+  /** Prepaid return-by-post label (GBP) */
+  returnLabelFee: number;
+}
+
+export const DELIVERY_METHODS: DeliveryMethod[] = [
+  {
+    id: 'courier',
+    label: 'Courier delivery',
+    description: 'Tracked delivery to your door before your rental starts',
+    requiresAddress: true,
+  },
+  {
+    id: 'collection',
+    label: 'Collect in store',
+    description: 'Free. Collect from our studio on your rental start date; we email your collection slot',
+    requiresAddress: false,
+  },
+];
+
+export const RETURN_METHODS: ReturnMethod[] = [
+  {
+    id: 'in_store',
+    label: 'Return in store',
+    description: 'Free. Drop the costumes back at our studio',
+    requiresAddress: false,
+    instructions: 'Bring every costume and accessory back to our studio in the bag provided.',
+  },
+  {
+    id: 'post_label',
+    label: 'Return by post',
+    description: 'We email a prepaid, tracked return label',
+    requiresAddress: true,
+    instructions: 'Pack every costume and accessory in the original bag, attach the prepaid label we emailed you and hand it in at any Post Office. Keep the proof of postage.',
+  },
+];
+
+// Zones are matched in order, so the more specific ones come first
+export const DELIVERY_ZONES: DeliveryZone[] = [
+  {
+    id: 'gb_highlands_islands',
+    name: 'Highlands, islands and Northern Ireland',
+    countries: ['GB'],
+    postcodeAreas: ['BT', 'GY', 'HS', 'IM', 'IV', 'JE', 'KW', 'ZE'],
+    courierFee: 25,
+    freeCourierThreshold: null,
+    returnLabelFee: 12,
+  },
+  {
+    id: 'gb_mainland',
+    name: 'UK mainland',
+    countries: ['GB'],
+    postcodeAreas: [],
+    courierFee: PAYMENT_POLICY.deliveryFee,
+    freeCourierThreshold: PAYMENT_POLICY.freeDeliveryThreshold,
+    returnLabelFee: 6,
+  },
+  {
+    id: 'ie',
+    name: 'Ireland',
+    countries: ['IE'],
+    postcodeAreas: [],
+    courierFee: 30,
+    freeCourierThreshold: null,
+    returnLabelFee: 15,
+  },
+];
+
+/** Countries we deliver to */
+export const DELIVERY_COUNTRIES = [...new Set(DELIVERY_ZONES.flatMap(zone => zone.countries))];
+
+export const DEFAULT_DELIVERY_METHOD: DeliveryMethodId = 'courier';
+export const DEFAULT_RETURN_METHOD: ReturnMethodId = 'in_store';
+
+export interface DeliverySelection {
+  delivery_method: DeliveryMethodId;
+  return_method: ReturnMethodId;
+  country?: string;
+  postcode?: string;
+}
+
+export interface DeliveryCharges {
+  delivery_fee: number;
+  return_fee: number;
+  zone: string | null;
+}
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+export const getDeliveryMethod = (id: string) => DELIVERY_METHODS.find(method => method.id === id) ?? null;
+export const getReturnMethod = (id: string) => RETURN_METHODS.find(method => method.id === id) ?? null;
+
+/**
+ * Leading letters of a UK postcode ("SW1A 1AA" -> "SW")
+ */
+export function getPostcodeArea(postcode: string) {
+  return postcode.trim().toUpperCase().match(/^[A-Z]{1,2}/)?.[0] ?? '';
+}
+
+export function findDeliveryZone(country: string, postcode = '') {
+  const countryCode = country.trim().toUpperCase();
+  const area = getPostcodeArea(postcode);
+  return DELIVERY_ZONES.find(zone =>
+    zone.countries.includes(countryCode) && (zone.postcodeAreas.length === 0 || zone.postcodeAreas.includes(area))
+  ) ?? null;
+}
+
+/**
+ * Delivery and return fees for the chosen methods, or the reason they can't be priced
+ */
+export function calculateDeliveryCharges(
+  selection: DeliverySelection,
+  subtotal: number,
+): DeliveryCharges | { error: string } {
+  const delivery = getDeliveryMethod(selection.delivery_method);
+  const returns = getReturnMethod(selection.return_method);
+  if (!delivery || !returns) {
+    return { error: 'Please choose a delivery and return option' };
+  }
+
+  const needsAddress = delivery.requiresAddress || returns.requiresAddress;
+  const zone = needsAddress ? findDeliveryZone(selection.country || '', selection.postcode) : null;
+  if (needsAddress && !selection.postcode?.trim()) {
+    return { error: 'Please enter your postcode' };
+  }
+  if (needsAddress && !zone) {
+    return { error: `We can only deliver to ${DELIVERY_COUNTRIES.join(', ')}` };
+  }
+
+  let deliveryFee = 0;
+  if (delivery.id === 'courier' && zone) {
+    const free = zone.freeCourierThreshold !== null && toPence(subtotal) >= toPence(zone.freeCourierThreshold);
+    deliveryFee = free ? 0 : zone.courierFee;
+  }
+
+  return {
+    delivery_fee: deliveryFee,
+    return_fee: returns.id === 'post_label' && zone ? zone.returnLabelFee : 0,
+    zone: zone?.id ?? null,
+  };
+}
+
+/**
+ * What the customer is told about returning an order that ends on `rentalEndDate` (YYYY-MM-DD)
+ */
+export function getReturnInstructions(returnMethod: ReturnMethodId, rentalEndDate: string) {
+  const returnBy = new Date(rentalEndDate + 'T00:00:00Z');
+  returnBy.setUTCDate(returnBy.getUTCDate() + 1);
+  const date = returnBy.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' });
+  const method = getReturnMethod(returnMethod) ?? RETURN_METHODS[0];
+  return `Return by ${date}. ${method.instructions}`;
+}
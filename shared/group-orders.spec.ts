@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyVolumeDiscount,
+  getNextVolumeDiscountTier,
+  getSizeBreakdownTotal,
+  getSizeLines,
+  getVolumeDiscountPercents,
+  getVolumeDiscountTier,
+} from "./group-orders";
+
+const line = (product_id: string, quantity: number, start_date = "2026-11-02") =>
+  ({ product_id, quantity, start_date, end_date: "2026-11-05" });
+
+describe("group orders", () => {
+  it("picks the highest tier reached", () => {
+    expect(getVolumeDiscountTier(9)).toBeNull();
+    expect(getVolumeDiscountTier(20)?.percent).toBe(10);
+    expect(getVolumeDiscountTier(100)?.percent).toBe(15);
+    expect(getNextVolumeDiscountTier(12)).toEqual({ min_quantity: 20, percent: 10 });
+  });
+
+  it("counts every size of a costume for the same dates towards its tier", () => {
+    expect(getVolumeDiscountPercents([line("a", 4), line("a", 10), line("a", 6), line("b", 3)]))
+      .toEqual([10, 10, 10, 0]);
+    expect(getVolumeDiscountPercents([line("a", 8), line("a", 8, "2026-11-03")])).toEqual([0, 0]);
+  });
+
+  it("takes the discount off the unit price to the penny", () => {
+    expect(applyVolumeDiscount(12.5, 10)).toBe(11.25);
+    expect(applyVolumeDiscount(9.99, 5)).toBe(9.49);
+  });
+
+  it("keeps only the sizes wanted", () => {
+    const breakdown = { S: 4, M: 10, L: 0, XL: 1.5 };
+    expect(getSizeLines(breakdown)).toEqual([{ size: "S", quantity: 4 }, { size: "M", quantity: 10 }]);
+    expect(getSizeBreakdownTotal(breakdown)).toBe(14);
+  });
+});
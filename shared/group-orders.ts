@@ -0,0 +1,79 @@
+/**
+ * Group orders: schools and dance troupes hiring one costume in several sizes for the same dates.
+ * Each size is its own cart line (and Booqable order line). Volume discount tiers apply to the
+ * total units of a costume hired for the same dates, whatever their sizes, and come off the
+ * unit price of each of those lines. Shared so the product page and cart show what checkout charges.
+ */
+
+export interface VolumeDiscountTier {
+  min_quantity: number;
+  percent: number;
+}
+
+/** The highest tier reached applies */
+export const VOLUME_DISCOUNT_TIERS: VolumeDiscountTier[] = [
+  { min_quantity: 10, percent: 5 },
+  { min_quantity: 20, percent: 10 },
+  { min_quantity: 40, percent: 15 },
+];
+
+/** Units wanted per size, e.g. { S: 4, M: 10, L: 6 } */
+export type SizeBreakdown = Record<string, number>;
+
+export interface GroupedLine {
+  product_id: string;
+  start_date: string;
+  end_date: string;
+  quantity: number;
+}
+
+const groupKey = (line: GroupedLine) => [line.product_id, line.start_date, line.end_date].join('|');
+
+export function getVolumeDiscountTier(quantity: number): VolumeDiscountTier | null {
+  return [...VOLUME_DISCOUNT_TIERS].reverse().find(tier => quantity >= tier.min_quantity) ?? null;
+}
+
+/**
+ * The next tier up, to show how many more units would earn a bigger discount
+ */
+export function getNextVolumeDiscountTier(quantity: number): VolumeDiscountTier | null {
+  return VOLUME_DISCOUNT_TIERS.find(tier => quantity < tier.min_quantity) ?? null;
+}
+
+/**
+ * For each line, the units of the same costume for the same dates across all lines
+ */
+export function groupQuantities(lines: GroupedLine[]) {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(groupKey(line), (totals.get(groupKey(line)) ?? 0) + line.quantity);
+  }
+  return lines.map(line => totals.get(groupKey(line)) ?? 0);
+}
+
+/**
+ * Volume discount percentage for each line (0 below the first tier)
+ */
+export function getVolumeDiscountPercents(lines: GroupedLine[]) {
+  return groupQuantities(lines).map(quantity => getVolumeDiscountTier(quantity)?.percent ?? 0);
+}
+
+/**
+ * A unit price less a volume discount, rounded to the penny
+ */
+export function applyVolumeDiscount(unitPrice: number, percent: number) {
+  return Math.round(Math.round(unitPrice * 100) * (100 - percent) / 100) / 100;
+}
+
+/**
+ * The sizes actually wanted, in the order given
+ */
+export function getSizeLines(breakdown: SizeBreakdown) {
+  return Object.entries(breakdown)
+    .filter(([, quantity]) => Number.isInteger(quantity) && quantity > 0)
+    .map(([size, quantity]) => ({ size, quantity }));
+}
+
+export function getSizeBreakdownTotal(breakdown: SizeBreakdown) {
+  return getSizeLines(breakdown).reduce((sum, line) => sum + line.quantity, 0);
+}
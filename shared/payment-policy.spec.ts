@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateDeliveryFee,
+  calculateDeposit,
+  calculatePaymentSchedule,
+  calculateRefundAmount,
+  getOrderPermissions,
+  getSecurityDepositPerUnit,
+} from "./payment-policy";
+
+describe("payment policy", () => {
+  it("charges delivery below the free delivery threshold", () => {
+    expect(calculateDeliveryFee(99.99)).toBe(10);
+    expect(calculateDeliveryFee(100)).toBe(0);
+  });
+
+  it("splits the total into deposit and balance in whole pence", () => {
+    expect(calculateDeposit(123.45)).toEqual({ deposit: 12.35, balance: 111.1 });
+    expect(calculateDeposit(0.01)).toEqual({ deposit: 0.01, balance: 0 });
+  });
+
+  it("schedules the balance before the rental starts", () => {
+    const schedule = calculatePaymentSchedule(200, "2025-06-20T00:00:00Z", "2025-05-01T00:00:00Z");
+    expect(schedule.deposit_amount).toBe(20);
+    expect(schedule.final_amount).toBe(180);
+    expect(schedule.final_due_date.slice(0, 10)).toBe("2025-06-13");
+  });
+
+  it("applies refund tiers by days until rental", () => {
+    expect(calculateRefundAmount(100, 30)).toBe(100);
+    expect(calculateRefundAmount(100, 20)).toBe(80);
+    expect(calculateRefundAmount(100, 10)).toBe(50);
+    expect(calculateRefundAmount(100, 7)).toBe(0);
+  });
+
+  it("allows cancellation whenever a refund tier still applies", () => {
+    const now = new Date("2025-06-01T00:00:00Z");
+    const permissions = getOrderPermissions("2025-06-11T00:00:00Z", "confirmed", now);
+    expect(permissions).toEqual({ canModify: false, canCancel: true, canReschedule: false, daysUntilRental: 10 });
+  });
+
+  it("takes the product's security deposit over its collections'", () => {
+    const depositsByCollection = { schools: 25 };
+    expect(getSecurityDepositPerUnit(40, ["Schools"], depositsByCollection)).toBe(40);
+    expect(getSecurityDepositPerUnit(null, ["Schools", "Shows"], depositsByCollection)).toBe(25);
+    expect(getSecurityDepositPerUnit(0, ["Shows"], depositsByCollection)).toBe(0);
+    expect(getSecurityDepositPerUnit(null, ["Schools"], {})).toBe(0);
+  });
+});
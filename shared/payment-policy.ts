@@ -0,0 +1,179 @@
+/**
+ * Payment policy shared between client and server.
+ * Every deposit, balance, refund, minimum rental and delivery rule lives here so the
+ * checkout, order management and payment screens always show the same numbers.
+ */
+
+export interface RefundTier {
+  /** Tier applies when the rental starts more than this many days from now */
+  minDaysBeforeRental: number;
+  /** Fraction of the refundable amount returned to the customer */
+  refundRate: number;
+}
+
+export const PAYMENT_POLICY = {
+  /** Deposit taken at checkout, as a fraction of the order total */
+  depositRate: 0.1,
+  /** Deposit is due within this many hours of booking */
+  depositDueHours: 24,
+  /** Balance is due this many days before the rental starts */
+  balanceDueDaysBeforeRental: 7,
+  /** Customers with an unpaid balance are reminded this many days before it is due */
+  balanceReminderDaysBeforeDue: 3,
+  /** Minimum rental period in days (inclusive of start and end date) */
+  minimumRentalDays: 8,
+  /** Orders at or above this subtotal (GBP) are delivered free */
+  freeDeliveryThreshold: 100,
+  /** Delivery fee (GBP) for orders below the free delivery threshold */
+  deliveryFee: 10,
+  /** Orders can be modified until this many days before the rental */
+  modificationCutoffDays: 28,
+  /** Orders can be rescheduled until this many days before the rental */
+  rescheduleCutoffDays: 14,
+  /**
+   * Refundable security deposit (GBP per unit) for products in these collections, keyed by
+   * lower-case collection name. A security deposit set on the product in Booqable takes precedence.
+   */
+  securityDepositByCollection: {} as Record<string, number>,
+  /** The security deposit hold is authorised this many days before the rental starts (card holds lapse after 7) */
+  securityDepositHoldDaysBeforeRental: 2,
+  /** Card holds lapse after 7 days, so a hold still needed is replaced with a fresh one once it is this old */
+  securityDepositRenewAfterDays: 6,
+  /** Holds are kept (and renewed) for up to this many days after the rental ends, awaiting the return inspection */
+  securityDepositInspectionDays: 14,
+  /** Refund tiers, ordered from most to least generous */
+  refundTiers: [
+    { minDaysBeforeRental: 28, refundRate: 1 },
+    { minDaysBeforeRental: 14, refundRate: 0.8 },
+    { minDaysBeforeRental: 7, refundRate: 0.5 },
+  ] as RefundTier[],
+} as const;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Whole days from now until the given date (rounded up)
+ */
+export function daysUntil(date: string | Date, now: Date = new Date()) {
+  return Math.ceil((new Date(date).getTime() - now.getTime()) / DAY_MS);
+}
+
+export function calculateDeliveryFee(subtotal: number) {
+  return subtotal >= PAYMENT_POLICY.freeDeliveryThreshold ? 0 : PAYMENT_POLICY.deliveryFee;
+}
+
+/**
+ * How much more the customer needs to spend for free delivery (0 when already free)
+ */
+export function amountUntilFreeDelivery(subtotal: number) {
+  return Math.max(0, (toPence(PAYMENT_POLICY.freeDeliveryThreshold) - toPence(subtotal)) / 100);
+}
+
+/**
+ * Split an order total into the deposit taken now and the balance due later
+ */
+export function calculateDeposit(total: number) {
+  const totalPence = toPence(total);
+  const depositPence = Math.min(totalPence, Math.max(1, Math.round(totalPence * PAYMENT_POLICY.depositRate)));
+  return {
+    deposit: depositPence / 100,
+    balance: (totalPence - depositPence) / 100,
+  };
+}
+
+export function getBalanceDueDate(rentalStartDate: string | Date) {
+  const dueDate = new Date(rentalStartDate);
+  dueDate.setDate(dueDate.getDate() - PAYMENT_POLICY.balanceDueDaysBeforeRental);
+  return dueDate;
+}
+
+/**
+ * Full payment schedule for an order: deposit now, balance before the rental starts
+ */
+export function calculatePaymentSchedule(total: number, rentalStartDate: string, bookedAt: string | Date = new Date()) {
+  const { deposit, balance } = calculateDeposit(total);
+  const depositDueDate = new Date(bookedAt);
+  depositDueDate.setHours(depositDueDate.getHours() + PAYMENT_POLICY.depositDueHours);
+
+  return {
+    deposit_amount: deposit,
+    deposit_due_date: depositDueDate.toISOString(),
+    final_amount: balance,
+    final_due_date: getBalanceDueDate(rentalStartDate).toISOString(),
+    total_amount: total,
+  };
+}
+
+/**
+ * Security deposit per unit (GBP): the product's own amount, else the highest of its collections'
+ * (`depositsByCollection` is keyed by lower-case collection name)
+ */
+export function getSecurityDepositPerUnit(
+  productDeposit: number | null | undefined,
+  collectionNames: string[] = [],
+  depositsByCollection: Record<string, number> = PAYMENT_POLICY.securityDepositByCollection,
+) {
+  if (productDeposit && productDeposit > 0) return toPence(productDeposit) / 100;
+  const collectionDeposits = collectionNames
+    .map(name => depositsByCollection[name.toLowerCase()] || 0);
+  return Math.max(0, ...collectionDeposits);
+}
+
+export function getRefundRate(daysUntilRental: number) {
+  const tier = PAYMENT_POLICY.refundTiers.find(t => daysUntilRental > t.minDaysBeforeRental);
+  return tier ? tier.refundRate : 0;
+}
+
+export function calculateRefundAmount(amount: number, daysUntilRental: number) {
+  return Math.round(toPence(amount) * getRefundRate(daysUntilRental)) / 100;
+}
+
+/**
+ * What the customer may still do with an order, given its start date and status
+ */
+export function getOrderPermissions(rentalStartDate: string, status: string, now: Date = new Date()) {
+  const daysUntilRental = daysUntil(rentalStartDate, now);
+  const lastRefundTier = PAYMENT_POLICY.refundTiers[PAYMENT_POLICY.refundTiers.length - 1];
+
+  return {
+    canModify: daysUntilRental > PAYMENT_POLICY.modificationCutoffDays,
+    canCancel: daysUntilRental > lastRefundTier.minDaysBeforeRental && status !== 'cancelled',
+    canReschedule: daysUntilRental > PAYMENT_POLICY.rescheduleCutoffDays && status === 'confirmed',
+    daysUntilRental,
+  };
+}
+
+/**
+ * Customer-facing summary of what is allowed at this point before the rental
+ */
+export function describeOrderPolicy(daysUntilRental: number) {
+  const refundPercent = Math.round(getRefundRate(daysUntilRental) * 100);
+  const lastRefundTier = PAYMENT_POLICY.refundTiers[PAYMENT_POLICY.refundTiers.length - 1];
+
+  if (daysUntilRental > PAYMENT_POLICY.modificationCutoffDays) {
+    return `You can modify, reschedule, or cancel this order with a ${refundPercent}% refund.`;
+  }
+  if (daysUntilRental > PAYMENT_POLICY.rescheduleCutoffDays) {
+    return `You can reschedule this order. Cancellation refunds ${refundPercent}% of the order total.`;
+  }
+  if (daysUntilRental > lastRefundTier.minDaysBeforeRental) {
+    return `Cancellation available with a ${refundPercent}% refund. No modifications allowed.`;
+  }
+  return `No modifications or cancellations allowed within ${lastRefundTier.minDaysBeforeRental} days of rental.`;
+}
+
+/**
+ * Human-readable business rules, used by the order and payment screens
+ */
+export const POLICY_TERMS = {
+  deposit: `${Math.round(PAYMENT_POLICY.depositRate * 100)}% deposit taken at checkout`,
+  balance: `Balance (${100 - Math.round(PAYMENT_POLICY.depositRate * 100)}%) due ${PAYMENT_POLICY.balanceDueDaysBeforeRental} days before rental start date`,
+  minimumRental: `${PAYMENT_POLICY.minimumRentalDays} days minimum for all items`,
+  delivery: `Free UK mainland delivery on orders over £${PAYMENT_POLICY.freeDeliveryThreshold}`,
+  securityDeposit: `Refundable security deposit held on your card ${PAYMENT_POLICY.securityDepositHoldDaysBeforeRental} days before rental and released after the return inspection`,
+  modificationDeadline: `${PAYMENT_POLICY.modificationCutoffDays} days before rental`,
+  rescheduleDeadline: `${PAYMENT_POLICY.rescheduleCutoffDays} days before rental`,
+  cancellationDeadline: `${PAYMENT_POLICY.refundTiers[PAYMENT_POLICY.refundTiers.length - 1].minDaysBeforeRental} days before rental (with fees inside ${PAYMENT_POLICY.refundTiers[0].minDaysBeforeRental} days)`,
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { calculatePromoDiscount, getPromoCodeError, PromoCode } from "./promo-codes";
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  code: "SCHOOLS10",
+  discount_type: "percentage",
+  value: 10,
+  active: true,
+  times_used: 0,
+  ...overrides,
+});
+
+const lines = [
+  { line_total: 100, collections: ["Schools"] },
+  { line_total: 50.5, collections: ["Shows"] },
+];
+
+describe("promo codes", () => {
+  it("takes a percentage off every line when unrestricted", () => {
+    expect(calculatePromoDiscount(promo(), lines)).toEqual({ amount: 15.05, line_amounts: [10, 5.05] });
+  });
+
+  it("only discounts lines in the code's collections", () => {
+    const discount = calculatePromoDiscount(promo({ collections: ["schools"] }), lines);
+    expect(discount).toEqual({ amount: 10, line_amounts: [10, 0] });
+  });
+
+  it("caps a fixed discount at the eligible subtotal and splits it by line total", () => {
+    expect(calculatePromoDiscount(promo({ discount_type: "fixed", value: 30 }), lines))
+      .toEqual({ amount: 30, line_amounts: [19.93, 10.07] });
+    expect(calculatePromoDiscount(promo({ discount_type: "fixed", value: 500, collections: ["Shows"] }), lines).amount)
+      .toBe(50.5);
+  });
+
+  it("rejects expired, exhausted and under-minimum codes", () => {
+    const now = new Date("2025-06-01T00:00:00Z");
+    expect(getPromoCodeError(promo({ expires_at: "2025-05-31T23:59:59Z" }), lines, { now })).toBe("This promo code has expired");
+    expect(getPromoCodeError(promo({ usage_limit: 5, times_used: 5 }), lines, { now })).toMatch(/usage limit/);
+    expect(getPromoCodeError(promo({ per_customer_limit: 1 }), lines, { now, customerUses: 1 })).toMatch(/already used/);
+    expect(getPromoCodeError(promo({ minimum_order_value: 200 }), lines, { now })).toMatch(/at least £200.00/);
+    expect(getPromoCodeError(promo({ collections: ["Competitions"] }), lines, { now })).toMatch(/only applies/);
+    expect(getPromoCodeError(promo({ expires_at: "2025-07-01T00:00:00Z" }), lines, { now })).toBeNull();
+  });
+});
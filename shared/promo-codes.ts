@@ -0,0 +1,115 @@
+/**
+ * Promo code rules shared between client and server.
+ * Codes live in Firestore (`promo_codes/{CODE}`); these pure functions decide whether a code
+ * applies to a cart and how much it takes off, so the checkout summary and the charge agree.
+ */
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+export interface PromoCode {
+  /** Upper-case code, also the Firestore document id */
+  code: string;
+  description?: string;
+  discount_type: PromoDiscountType;
+  /** Percent off (e.g. 15) or GBP off, depending on discount_type */
+  value: number;
+  active: boolean;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  /** Total redemptions allowed across all customers */
+  usage_limit?: number | null;
+  /** Redemptions allowed per customer email */
+  per_customer_limit?: number | null;
+  /** Redemptions so far, including checkouts still being paid for */
+  times_used: number;
+  /** Minimum rental subtotal (GBP, before discount) */
+  minimum_order_value?: number | null;
+  /** Only lines in these collections are discounted (matched case-insensitively); empty means all */
+  collections?: string[];
+}
+
+export interface PromoLine {
+  line_total: number;
+  collections?: string[];
+}
+
+export interface PromoDiscount {
+  /** Total discount (GBP) */
+  amount: number;
+  /** Discount per line (GBP), in the same order as the lines */
+  line_amounts: number[];
+}
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+export function normalisePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Whether a line counts towards (and is discounted by) the code
+ */
+export function isPromoEligibleLine(promo: PromoCode, line: PromoLine) {
+  const restrictedTo = (promo.collections || []).map(name => name.toLowerCase());
+  if (restrictedTo.length === 0) return true;
+  return (line.collections || []).some(name => restrictedTo.includes(name.toLowerCase()));
+}
+
+/**
+ * Reason the code can't be used on this cart, or null if it can.
+ * `customerUses` is how many times this customer has already used the code (when known).
+ */
+export function getPromoCodeError(
+  promo: PromoCode,
+  lines: PromoLine[],
+  { now = new Date(), customerUses = 0 }: { now?: Date; customerUses?: number } = {},
+) {
+  if (!promo.active) return 'This promo code is no longer active';
+  if (promo.starts_at && new Date(promo.starts_at) > now) return 'This promo code is not active yet';
+  if (promo.expires_at && new Date(promo.expires_at) <= now) return 'This promo code has expired';
+  if (promo.usage_limit != null && promo.times_used >= promo.usage_limit) {
+    return 'This promo code has reached its usage limit';
+  }
+  if (promo.per_customer_limit != null && customerUses >= promo.per_customer_limit) {
+    return 'You have already used this promo code';
+  }
+
+  const subtotalPence = lines.reduce((sum, line) => sum + toPence(line.line_total), 0);
+  if (promo.minimum_order_value && subtotalPence < toPence(promo.minimum_order_value)) {
+    return `This promo code needs an order of at least £${promo.minimum_order_value.toFixed(2)}`;
+  }
+  if (!lines.some(line => isPromoEligibleLine(promo, line))) {
+    return `This promo code only applies to ${(promo.collections || []).join(', ')} costumes`;
+  }
+  return null;
+}
+
+/**
+ * Discount for the eligible lines, in whole pence. A fixed discount is capped at the eligible
+ * subtotal and split across the eligible lines in proportion to their totals.
+ */
+export function calculatePromoDiscount(promo: PromoCode, lines: PromoLine[]): PromoDiscount {
+  const eligiblePence = lines.map(line => isPromoEligibleLine(promo, line) ? toPence(line.line_total) : 0);
+  const eligibleTotal = eligiblePence.reduce((sum, amount) => sum + amount, 0);
+
+  const discountPence = promo.discount_type === 'percentage'
+    ? Math.round(eligibleTotal * Math.min(Math.max(promo.value, 0), 100) / 100)
+    : Math.min(toPence(Math.max(promo.value, 0)), eligibleTotal);
+
+  // Share the discount across lines; the last eligible line takes the rounding remainder
+  const lastEligible = eligiblePence.reduce((last, amount, index) => amount > 0 ? index : last, -1);
+  let allocated = 0;
+  const linePence = eligiblePence.map((amount, index) => {
+    if (amount === 0 || eligibleTotal === 0) return 0;
+    const share = index === lastEligible
+      ? discountPence - allocated
+      : Math.round(discountPence * amount / eligibleTotal);
+    allocated += share;
+    return share;
+  });
+
+  return {
+    amount: discountPence / 100,
+    line_amounts: linePence.map(amount => amount / 100),
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { getQuoteExpiry, getQuoteRentalPeriod, getQuoteStatus } from "./quotes";
+
+describe("quotes", () => {
+  it("stays valid until the end of the last day", () => {
+    expect(getQuoteExpiry("2026-10-19T15:30:00Z")).toBe("2026-11-18T23:59:59.999Z");
+  });
+
+  it("expires once the expiry has passed unless it was accepted", () => {
+    const expires_at = "2026-11-18T23:59:59.999Z";
+    expect(getQuoteStatus({ accepted: false, expires_at }, new Date("2026-11-18T12:00:00Z"))).toBe("sent");
+    expect(getQuoteStatus({ accepted: false, expires_at }, new Date("2026-11-19T00:00:00Z"))).toBe("expired");
+    expect(getQuoteStatus({ accepted: true, expires_at }, new Date("2026-12-01T00:00:00Z"))).toBe("accepted");
+  });
+
+  it("covers one rental period", () => {
+    const line = (start_date: string) => ({ start_date, end_date: "2026-12-10" });
+    expect(getQuoteRentalPeriod([line("2026-12-01"), line("2026-12-01")])).toEqual({ start_date: "2026-12-01", end_date: "2026-12-10" });
+    expect(getQuoteRentalPeriod([line("2026-12-01"), line("2026-12-02")])).toBeNull();
+    expect(getQuoteRentalPeriod([])).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Formal quotes for organisations that need one before raising a purchase order.
+ * A quote fixes the cart's prices until it expires; accepting it in time takes the customer to
+ * the usual deposit checkout for those prices. Shared so the cart, My Orders and the quote PDF agree.
+ */
+
+export const QUOTE_POLICY = {
+  /** A quote can be accepted until the end of this many days after it was issued */
+  validityDays: 30,
+} as const;
+
+/** sent: waiting for the customer; accepted: the deposit was paid; expired: past its expiry date unaccepted */
+export type QuoteStatus = 'sent' | 'accepted' | 'expired';
+
+/**
+ * Quote details returned with a user's orders (null for ordinary bookings)
+ */
+export interface QuoteSummary {
+  quote_number: string;
+  status: QuoteStatus;
+  issued_at: string;
+  expires_at: string;
+  /** The customer's own reference, e.g. their purchase order number */
+  reference?: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * When a quote issued at `issuedAt` stops being valid: the end of the last valid day (UTC)
+ */
+export function getQuoteExpiry(issuedAt: string | Date = new Date()) {
+  const issued = new Date(issuedAt);
+  const lastDay = Date.UTC(issued.getUTCFullYear(), issued.getUTCMonth(), issued.getUTCDate()) + QUOTE_POLICY.validityDays * DAY_MS;
+  return new Date(lastDay + DAY_MS - 1).toISOString();
+}
+
+export function getQuoteStatus(quote: { accepted: boolean; expires_at: string }, now: Date = new Date()): QuoteStatus {
+  if (quote.accepted) return 'accepted';
+  return now.getTime() > new Date(quote.expires_at).getTime() ? 'expired' : 'sent';
+}
+
+/**
+ * The rental period shared by every line, or null when the lines are for different dates.
+ * A quote becomes a single Booqable order, so it covers one rental period.
+ */
+export function getQuoteRentalPeriod(lines: { start_date: string; end_date: string }[]) {
+  if (lines.length === 0) return null;
+  const [{ start_date, end_date }] = lines;
+  return lines.every(line => line.start_date === start_date && line.end_date === end_date)
+    ? { start_date, end_date }
+    : null;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { isWeekendRental, quoteRental, rentalDaysBetween } from "./rental-pricing";
+
+const tiered = {
+  base_price: 10,
+  period: "day" as const,
+  structure: { tiles: [{ days: 7, price: 40 }, { days: 1, price: 10 }], extra_day_price: 4, weekend_price: 25 },
+};
+
+describe("rental pricing", () => {
+  it("counts rental days inclusively across a clock change", () => {
+    expect(rentalDaysBetween("2026-10-24", "2026-10-26")).toBe(3);
+    expect(rentalDaysBetween("2026-03-28", "2026-03-30")).toBe(3);
+    expect(rentalDaysBetween("2026-10-24", "not-a-date")).toBeNaN();
+  });
+
+  it("charges the base price per day without a price structure", () => {
+    expect(quoteRental({ base_price: 10, period: "day" }, "2026-10-20", "2026-10-22"))
+      .toEqual({ rental_days: 3, unit_price: 30, price_per_day: 10, pricing_method: "per_day", components: [{ label: "3 days", amount: 30 }] });
+  });
+
+  it("uses the shortest tile covering the rental, then the extra-day price", () => {
+    expect(quoteRental(tiered, "2026-10-20", "2026-10-22").unit_price).toBe(40);
+    expect(quoteRental(tiered, "2026-10-20", "2026-10-29")).toEqual({
+      rental_days: 10,
+      unit_price: 52,
+      price_per_day: 5.2,
+      pricing_method: "price_structure",
+      components: [{ label: "1 week", amount: 40 }, { label: "3 extra days", amount: 12 }],
+    });
+    const noExtraDayPrice = { ...tiered, structure: { tiles: tiered.structure.tiles } };
+    expect(quoteRental(noExtraDayPrice, "2026-10-20", "2026-10-29").unit_price).toBe(57.14);
+  });
+
+  it("charges whole weeks for weekly products unless extra days are priced", () => {
+    expect(quoteRental({ base_price: 50, period: "week" }, "2026-10-20", "2026-10-28").unit_price).toBe(100);
+    expect(quoteRental({ base_price: 50, period: "week", structure: { tiles: [], extra_day_price: 5 } }, "2026-10-20", "2026-10-28").unit_price).toBe(60);
+  });
+
+  it("applies the weekend rate only to weekend rentals where it is cheaper", () => {
+    expect(isWeekendRental("2026-10-16", "2026-10-19")).toBe(true);
+    expect(isWeekendRental("2026-10-16", "2026-10-20")).toBe(false);
+    expect(quoteRental(tiered, "2026-10-16", "2026-10-19")).toMatchObject({ unit_price: 25, pricing_method: "weekend" });
+    expect(quoteRental(tiered, "2026-10-17", "2026-10-18")).toMatchObject({ unit_price: 25, pricing_method: "weekend" });
+    expect(quoteRental({ base_price: 10, period: "day", structure: { tiles: [], weekend_price: 25 } }, "2026-10-17", "2026-10-18"))
+      .toMatchObject({ unit_price: 20, pricing_method: "per_day" });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Rental price engine, shared so the cart, checkout and product pages agree with the server.
+ * A product has a base price per day (or per week) and may have a price structure:
+ * - tiles: flat prices for rentals up to a number of days, e.g. the first week for the price of four days
+ * - an extra-day price for each day beyond the longest tile (or beyond the first week of a weekly product)
+ * - a weekend price for rentals picked up on Friday or Saturday and back by Monday
+ * All amounts are in the base currency (GBP).
+ */
+
+export interface PriceTile {
+  /** Longest rental, in days, covered by the tile */
+  days: number;
+  /** Price per unit for any rental up to `days` long */
+  price: number;
+}
+
+export interface RentalPriceStructure {
+  tiles: PriceTile[];
+  /** Price per unit for each day after the longest tile or first week */
+  extra_day_price?: number | null;
+  /** Flat price per unit for a weekend rental, used when it's cheaper than the usual price */
+  weekend_price?: number | null;
+}
+
+export interface ProductPricing {
+  /** Booqable's base price, per `period` */
+  base_price: number;
+  period: 'day' | 'week';
+  structure?: RentalPriceStructure | null;
+}
+
+export type PricingMethod = 'per_day' | 'per_week' | 'price_structure' | 'weekend';
+
+export interface RentalPriceComponent {
+  /** e.g. "1 week", "3 extra days", "Weekend rate" */
+  label: string;
+  amount: number;
+}
+
+export interface RentalQuote {
+  rental_days: number;
+  /** Price per unit for the whole rental */
+  unit_price: number;
+  /** The unit price spread over the rental, for display */
+  price_per_day: number;
+  pricing_method: PricingMethod;
+  /** How the unit price was reached; the amounts add up to it */
+  components: RentalPriceComponent[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEK_DAYS = 7;
+// Friday or Saturday pickup, returned Sunday or Monday, at most four days
+const WEEKEND_PICKUP_DAYS = [5, 6];
+const WEEKEND_RETURN_DAYS = [0, 1];
+const WEEKEND_MAX_DAYS = 4;
+
+type Priced = { method: PricingMethod; components: [string, number][] };
+
+const toPence = (amount: number) => Math.round(amount * 100);
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+const periodLabel = (days: number) => days % WEEK_DAYS === 0 ? plural(days / WEEK_DAYS, 'week') : plural(days, 'day');
+const extraDaysLabel = (days: number) => `${days} extra day${days === 1 ? '' : 's'}`;
+const dayOfWeek = (date: string) => new Date(date + 'T00:00:00Z').getUTCDay();
+
+/**
+ * Inclusive number of rental days between two YYYY-MM-DD dates, counted in UTC so a daylight
+ * saving change in between doesn't lose a day. NaN when either date is malformed.
+ */
+export function rentalDaysBetween(startDate: string, endDate: string) {
+  const start = new Date(startDate + 'T00:00:00Z');
+  const end = new Date(endDate + 'T00:00:00Z');
+  return Math.floor((end.getTime() - start.getTime()) / DAY_MS) + 1;
+}
+
+export function isWeekendRental(startDate: string, endDate: string) {
+  return WEEKEND_PICKUP_DAYS.includes(dayOfWeek(startDate))
+    && WEEKEND_RETURN_DAYS.includes(dayOfWeek(endDate))
+    && rentalDaysBetween(startDate, endDate) <= WEEKEND_MAX_DAYS;
+}
+
+// The usual price for a rental of `days` days, before any weekend rate
+function standardPrice({ base_price, period, structure }: ProductPricing, days: number): Priced {
+  const basePence = toPence(base_price);
+  const extraDayPence = structure?.extra_day_price != null ? toPence(structure.extra_day_price) : null;
+  const tiles = (structure?.tiles ?? [])
+    .filter(tile => tile.days > 0 && tile.price >= 0)
+    .sort((a, b) => a.days - b.days);
+
+  if (tiles.length > 0) {
+    const covering = tiles.find(tile => tile.days >= days);
+    if (covering) {
+      return { method: 'price_structure', components: [[periodLabel(covering.days), toPence(covering.price)]] };
+    }
+    // Without an extra-day price, days after the longest tile cost that tile's average day
+    const last = tiles[tiles.length - 1];
+    const extraDays = days - last.days;
+    const perExtraDay = extraDayPence ?? toPence(last.price) / last.days;
+    return {
+      method: 'price_structure',
+      components: [[periodLabel(last.days), toPence(last.price)], [extraDaysLabel(extraDays), Math.round(perExtraDay * extraDays)]],
+    };
+  }
+
+  if (period === 'week') {
+    if (extraDayPence !== null && days > WEEK_DAYS) {
+      return { method: 'per_week', components: [[periodLabel(WEEK_DAYS), basePence], [extraDaysLabel(days - WEEK_DAYS), extraDayPence * (days - WEEK_DAYS)]] };
+    }
+    const weeks = Math.ceil(days / WEEK_DAYS);
+    return { method: 'per_week', components: [[plural(weeks, 'week'), basePence * weeks]] };
+  }
+
+  return { method: 'per_day', components: [[plural(days, 'day'), basePence * days]] };
+}
+
+/**
+ * Price one unit of a product for the rental from startDate to endDate (inclusive)
+ */
+export function quoteRental(pricing: ProductPricing, startDate: string, endDate: string): RentalQuote {
+  const days = rentalDaysBetween(startDate, endDate);
+  const standard = standardPrice(pricing, days);
+  const standardPence = standard.components.reduce((sum, [, pence]) => sum + pence, 0);
+
+  const weekendPrice = pricing.structure?.weekend_price;
+  const weekend = weekendPrice != null && isWeekendRental(startDate, endDate) && toPence(weekendPrice) < standardPence
+    ? { method: 'weekend', components: [['Weekend rate', toPence(weekendPrice)]] } as Priced
+    : null;
+
+  const { method, components } = weekend ?? standard;
+  const unitPence = components.reduce((sum, [, pence]) => sum + pence, 0);
+
+  return {
+    rental_days: days,
+    unit_price: unitPence / 100,
+    price_per_day: Math.round(unitPence / days) / 100,
+    pricing_method: method,
+    components: components.map(([label, pence]) => ({ label, amount: pence / 100 })),
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { calculateTax, describeTaxRate, summariseTax } from "./tax";
+
+describe("tax", () => {
+  it("splits VAT-inclusive amounts into net and VAT", () => {
+    expect(calculateTax(120, { inclusive: true, rate: 0.2 })).toEqual({ net: 100, tax: 20, gross: 120 });
+    expect(calculateTax(9.99, { inclusive: true, rate: 0.2 })).toEqual({ net: 8.33, tax: 1.66, gross: 9.99 });
+  });
+
+  it("adds VAT to exclusive amounts", () => {
+    expect(calculateTax(9.99, { inclusive: false, rate: 0.2 })).toEqual({ net: 9.99, tax: 2, gross: 11.99 });
+  });
+
+  it("totals per-line VAT without re-rounding", () => {
+    const lines = [calculateTax(9.99, { inclusive: true, rate: 0.2 }), calculateTax(9.99, { inclusive: true, rate: 0.2 })];
+    expect(summariseTax(lines, { inclusive: true, rate: 0.2 })).toMatchObject({ net: 16.66, tax: 3.32, gross: 19.98 });
+  });
+
+  it("labels the rate", () => {
+    expect(describeTaxRate(0.2)).toBe("VAT (20%)");
+    expect(describeTaxRate(0.135)).toBe("VAT (13.5%)");
+  });
+});
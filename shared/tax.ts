@@ -0,0 +1,69 @@
+/**
+ * VAT rules shared between client and server.
+ * Costume hire and delivery are standard rated in the UK. VAT is worked out per line in whole
+ * pence, so the checkout summary, the Stripe charge, the order and the invoice all agree.
+ */
+
+export const TAX_POLICY = {
+  label: 'VAT',
+  /** UK standard rate */
+  rate: 0.2,
+  /** Whether catalogue prices and delivery fees already include VAT; if not, VAT is added on top */
+  pricesIncludeTax: true,
+  country: 'GB',
+} as const;
+
+export interface TaxAmounts {
+  /** GBP excluding VAT */
+  net: number;
+  tax: number;
+  /** GBP including VAT */
+  gross: number;
+}
+
+export interface TaxSummary extends TaxAmounts {
+  label: string;
+  rate: number;
+  inclusive: boolean;
+}
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+/**
+ * VAT on one amount. Inclusive amounts are split into net + VAT; exclusive amounts have VAT added.
+ */
+export function calculateTax(
+  amount: number,
+  { inclusive = TAX_POLICY.pricesIncludeTax, rate = TAX_POLICY.rate }: { inclusive?: boolean; rate?: number } = {},
+): TaxAmounts {
+  const amountPence = toPence(amount);
+  if (inclusive) {
+    const netPence = Math.round(amountPence / (1 + rate));
+    return { net: netPence / 100, tax: (amountPence - netPence) / 100, gross: amountPence / 100 };
+  }
+  const taxPence = Math.round(amountPence * rate);
+  return { net: amountPence / 100, tax: taxPence / 100, gross: (amountPence + taxPence) / 100 };
+}
+
+/**
+ * Totals of per-line VAT (each line already rounded to the penny)
+ */
+export function summariseTax(
+  lines: TaxAmounts[],
+  { inclusive = TAX_POLICY.pricesIncludeTax, rate = TAX_POLICY.rate }: { inclusive?: boolean; rate?: number } = {},
+): TaxSummary {
+  const sum = (key: keyof TaxAmounts) => lines.reduce((total, line) => total + toPence(line[key]), 0) / 100;
+  return {
+    label: TAX_POLICY.label,
+    rate,
+    inclusive,
+    net: sum('net'),
+    tax: sum('tax'),
+    gross: sum('gross'),
+  };
+}
+
+/**
+ * "VAT (20%)"
+ */
+export const describeTaxRate = (rate: number = TAX_POLICY.rate) => `${TAX_POLICY.label} (${Math.round(rate * 1000) / 10}%)`;